@@ -6,6 +6,7 @@ import {
   createHashChecker,
   hammingDistance,
   generateHashFromDataUrl,
+  generateHashResultFromDataUrl,
   detectDuplicatesByHash,
   type HashLookupResult,
   type FileWithHash,
@@ -476,6 +477,25 @@ describe('Browser Utilities', () => {
       (global as any).document = originalDocument;
     });
 
+    it('should return quality, dimensions and timing', async () => {
+      (global as any).window = global;
+
+      try {
+        const result = await generateHashResultFromDataUrl('data:image/png;base64,iVBORw0KGgo=');
+
+        expect(result.hex).toMatch(/^[0-9a-f]{64}$/);
+        expect(PDQ.toHex(result.hash)).toBe(result.hex);
+        expect(result.quality).toBeGreaterThanOrEqual(0);
+        expect(result.quality).toBeLessThanOrEqual(100);
+        expect(result.width).toBe(100);
+        expect(result.height).toBe(100);
+        expect(result.decodeMs).toBeGreaterThanOrEqual(0);
+        expect(result.hashMs).toBeGreaterThanOrEqual(0);
+      } finally {
+        delete (global as any).window;
+      }
+    });
+
     // Skip in Node.js environment - this requires real DOM and is tested in Playwright E2E tests
     // See: __tests__/e2e/duplicate-detection.spec.ts for browser environment coverage
     it.skip('should handle image load errors', async () => {
@@ -576,6 +596,91 @@ describe('Browser Utilities', () => {
       expect(Array.isArray(duplicates)).toBe(true);
     });
 
+    it('should accept an options object', async () => {
+      const files: FileWithHash[] = [
+        createMockFile('1', 'image1.jpg'),
+        createMockFile('2', 'image2.jpg')
+      ];
+
+      const progressUpdates: DetectionProgress[] = [];
+      const duplicates = await detectDuplicatesByHash(files, {
+        threshold: 31,
+        onProgress: (progress) => progressUpdates.push({ ...progress })
+      });
+
+      expect(Array.isArray(duplicates)).toBe(true);
+      expect(progressUpdates[progressUpdates.length - 1].processedFiles).toBe(2);
+    });
+
+    it('should record quality and skip files below minQuality', async () => {
+      (global as any).window = global;
+
+      try {
+        // The mock canvas returns a flat grey image, which hashes with low quality
+        const files: FileWithHash[] = [
+          createMockFile('1', 'flat1.jpg'),
+          createMockFile('2', 'flat2.jpg')
+        ];
+
+        const grouped = await detectDuplicatesByHash(files, { threshold: 31 });
+        expect(grouped.length).toBe(1);
+        expect(typeof grouped[0][0].meta?.quality).toBe('number');
+
+        const quality = grouped[0][0].meta!.quality!;
+        const filtered = await detectDuplicatesByHash(files, { threshold: 31, minQuality: quality + 1 });
+        expect(filtered).toEqual([]);
+      } finally {
+        delete (global as any).window;
+      }
+    });
+
+    it('should reject an invalid concurrency', async () => {
+      const files = [createMockFile('1', 'image1.jpg'), createMockFile('2', 'image2.jpg')];
+
+      await expect(detectDuplicatesByHash(files, { concurrency: 0 })).rejects.toThrow('Invalid concurrency');
+      await expect(detectDuplicatesByHash(files, { concurrency: 1.5 })).rejects.toThrow('Invalid concurrency');
+    });
+
+    it('should stop starting files once the signal is aborted', async () => {
+      const files = [1, 2, 3, 4, 5].map(i => createMockFile(String(i), `image${i}.jpg`));
+      const controller = new AbortController();
+      const progressUpdates: DetectionProgress[] = [];
+
+      const duplicates = await detectDuplicatesByHash(files, {
+        threshold: 256,
+        concurrency: 1,
+        signal: controller.signal,
+        onProgress: (progress) => {
+          progressUpdates.push({ ...progress });
+          if (progress.processedFiles === 2) controller.abort();
+        }
+      });
+
+      // Only the files hashed before the abort are reported and grouped
+      expect(progressUpdates[progressUpdates.length - 1].processedFiles).toBe(2);
+      expect(duplicates.flat().every(file => file.id === '1' || file.id === '2')).toBe(true);
+    });
+
+    it('should resolve with no groups when already aborted', async () => {
+      const files = [createMockFile('1', 'image1.jpg'), createMockFile('2', 'image2.jpg')];
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(detectDuplicatesByHash(files, { signal: controller.signal })).resolves.toEqual([]);
+    });
+
+    it('should accept Blob and File sources', async () => {
+      const files = [
+        new Blob([new Uint8Array(8)], { type: 'image/png' }),
+        new Blob(['text'], { type: 'text/plain' }),
+        { id: 'a', name: 'a.png', preview: '', type: 'image/png', file: new Blob([new Uint8Array(8)], { type: 'image/png' }) }
+      ];
+
+      // createImageBitmap is unavailable in Node, so both images record a hash error
+      const duplicates = await detectDuplicatesByHash(files, 256);
+      expect(duplicates).toEqual([]);
+    });
+
     it('should respect custom threshold', async () => {
       const files: FileWithHash[] = [
         createMockFile('1', 'image1.jpg'),
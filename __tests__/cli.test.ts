@@ -0,0 +1,104 @@
+/**
+ * Tests for the pdq-wasm command-line tool
+ * Hex hash arguments are used so none of these tests need WASM
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { runCli } from '../src/cli';
+
+const BASE = 'f'.repeat(64);
+// Flip the lowest `bits` bits of the base hash
+function nearBase(bits: number): string {
+  const value = BigInt('0x' + BASE) ^ ((1n << BigInt(bits)) - 1n);
+  return value.toString(16).padStart(64, '0');
+}
+
+async function run(args: string[]): Promise<{ code: number; stdout: string; stderr: string }> {
+  let stdout = '';
+  let stderr = '';
+  const code = await runCli(args, {
+    stdout: text => { stdout += text; },
+    stderr: text => { stderr += text; },
+  });
+  return { code, stdout, stderr };
+}
+
+describe('pdq-wasm CLI', () => {
+  it('should print usage', async () => {
+    const help = await run(['--help']);
+    expect(help.code).toBe(0);
+    expect(help.stdout).toContain('Usage: pdq-wasm <command>');
+
+    expect((await run([])).code).toBe(2);
+  });
+
+  it('should print the package version', async () => {
+    const { version } = require('../package.json');
+    expect((await run(['--version'])).stdout).toBe(`${version}\n`);
+  });
+
+  it('should reject invalid usage with status 2', async () => {
+    const unknown = await run(['frobnicate']);
+    expect(unknown.code).toBe(2);
+    expect(unknown.stderr).toContain('Unknown command: frobnicate');
+
+    expect((await run(['compare', BASE, '--threshold', '300'])).stderr).toContain('Invalid threshold');
+    expect((await run(['hash', '--format', 'xml'])).stderr).toContain('Invalid format');
+    expect((await run(['compare', BASE])).stderr).toContain('exactly two');
+    expect((await run(['match', BASE])).stderr).toContain('--against');
+    expect((await run(['dedupe', '.', '--clustering', 'average'])).stderr).toContain('Invalid clustering');
+  });
+
+  it('should compare hex hashes', async () => {
+    const text = await run(['compare', BASE, nearBase(8)]);
+    expect(text.code).toBe(0);
+    expect(text.stdout).toBe('distance: 8\nsimilarity: 96.88%\nsimilar: yes (threshold 31)\n');
+
+    const json = await run(['compare', BASE, nearBase(40), '--format=json', '-t', '32']);
+    expect(JSON.parse(json.stdout)).toEqual({ distance: 40, similarity: 84.375, similar: false, threshold: 32 });
+  });
+
+  describe('match', () => {
+    let dir: string;
+
+    beforeAll(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'pdq-cli-'));
+    });
+
+    afterAll(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should list hashes within the threshold, nearest first', async () => {
+      const csv = path.join(dir, 'hashes.csv');
+      fs.writeFileSync(csv, [
+        'hash,quality,path',
+        `${nearBase(20)},100,far.jpg`,
+        `${nearBase(2)},100,"near, with comma.jpg"`,
+        `${'0'.repeat(64)},100,other.jpg`,
+        'not-a-hash,0,broken.jpg',
+      ].join('\n'));
+
+      const text = await run(['match', BASE, '--against', csv]);
+      expect(text.code).toBe(0);
+      expect(text.stdout).toBe(`  2  ${nearBase(2)}  near, with comma.jpg\n 20  ${nearBase(20)}  far.jpg\n`);
+      expect(text.stderr).toContain('skipping row 5');
+
+      const out = await run(['match', BASE, '-a', csv, '-t', '10', '-f', 'csv']);
+      expect(out.stdout).toBe(`distance,hash,label\n2,${nearBase(2)},"near, with comma.jpg"\n`);
+    });
+
+    it('should accept headerless hash lists', async () => {
+      const csv = path.join(dir, 'plain.csv');
+      fs.writeFileSync(csv, `${nearBase(1)},a\r\n${nearBase(3)}\r\n`);
+
+      const json = await run(['match', BASE, '--against', csv, '--format', 'json']);
+      expect(JSON.parse(json.stdout)).toEqual([
+        { distance: 1, hash: nearBase(1), label: 'a' },
+        { distance: 3, hash: nearBase(3), label: '' },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,291 @@
+/**
+ * Tests for the pure TypeScript image decoders
+ * PNG and JPEG output is checked against sharp; none of these tests need WASM
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import sharp from 'sharp';
+import { deflateSync } from 'zlib';
+import { decodeImage, detectImageFormat } from '../src/decoders/index';
+
+const FIXTURES_DIR = path.join(__dirname, '../__fixtures__/images');
+
+// Gradient with high-frequency detail in the blue channel
+function testPattern(width: number, height: number): Buffer {
+  const raw = Buffer.alloc(width * height * 3);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const o = (y * width + x) * 3;
+      raw[o] = Math.floor((x * 255) / width);
+      raw[o + 1] = Math.floor((y * 255) / height);
+      raw[o + 2] = (x ^ y) & 0xff;
+    }
+  }
+  return raw;
+}
+
+// Mean and max absolute pixel difference between our decoder and sharp
+async function diffAgainstSharp(encoded: Buffer): Promise<{ mean: number; max: number }> {
+  const decoded = decodeImage(encoded);
+  const pipeline = decoded.channels === 1
+    ? sharp(encoded).toColourspace('b-w')
+    : sharp(encoded).removeAlpha().toColourspace('srgb');
+  const { data, info } = await pipeline.raw().toBuffer({ resolveWithObject: true });
+
+  expect([decoded.width, decoded.height, decoded.channels]).toEqual([info.width, info.height, info.channels]);
+
+  let sum = 0;
+  let max = 0;
+  for (let i = 0; i < data.length; i++) {
+    const d = Math.abs(data[i] - decoded.data[i]);
+    sum += d;
+    max = Math.max(max, d);
+  }
+  return { mean: sum / data.length, max };
+}
+
+// PNG with the given IHDR fields and one IDAT chunk (CRCs are not checked)
+function encodePngChunks(width: number, height: number, colorType: number, idat: Buffer): Buffer {
+  const chunk = (type: string, data: Buffer) => {
+    const header = Buffer.alloc(8);
+    header.writeUInt32BE(data.length, 0);
+    header.write(type, 4, 'ascii');
+    return Buffer.concat([header, data, Buffer.alloc(4)]);
+  };
+  const ihdr = Buffer.alloc(13);
+  ihdr.writeUInt32BE(width, 0);
+  ihdr.writeUInt32BE(height, 4);
+  ihdr[8] = 8;
+  ihdr[9] = colorType;
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    chunk('IHDR', ihdr),
+    chunk('IDAT', idat),
+    chunk('IEND', Buffer.alloc(0))
+  ]);
+}
+
+// Minimal 24-bit bottom-up BMP writer
+function encodeBmp24(rgb: Uint8Array, width: number, height: number): Buffer {
+  const stride = Math.ceil((width * 3) / 4) * 4;
+  const buffer = Buffer.alloc(54 + stride * height);
+  buffer.write('BM', 0, 'ascii');
+  buffer.writeUInt32LE(buffer.length, 2);
+  buffer.writeUInt32LE(54, 10);
+  buffer.writeUInt32LE(40, 14);
+  buffer.writeInt32LE(width, 18);
+  buffer.writeInt32LE(height, 22);
+  buffer.writeUInt16LE(1, 26);
+  buffer.writeUInt16LE(24, 28);
+  for (let y = 0; y < height; y++) {
+    const row = 54 + (height - 1 - y) * stride;
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 3;
+      buffer[row + x * 3] = rgb[i + 2];
+      buffer[row + x * 3 + 1] = rgb[i + 1];
+      buffer[row + x * 3 + 2] = rgb[i];
+    }
+  }
+  return buffer;
+}
+
+describe('image decoders', () => {
+  const width = 131;
+  const height = 97;
+  const raw = testPattern(width, height);
+  const source = () => sharp(raw, { raw: { width, height, channels: 3 } });
+
+  describe('format detection', () => {
+    it('should detect formats from magic bytes', async () => {
+      expect(detectImageFormat(await source().png().toBuffer())).toBe('png');
+      expect(detectImageFormat(await source().jpeg().toBuffer())).toBe('jpeg');
+      expect(detectImageFormat(encodeBmp24(raw, width, height))).toBe('bmp');
+      expect(detectImageFormat(Buffer.from('P6\n1 1\n255\n\0\0\0', 'binary'))).toBe('netpbm');
+    });
+
+    it('should reject unsupported formats', async () => {
+      const webp = await source().webp().toBuffer();
+
+      expect(detectImageFormat(webp)).toBeNull();
+      expect(() => decodeImage(webp)).toThrow('Unsupported image format');
+    });
+  });
+
+  describe('PNG', () => {
+    it.each([
+      ['RGB', (s: sharp.Sharp) => s.png()],
+      ['interlaced', (s: sharp.Sharp) => s.png({ progressive: true })],
+      ['palette', (s: sharp.Sharp) => s.png({ palette: true, colours: 16 })],
+      ['2-bit palette', (s: sharp.Sharp) => s.png({ palette: true, colours: 4 })],
+      ['RGBA', (s: sharp.Sharp) => s.ensureAlpha().png()],
+      ['grayscale', (s: sharp.Sharp) => s.toColourspace('b-w').png()],
+    ])('should decode %s images exactly', async (_, encode) => {
+      const { max } = await diffAgainstSharp(await encode(source()).toBuffer());
+      expect(max).toBe(0);
+    });
+
+    // 16-bit samples keep their high byte; sharp may round instead
+    it.each([
+      ['16-bit', (s: sharp.Sharp) => s.toColourspace('rgb16').png()],
+      ['16-bit grayscale', (s: sharp.Sharp) => s.toColourspace('grey16').png()],
+    ])('should decode %s images', async (_, encode) => {
+      const { max } = await diffAgainstSharp(await encode(source()).toBuffer());
+      expect(max).toBeLessThanOrEqual(1);
+    });
+
+    it('should decode fixture images exactly', async () => {
+      const files = fs.readdirSync(FIXTURES_DIR).filter(f => f.endsWith('_original.png')).slice(0, 5);
+      for (const file of files) {
+        const { max } = await diffAgainstSharp(fs.readFileSync(path.join(FIXTURES_DIR, file)));
+        expect(max).toBe(0);
+      }
+    });
+
+    it('should report truncated files', async () => {
+      const png = await source().png().toBuffer();
+      expect(() => decodeImage(png.subarray(0, 40))).toThrow('Invalid PNG');
+    });
+
+    it('should reject oversized headers and deflate bombs before allocating', () => {
+      expect(() => decodeImage(encodePngChunks(65535, 65535, 2, deflateSync(Buffer.alloc(16)))))
+        .toThrow('Image too large: 65535x65535 pixels');
+
+      // 10x10 grayscale needs 110 bytes; this IDAT inflates to 64 MB
+      expect(() => decodeImage(encodePngChunks(10, 10, 0, deflateSync(Buffer.alloc(64 * 1024 * 1024)))))
+        .toThrow('Invalid PNG: image data inflates beyond the 110 bytes expected for 10x10');
+    });
+  });
+
+  describe('JPEG', () => {
+    // IDCT rounding differs from libjpeg by at most a few levels
+    it.each([
+      ['baseline 4:4:4', (s: sharp.Sharp) => s.jpeg({ quality: 90, chromaSubsampling: '4:4:4' })],
+      ['progressive 4:4:4', (s: sharp.Sharp) => s.jpeg({ quality: 85, progressive: true, chromaSubsampling: '4:4:4' })],
+      ['grayscale', (s: sharp.Sharp) => s.toColourspace('b-w').jpeg()],
+      ['progressive grayscale', (s: sharp.Sharp) => s.toColourspace('b-w').jpeg({ progressive: true })],
+    ])('should decode %s images', async (_, encode) => {
+      const { mean, max } = await diffAgainstSharp(await encode(source()).toBuffer());
+      expect(mean).toBeLessThan(0.1);
+      expect(max).toBeLessThanOrEqual(4);
+    });
+
+    // Nearest-neighbour chroma upsampling differs from libjpeg's smooth upsampling on sharp colour edges
+    it.each([
+      ['baseline 4:2:0', (s: sharp.Sharp) => s.jpeg({ quality: 90 })],
+      ['progressive 4:2:0', (s: sharp.Sharp) => s.jpeg({ quality: 85, progressive: true })],
+      ['mozjpeg', (s: sharp.Sharp) => s.jpeg({ mozjpeg: true })],
+    ])('should decode %s images', async (_, encode) => {
+      const { mean } = await diffAgainstSharp(await encode(source()).toBuffer());
+      expect(mean).toBeLessThan(2);
+    });
+
+    it('should decode fixture images', async () => {
+      const files = fs.readdirSync(FIXTURES_DIR).filter(f => f.endsWith('_original.jpg')).slice(0, 5);
+      for (const file of files) {
+        const { mean } = await diffAgainstSharp(fs.readFileSync(path.join(FIXTURES_DIR, file)));
+        expect(mean).toBeLessThan(0.5);
+      }
+    });
+
+    it('should reject oversized headers', async () => {
+      const jpeg = Buffer.from(await source().jpeg().toBuffer());
+      const sof = jpeg.indexOf(Buffer.from([0xff, 0xc0]));
+      jpeg.writeUInt16BE(65535, sof + 5);
+      jpeg.writeUInt16BE(65535, sof + 7);
+
+      expect(() => decodeImage(jpeg)).toThrow('Image too large: 65535x65535 pixels');
+    });
+  });
+
+  describe('BMP', () => {
+    it('should decode 24-bit bottom-up images', () => {
+      const decoded = decodeImage(encodeBmp24(raw, width, height));
+
+      expect(decoded).toMatchObject({ format: 'bmp', width, height, channels: 3 });
+      expect(Buffer.from(decoded.data).equals(raw)).toBe(true);
+    });
+
+    it('should decode 8-bit palette images', () => {
+      // 2x1 image, palette: 0 = red, 1 = blue
+      const buffer = Buffer.alloc(54 + 8 + 4);
+      buffer.write('BM', 0, 'ascii');
+      buffer.writeUInt32LE(62, 10);
+      buffer.writeUInt32LE(40, 14);
+      buffer.writeInt32LE(2, 18);
+      buffer.writeInt32LE(-1, 22); // top-down
+      buffer.writeUInt16LE(8, 28);
+      buffer.writeUInt32LE(2, 46);
+      buffer.set([0, 0, 255, 0, 255, 0, 0, 0], 54);
+      buffer.set([0, 1], 62);
+
+      expect(Array.from(decodeImage(buffer).data)).toEqual([255, 0, 0, 0, 0, 255]);
+    });
+
+    it('should decode 16-bit 5-5-5 images', () => {
+      const buffer = Buffer.alloc(54 + 4);
+      buffer.write('BM', 0, 'ascii');
+      buffer.writeUInt32LE(54, 10);
+      buffer.writeUInt32LE(40, 14);
+      buffer.writeInt32LE(1, 18);
+      buffer.writeInt32LE(1, 22);
+      buffer.writeUInt16LE(16, 28);
+      buffer.writeUInt16LE(0x7c00 | 0x001f, 54); // magenta
+
+      expect(Array.from(decodeImage(buffer).data)).toEqual([255, 0, 255]);
+    });
+
+    it('should reject oversized headers', () => {
+      const buffer = encodeBmp24(raw, width, height);
+      buffer.writeInt32LE(60000, 18);
+
+      expect(() => decodeImage(buffer)).toThrow('Image too large: 60000x97 pixels');
+    });
+
+    it('should reject RLE compression', () => {
+      const buffer = encodeBmp24(raw, width, height);
+      buffer.writeUInt32LE(1, 30);
+
+      expect(() => decodeImage(buffer)).toThrow('Unsupported BMP compression');
+    });
+  });
+
+  describe('Netpbm', () => {
+    it('should decode binary PPM', () => {
+      const header = Buffer.from(`P6\n# comment\n${width} ${height}\n255\n`, 'ascii');
+      const decoded = decodeImage(Buffer.concat([header, raw]));
+
+      expect(decoded).toMatchObject({ format: 'netpbm', width, height, channels: 3 });
+      expect(Buffer.from(decoded.data).equals(raw)).toBe(true);
+    });
+
+    it('should decode ASCII PGM with a custom maxval', () => {
+      const decoded = decodeImage(Buffer.from('P2\n3 1\n15\n0 5 15\n', 'ascii'));
+
+      expect(decoded.channels).toBe(1);
+      expect(Array.from(decoded.data)).toEqual([0, 85, 255]);
+    });
+
+    it('should decode 16-bit binary PGM', () => {
+      const header = Buffer.from('P5 2 1 65535\n', 'ascii');
+      const decoded = decodeImage(Buffer.concat([header, Buffer.from([0xff, 0xff, 0x80, 0x00])]));
+
+      expect(Array.from(decoded.data)).toEqual([255, 128]);
+    });
+
+    it('should decode PBM bitmaps', () => {
+      expect(Array.from(decodeImage(Buffer.from('P1\n3 1\n101\n', 'ascii')).data)).toEqual([0, 255, 0]);
+      expect(Array.from(decodeImage(Buffer.concat([Buffer.from('P4\n3 1\n'), Buffer.from([0b10100000])])).data))
+        .toEqual([0, 255, 0]);
+    });
+
+    it('should report truncated files', () => {
+      expect(() => decodeImage(Buffer.from('P6\n4 4\n255\n\0\0\0', 'binary'))).toThrow('truncated');
+    });
+
+    it('should reject oversized headers', () => {
+      expect(() => decodeImage(Buffer.from('P6 60000 60000 255\n\0\0\0', 'binary')))
+        .toThrow('Image too large: 60000x60000 pixels');
+    });
+  });
+});
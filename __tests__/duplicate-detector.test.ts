@@ -0,0 +1,223 @@
+/**
+ * Tests for the incremental DuplicateDetector
+ * Files carry precomputed hashes unless a test checks hashing, so WASM is not needed
+ */
+
+import {
+  DuplicateDetector,
+  type DuplicateDetectorEvents,
+  type FileWithHash,
+} from '../src/browser';
+import { PDQ } from '../src/pdq';
+
+// Hash with `count` bits set starting at bit `offset`
+const bits = (offset: number, count: number) =>
+  (((1n << BigInt(count)) - 1n) << BigInt(offset)).toString(16).padStart(64, '0');
+
+const hashed = (id: string, hash: string, quality = 100): FileWithHash => ({
+  id,
+  name: `${id}.jpg`,
+  preview: '',
+  type: 'image/jpeg',
+  meta: { hash, quality }
+});
+
+// Record events in order as [name, group id, member ids or other details]
+function record(detector: DuplicateDetector): unknown[][] {
+  const events: unknown[][] = [];
+  detector.on('group-created', ({ group }) => events.push(['created', group.id, group.map(f => f.id)]));
+  detector.on('group-updated', ({ group }) => events.push(['updated', group.id, group.map(f => f.id)]));
+  detector.on('group-merged', ({ group, mergedIds }) => events.push(['merged', group.id, group.map(f => f.id), mergedIds]));
+  detector.on('group-removed', ({ id }) => events.push(['removed', id]));
+  return events;
+}
+
+describe('DuplicateDetector', () => {
+  // Two clusters ten or more bits apart, and a file within reach of both
+  const a = hashed('a', bits(0, 0));
+  const b = hashed('b', bits(0, 4));
+  const c = hashed('c', bits(0, 8));
+  const x = hashed('x', bits(100, 20));
+  const y = hashed('y', bits(100, 16));
+  const bridge = hashed('bridge', bits(100, 9));
+
+  it('should create, grow and merge groups as files arrive', async () => {
+    const detector = new DuplicateDetector({ threshold: 10 });
+    const events = record(detector);
+
+    expect(await detector.add(a)).toBeNull();
+    const group = await detector.add(b);
+    expect(group?.map(f => f.id)).toEqual(['a', 'b']);
+    expect(group?.maxDistance).toBe(4);
+
+    await detector.add(x);
+    await detector.add(y);
+    await detector.add(c);
+    const merged = await detector.add(bridge);
+
+    expect(events).toEqual([
+      ['created', 1, ['a', 'b']],
+      ['created', 2, ['x', 'y']],
+      ['updated', 1, ['a', 'b', 'c']],
+      ['merged', 1, ['a', 'b', 'x', 'y', 'c', 'bridge'], [2]]
+    ]);
+    expect(merged?.maxDistance).toBe(28);
+    expect(detector.groups().map(g => g.id)).toEqual([1]);
+    expect(detector.size).toBe(6);
+  });
+
+  it('should split, shrink and remove groups as files leave', async () => {
+    const detector = new DuplicateDetector({ threshold: 10 });
+    for (const file of [a, b, x, y, c, bridge]) await detector.add(file);
+    const events = record(detector);
+
+    expect(detector.remove('bridge')).toBe(true);
+    expect(detector.remove('b')).toBe(true);
+    expect(detector.remove('c')).toBe(true);
+    expect(detector.remove('c')).toBe(false);
+
+    expect(events).toEqual([
+      ['updated', 1, ['a', 'b', 'c']],
+      ['created', 3, ['x', 'y']],
+      ['updated', 1, ['a', 'c']],
+      ['removed', 1]
+    ]);
+    expect(detector.groups().map(g => [g.id, g.map(f => f.id)])).toEqual([[3, ['x', 'y']]]);
+
+    // Within 10 of the removed c but not of a
+    expect(await detector.add(hashed('c2', bits(0, 14)))).toBeNull();
+    expect((await detector.add(hashed('a2', bits(0, 1))))?.map(f => f.id)).toEqual(['a', 'a2']);
+    expect(events[events.length - 1]).toEqual(['created', 4, ['a', 'a2']]);
+  });
+
+  it('should keep maxDistance in step with group membership', async () => {
+    // Point k has its lowest 2k bits set, so points i and j are 2|i - j| apart
+    // and a threshold of 4 links points up to two steps apart
+    const detector = new DuplicateDetector({ threshold: 4 });
+    const point = (id: string) => Number(id.slice(1));
+    const seen: string[] = [];
+    (['group-created', 'group-merged', 'group-removed'] as const).forEach(name => detector.on(name, () => seen.push(name)));
+    const expectSpans = (spans: number[][]) => {
+      expect(detector.groups().map(group => group.map(f => point(f.id)).sort((a, b) => a - b)))
+        .toEqual(spans);
+      detector.groups().forEach(group => {
+        const points = group.map(f => point(f.id));
+        expect(group.maxDistance).toBe(2 * (Math.max(...points) - Math.min(...points)));
+      });
+    };
+
+    for (const k of [0, 1, 4, 5, 8, 9, 12, 13]) {
+      await detector.add(hashed(`p${k}`, bits(0, 2 * k)));
+    }
+    expectSpans([[0, 1], [4, 5], [8, 9], [12, 13]]);
+
+    // 2 links 0-1 with 4-5; 10 links 8-9 with 12-13
+    await detector.add(hashed('p2', bits(0, 4)));
+    await detector.add(hashed('p10', bits(0, 20)));
+    await detector.add(hashed('p6', bits(0, 12)));
+    expectSpans([[0, 1, 2, 4, 5, 6, 8, 9, 10, 12, 13]]);
+
+    detector.remove('p6');
+    expectSpans([[0, 1, 2, 4, 5], [8, 9, 10, 12, 13]]);
+    detector.remove('p2');
+    detector.remove('p13');
+    expectSpans([[0, 1], [4, 5], [8, 9, 10, 12]]);
+
+    expect(seen.filter(name => name === 'group-merged')).toHaveLength(3);
+    expect(seen.filter(name => name === 'group-created')).toHaveLength(6);
+  });
+
+  it('should keep low-quality files out of groups', async () => {
+    const detector = new DuplicateDetector({ minQuality: 50 });
+
+    await detector.add(hashed('a', bits(0, 0), 90));
+    expect(await detector.add(hashed('blank', bits(0, 0), 10))).toBeNull();
+    expect(detector.groups()).toEqual([]);
+    expect(detector.size).toBe(2);
+  });
+
+  it('should report hashing errors and reject duplicate ids', async () => {
+    const detector = new DuplicateDetector();
+    const errors: Array<DuplicateDetectorEvents['file-error']> = [];
+    const hashedFiles: string[] = [];
+    detector.on('file-error', event => errors.push(event));
+    const unsubscribe = detector.on('file-hashed', ({ file }) => hashedFiles.push(file.id));
+
+    await detector.add(a);
+    await expect(detector.add(a)).rejects.toThrow('File already added: a');
+
+    expect(await detector.add(hashed('bad', 'xyz'))).toBeNull();
+    // No Blob and no DOM to load the preview with
+    expect(await detector.add({ id: 'p', name: 'p.jpg', preview: 'data:image/png;base64,', type: 'image/png' })).toBeNull();
+
+    expect(errors.map(e => [e.file.id, e.file.meta?.hashError === e.error])).toEqual([['bad', true], ['p', true]]);
+    expect(errors[0].error).toContain('Invalid hash: xyz');
+    expect(hashedFiles).toEqual([]);
+    expect(detector.size).toBe(1);
+
+    unsubscribe();
+    expect(() => new DuplicateDetector({ threshold: 300 })).toThrow('Invalid threshold');
+  });
+
+  it('should report a wrong-length preset hash and accept a retry with the same id', async () => {
+    const detector = new DuplicateDetector();
+    const errors: string[] = [];
+    detector.on('file-error', ({ error }) => errors.push(error));
+
+    expect(await detector.add(hashed('short', bits(0, 4).slice(2)))).toBeNull();
+    expect(errors).toEqual([expect.stringContaining('Must be 64 hex characters')]);
+    expect(detector.size).toBe(0);
+
+    await detector.add(a);
+    const group = await detector.add(hashed('short', bits(0, 4)));
+    expect(group?.map(f => f.id)).toEqual(['a', 'short']);
+  });
+
+  describe('hashing', () => {
+    // Each createImageBitmap() call waits until the test resolves it
+    let decodes: Array<() => void>;
+    const globals = globalThis as any;
+
+    beforeEach(() => {
+      decodes = [];
+      globals.createImageBitmap = () => new Promise(resolve => {
+        decodes.push(() => resolve({ width: 1, height: 1, close() {} }));
+      });
+      globals.OffscreenCanvas = class {
+        getContext() {
+          return { drawImage() {}, getImageData: () => ({ data: new Uint8ClampedArray(4) }) };
+        }
+      };
+      jest.spyOn(PDQ, 'hash').mockReturnValue({ hash: new Uint8Array(32), quality: 100 });
+    });
+
+    afterEach(() => {
+      delete globals.createImageBitmap;
+      delete globals.OffscreenCanvas;
+      jest.restoreAllMocks();
+    });
+
+    const upload = (name: string): FileWithHash => ({
+      id: 'a', name, preview: '', type: 'image/png', file: new Blob([name], { type: 'image/png' })
+    });
+
+    it('should drop a file removed while hashing, even if it is added again', async () => {
+      const detector = new DuplicateDetector();
+      const hashedFiles: string[] = [];
+      detector.on('file-hashed', ({ file }) => hashedFiles.push(file.name));
+
+      const first = detector.add(upload('old'));
+      expect(detector.remove('a')).toBe(true);
+      const second = detector.add(upload('new'));
+
+      decodes[0]();
+      await expect(first).resolves.toBeNull();
+      decodes[1]();
+      await expect(second).resolves.toBeNull();
+
+      expect(hashedFiles).toEqual(['new']);
+      expect(detector.size).toBe(1);
+      expect((await detector.add(hashed('b', bits(0, 0))))?.map(f => f.name)).toEqual(['new', 'b.jpg']);
+    });
+  });
+});
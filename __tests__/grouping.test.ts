@@ -0,0 +1,69 @@
+/**
+ * Tests for near-duplicate grouping and clustering modes
+ */
+
+import { groupSimilarHashes } from '../src/grouping';
+import type { PDQHash } from '../src/types';
+
+// Hash with the lowest `bits` bits set; distance between withBits(a) and withBits(b) is |a - b|
+function withBits(bits: number): PDQHash {
+  const hash = new Uint8Array(32);
+  for (let k = 0; k < bits; k++) {
+    hash[31 - (k >> 3)] |= 1 << (k & 7);
+  }
+  return hash;
+}
+
+describe('groupSimilarHashes', () => {
+  // A~B and B~C are within 31, A and C are 40 apart
+  const chain = [withBits(0), withBits(20), withBits(40)];
+
+  it('should group greedily against the first member by default', () => {
+    const hashes = [withBits(0), withBits(200), withBits(10), withBits(40)];
+
+    expect(groupSimilarHashes(hashes, 31)).toEqual([{ indices: [0, 2], maxDistance: 10 }]);
+    expect(groupSimilarHashes(hashes, 40)).toEqual([{ indices: [0, 2, 3], maxDistance: 40 }]);
+    expect(groupSimilarHashes(chain, 31, 'greedy')).toEqual([{ indices: [0, 1], maxDistance: 20 }]);
+  });
+
+  it('should skip missing hashes and singletons', () => {
+    expect(groupSimilarHashes([null, withBits(0), undefined], 31)).toEqual([]);
+  });
+
+  it('should keep chains together with connected-components', () => {
+    expect(groupSimilarHashes(chain, 31, 'connected-components')).toEqual([{ indices: [0, 1, 2], maxDistance: 40 }]);
+
+    // Greedy splits the chain differently depending on order; components do not
+    const reversed = [...chain].reverse();
+    expect(groupSimilarHashes(reversed, 31, 'greedy')).toEqual([{ indices: [0, 1], maxDistance: 20 }]);
+    expect(groupSimilarHashes(reversed, 31, 'connected-components')).toEqual([{ indices: [0, 1, 2], maxDistance: 40 }]);
+  });
+
+  it('should keep every pair within the threshold with complete-link', () => {
+    const hashes = [withBits(0), withBits(20), withBits(45), withBits(25), withBits(60)];
+    const groups = groupSimilarHashes(hashes, 31, 'complete-link');
+
+    expect(groups).toEqual([
+      { indices: [0, 1, 3], maxDistance: 25 },
+      { indices: [2, 4], maxDistance: 15 },
+    ]);
+    for (const { maxDistance } of groups) {
+      expect(maxDistance).toBeLessThanOrEqual(31);
+    }
+  });
+
+  it('should group around the best-covering medoid with star', () => {
+    expect(groupSimilarHashes(chain, 31, 'star')).toEqual([{ indices: [1, 0, 2], maxDistance: 40 }]);
+
+    // Two stars: 0..2 around index 1, 3..4 around index 3
+    const hashes = [withBits(0), withBits(10), withBits(20), withBits(100), withBits(110)];
+    expect(groupSimilarHashes(hashes, 10, 'star')).toEqual([
+      { indices: [1, 0, 2], maxDistance: 20 },
+      { indices: [3, 4], maxDistance: 10 },
+    ]);
+  });
+
+  it('should reject unknown modes', () => {
+    expect(() => groupSimilarHashes(chain, 31, 'average' as any)).toThrow('Invalid clustering mode: average');
+  });
+});
@@ -0,0 +1,394 @@
+/**
+ * Tests for cache stores, batched and similarity hash checkers, and resilience modifiers
+ * createHashChecker itself is covered in browser.test.ts
+ */
+
+import {
+  createHashChecker,
+  createBatchHashChecker,
+  createSimilarityChecker,
+  LRUCacheStore,
+  HashLookupTimeoutError,
+  HashLookupRetryError,
+  CircuitOpenError,
+  type CacheEntry,
+  type CacheStore,
+  type HashLookupResult,
+  type NearHashMatch
+} from '../src/hash-checker';
+import { PDQIndex } from '../src/pdq-index';
+
+const hashOf = (n: number) => n.toString(16).padStart(64, '0');
+
+// Bulk lookup where only even hashes exist
+function evenLookup() {
+  return jest.fn(async (hashes: string[]): Promise<HashLookupResult[]> =>
+    hashes.map(hash => ({ exists: parseInt(hash, 16) % 2 === 0, existing: { hash } }))
+  );
+}
+
+describe('cache stores', () => {
+  // Async store, as persistent stores are
+  class AsyncMapStore implements CacheStore {
+    map = new Map<string, CacheEntry>();
+    async get(hash: string) { return this.map.get(hash); }
+    async set(hash: string, entry: CacheEntry) { this.map.set(hash, entry); }
+    async delete(hash: string) { this.map.delete(hash); }
+    async clear() { this.map.clear(); }
+    async entries() { return this.map.entries(); }
+  }
+
+  it('should accept an options object with a custom store', async () => {
+    const store = new AsyncMapStore();
+    const lookup = evenLookup();
+    const checker = createBatchHashChecker(lookup).cached({ ttl: 1000, store });
+
+    await checker(hashOf(2));
+    await checker(hashOf(2));
+    expect(lookup).toHaveBeenCalledTimes(1);
+    expect(store.map.get(hashOf(2))?.result.exists).toBe(true);
+
+    await checker.clearCache?.();
+    expect(store.map.size).toBe(0);
+  });
+
+  it('should evict the least recently used entry', () => {
+    const entry = (n: number): CacheEntry => ({ result: { exists: true }, timestamp: n });
+    const store = new LRUCacheStore(2);
+    store.set('a', entry(1));
+    store.set('b', entry(2));
+    store.get('a');
+    store.set('c', entry(3));
+
+    expect(Array.from(store.entries()).map(([hash]) => hash)).toEqual(['a', 'c']);
+    expect(store.size).toBe(2);
+  });
+
+  it('should export and import unexpired entries for warm starts', async () => {
+    const lookup = jest.fn(async (hash: string) => ({ exists: true, existing: hash.slice(-1) }));
+    const first = createHashChecker(lookup).cached({ ttl: 60_000 });
+    await first(hashOf(1));
+    await first(hashOf(2));
+
+    const snapshot = JSON.parse(JSON.stringify(await first.exportCache!()));
+    expect(snapshot.version).toBe(1);
+    expect(snapshot.entries.map(([hash]: [string]) => hash)).toEqual([hashOf(1), hashOf(2)]);
+
+    // Add an expired and an invalid entry; both are skipped
+    snapshot.entries.push([hashOf(3), { result: { exists: true }, timestamp: Date.now() - 120_000 }]);
+    snapshot.entries.push(['bad', { result: { exists: true }, timestamp: Date.now() }]);
+
+    const second = createHashChecker(lookup).cached({ ttl: 60_000 });
+    expect(await second.importCache!(snapshot)).toBe(2);
+    await second(hashOf(1).toUpperCase());
+    expect(lookup).toHaveBeenCalledTimes(2);
+
+    await expect(second.importCache!({ version: 2 } as any)).rejects.toThrow('Invalid cache snapshot');
+  });
+
+  it('should not fail lookups when the store cannot write', async () => {
+    const store = new AsyncMapStore();
+    store.set = async () => { throw new Error('quota exceeded'); };
+    const checker = createHashChecker(async () => ({ exists: true })).cached({ store });
+
+    await expect(checker(hashOf(1))).resolves.toEqual({ exists: true });
+  });
+
+  it('should treat store read and delete failures as cache misses', async () => {
+    const lookup = jest.fn(async () => ({ exists: true }));
+    const unreadable = new AsyncMapStore();
+    unreadable.get = async () => { throw new Error('IndexedDB is not available'); };
+
+    await expect(createHashChecker(lookup).cached({ store: unreadable })(hashOf(1))).resolves.toEqual({ exists: true });
+
+    // Expired entry whose delete fails
+    const undeletable = new AsyncMapStore();
+    undeletable.map.set(hashOf(2), { result: { exists: false }, timestamp: 0 });
+    undeletable.delete = () => { throw new Error('read-only'); };
+
+    await expect(createHashChecker(lookup).cached({ ttl: 1000, store: undeletable })(hashOf(2)))
+      .resolves.toEqual({ exists: true });
+    expect(lookup).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('createBatchHashChecker', () => {
+  it('should gather calls into one bulk lookup and fan results out', async () => {
+    const lookup = evenLookup();
+    const checker = createBatchHashChecker(lookup);
+
+    const results = await Promise.all([1, 2, 3, 4].map(n => checker(hashOf(n))));
+
+    expect(lookup).toHaveBeenCalledTimes(1);
+    expect(lookup).toHaveBeenCalledWith([1, 2, 3, 4].map(hashOf));
+    expect(results.map(r => r.exists)).toEqual([false, true, false, true]);
+    expect(results[1].existing).toEqual({ hash: hashOf(2) });
+  });
+
+  it('should split bursts by maxBatchSize', async () => {
+    const lookup = evenLookup();
+    const checker = createBatchHashChecker(lookup, { maxBatchSize: 2 });
+
+    await Promise.all([1, 2, 3, 4, 5].map(n => checker(hashOf(n))));
+
+    expect(lookup.mock.calls.map(([hashes]) => hashes.length)).toEqual([2, 2, 1]);
+  });
+
+  it('should dedupe in-flight requests for the same hash', async () => {
+    const lookup = evenLookup();
+    const checker = createBatchHashChecker(lookup);
+
+    const [a, b, c] = await Promise.all([
+      checker(hashOf(2)),
+      checker(hashOf(2).toUpperCase()),
+      checker(hashOf(3))
+    ]);
+
+    expect(lookup).toHaveBeenCalledWith([hashOf(2), hashOf(3)]);
+    expect(a).toBe(b);
+    expect(c.exists).toBe(false);
+  });
+
+  it('should wait maxDelayMs for more calls', async () => {
+    jest.useFakeTimers();
+    try {
+      const lookup = evenLookup();
+      const checker = createBatchHashChecker(lookup, { maxDelayMs: 50 });
+
+      const first = checker(hashOf(1));
+      jest.advanceTimersByTime(30);
+      const second = checker(hashOf(2));
+      expect(lookup).not.toHaveBeenCalled();
+
+      jest.advanceTimersByTime(20);
+      await Promise.all([first, second]);
+      expect(lookup).toHaveBeenCalledTimes(1);
+      expect(lookup).toHaveBeenCalledWith([hashOf(1), hashOf(2)]);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('should accept Map and object results, defaulting missing hashes', async () => {
+    const mapChecker = createBatchHashChecker(async hashes => new Map([[hashes[0], { exists: true }]]));
+    const [hit, miss] = await Promise.all([mapChecker(hashOf(1)), mapChecker(hashOf(2))]);
+    expect(hit).toEqual({ exists: true });
+    expect(miss).toEqual({ exists: false, existing: null });
+
+    const objectChecker = createBatchHashChecker(async () => ({ [hashOf(7)]: { exists: true, existing: 'row' } }));
+    await expect(objectChecker(hashOf(7))).resolves.toEqual({ exists: true, existing: 'row' });
+  });
+
+  it('should reject every call in a failed batch', async () => {
+    const checker = createBatchHashChecker(async () => {
+      throw new Error('RPC failed');
+    });
+
+    const calls = [checker(hashOf(1)), checker(hashOf(2))];
+    await expect(calls[0]).rejects.toThrow('RPC failed');
+    await expect(calls[1]).rejects.toThrow('RPC failed');
+
+    const short = createBatchHashChecker(async () => [{ exists: true }]);
+    const both = Promise.all([short(hashOf(1)), short(hashOf(2))]);
+    await expect(both).rejects.toThrow('Batch lookup returned 1 results for 2 hashes');
+  });
+
+  it('should compose with cached() and ignoreInvalid()', async () => {
+    const lookup = evenLookup();
+    const checker = createBatchHashChecker(lookup).ignoreInvalid().cached();
+
+    await Promise.all([checker(hashOf(1)), checker('not-a-hash'), checker(hashOf(2))]);
+    expect(lookup).toHaveBeenCalledTimes(1);
+    expect(lookup).toHaveBeenCalledWith([hashOf(1), hashOf(2)]);
+
+    // Cached hashes are answered without another batch
+    const results = await Promise.all([checker(hashOf(1)), checker(hashOf(2)), checker(hashOf(3))]);
+    expect(lookup).toHaveBeenCalledTimes(2);
+    expect(lookup).toHaveBeenLastCalledWith([hashOf(3)]);
+    expect(results.map(r => r.exists)).toEqual([false, true, false]);
+
+    await expect(createBatchHashChecker(lookup)('bad')).rejects.toThrow('Invalid PDQ hash');
+  });
+
+  it('should validate options', () => {
+    const lookup = evenLookup();
+    expect(() => createBatchHashChecker(lookup, { maxBatchSize: 0 })).toThrow('Invalid maxBatchSize');
+    expect(() => createBatchHashChecker(lookup, { maxDelayMs: -1 })).toThrow('Invalid maxDelayMs');
+  });
+});
+
+describe('createSimilarityChecker', () => {
+  const BASE = 'f'.repeat(64);
+  // Flip the lowest `bits` bits of the base hash
+  const nearBase = (bits: number) =>
+    (BigInt('0x' + BASE) ^ ((1n << BigInt(bits)) - 1n)).toString(16).padStart(64, '0');
+
+  it('should report the closest in-memory matches within maxDistance', async () => {
+    const checker = createSimilarityChecker({
+      hashes: [[nearBase(20), 'far'], [nearBase(3), 'near'], ['0'.repeat(64), 'other']] as const,
+      maxDistance: 31
+    });
+
+    const result = await checker(BASE.toUpperCase());
+    expect(result).toEqual({
+      exists: true,
+      existing: 'near',
+      distance: 3,
+      matches: [
+        { hash: nearBase(3), distance: 3, existing: 'near' },
+        { hash: nearBase(20), distance: 20, existing: 'far' }
+      ]
+    });
+
+    const miss = await checker(nearBase(128));
+    expect(miss).toEqual({ exists: false, existing: null, distance: null, matches: [] });
+  });
+
+  it('should limit matches and query a live PDQIndex', async () => {
+    const index = new PDQIndex<string>();
+    index.add(nearBase(1), 'a');
+    const checker = createSimilarityChecker({ hashes: index, maxMatches: 1 });
+
+    index.add(BASE, 'exact');
+    const result = await checker(BASE);
+    expect(result.matches).toEqual([{ hash: BASE, distance: 0, existing: 'exact' }]);
+  });
+
+  it('should filter, sort and truncate nearLookup results', async () => {
+    const nearLookup = jest.fn(async (): Promise<NearHashMatch[]> => [
+      { hash: nearBase(12), distance: 12 },
+      { hash: nearBase(40), distance: 40 },
+      { hash: nearBase(2), distance: 2, existing: { id: 7 } }
+    ]);
+    const checker = createSimilarityChecker({ nearLookup, maxDistance: 15, maxMatches: 5 });
+
+    const result = await checker(BASE);
+    expect(nearLookup).toHaveBeenCalledWith(BASE, 15, 5);
+    expect(result.matches.map(m => m.distance)).toEqual([2, 12]);
+    expect(result.existing).toEqual({ id: 7 });
+  });
+
+  it('should compose with cached() and ignoreInvalid()', async () => {
+    const nearLookup = jest.fn(async () => [{ hash: BASE, distance: 0 }]);
+    const checker = createSimilarityChecker({ nearLookup }).ignoreInvalid().cached();
+
+    await checker(BASE);
+    await checker(BASE);
+    expect(nearLookup).toHaveBeenCalledTimes(1);
+
+    await expect(checker('nope')).resolves.toEqual({ exists: false, existing: null, distance: null, matches: [] });
+    await expect(createSimilarityChecker({ nearLookup })('nope')).rejects.toThrow('Invalid PDQ hash');
+  });
+
+  it('should validate options', () => {
+    const nearLookup = async () => [];
+    expect(() => createSimilarityChecker({})).toThrow('exactly one of hashes or nearLookup');
+    expect(() => createSimilarityChecker({ hashes: [], nearLookup })).toThrow('exactly one');
+    expect(() => createSimilarityChecker({ nearLookup, maxDistance: 300 })).toThrow('Invalid maxDistance');
+    expect(() => createSimilarityChecker({ nearLookup, maxMatches: 0 })).toThrow('Invalid maxMatches');
+  });
+});
+
+describe('resilience modifiers', () => {
+  beforeEach(() => jest.useFakeTimers());
+  afterEach(() => jest.useRealTimers());
+
+  const never = () => new Promise<HashLookupResult>(() => {});
+  const failing = (message = 'backend down') => jest.fn(async (): Promise<HashLookupResult> => {
+    throw new Error(message);
+  });
+
+  it('should reject slow lookups with HashLookupTimeoutError', async () => {
+    const checker = createHashChecker(never).timeout(500);
+
+    const call = checker(hashOf(1));
+    jest.advanceTimersByTime(500);
+    await expect(call).rejects.toThrow(HashLookupTimeoutError);
+    await expect(call).rejects.toMatchObject({ timeoutMs: 500 });
+
+    const fast = createHashChecker(async () => ({ exists: true })).timeout(500);
+    await expect(fast(hashOf(1))).resolves.toEqual({ exists: true });
+    expect(() => createHashChecker(never).timeout(0)).toThrow('Invalid timeout');
+  });
+
+  it('should retry with exponential backoff', async () => {
+    const lookup = jest.fn()
+      .mockRejectedValueOnce(new Error('503'))
+      .mockRejectedValueOnce(new Error('503'))
+      .mockResolvedValue({ exists: true });
+    const checker = createHashChecker(lookup).retry({ attempts: 3, delayMs: 100 });
+
+    const call = checker(hashOf(1));
+    await jest.advanceTimersByTimeAsync(100);
+    expect(lookup).toHaveBeenCalledTimes(2);
+    await jest.advanceTimersByTimeAsync(199);
+    expect(lookup).toHaveBeenCalledTimes(2);
+    await jest.advanceTimersByTimeAsync(1);
+    await expect(call).resolves.toEqual({ exists: true });
+    expect(lookup).toHaveBeenCalledTimes(3);
+  });
+
+  it('should throw HashLookupRetryError with the last error once attempts run out', async () => {
+    const lookup = failing();
+    const checker = createHashChecker(lookup).retry({ attempts: 2, backoff: 'fixed', delayMs: 10 });
+
+    const call = checker(hashOf(1));
+    const settled = expect(call).rejects.toThrow(HashLookupRetryError);
+    await jest.advanceTimersByTimeAsync(10);
+    await settled;
+    await expect(call).rejects.toMatchObject({ attempts: 2, cause: new Error('backend down') });
+
+    expect(() => createHashChecker(lookup).retry({ attempts: 0 })).toThrow('Invalid retry attempts');
+  });
+
+  it('should open the circuit after repeated failures and close it after a successful trial', async () => {
+    const lookup = failing();
+    const checker = createHashChecker(lookup).circuitBreaker({ failureThreshold: 2, resetMs: 1000 });
+
+    await expect(checker(hashOf(1))).rejects.toThrow('backend down');
+    await expect(checker(hashOf(1))).rejects.toThrow('backend down');
+    await expect(checker(hashOf(1))).rejects.toThrow(CircuitOpenError);
+    expect(lookup).toHaveBeenCalledTimes(2);
+
+    // A failed trial reopens the circuit
+    jest.advanceTimersByTime(1000);
+    await expect(checker(hashOf(1))).rejects.toThrow('backend down');
+    await expect(checker(hashOf(1))).rejects.toThrow(CircuitOpenError);
+
+    jest.advanceTimersByTime(1000);
+    lookup.mockResolvedValue({ exists: true });
+    await expect(checker(hashOf(1))).resolves.toEqual({ exists: true });
+    await expect(checker(hashOf(1))).resolves.toEqual({ exists: true });
+    expect(lookup).toHaveBeenCalledTimes(5);
+  });
+
+  it('should not retry while the circuit is open', async () => {
+    const lookup = failing();
+    const checker = createHashChecker(lookup)
+      .circuitBreaker({ failureThreshold: 1 })
+      .retry({ attempts: 5, delayMs: 0 });
+
+    const call = expect(checker(hashOf(1))).rejects.toThrow(CircuitOpenError);
+    await jest.advanceTimersByTimeAsync(0);
+    await call;
+    expect(lookup).toHaveBeenCalledTimes(1);
+  });
+
+  it('should apply fail-open and fail-closed policies without caching them', async () => {
+    const lookup = failing();
+
+    const open = createHashChecker(lookup).onFailure('open');
+    await expect(open(hashOf(1))).resolves.toMatchObject({ exists: false, error: new Error('backend down') });
+
+    const closed = createHashChecker(lookup).cached().onFailure('closed');
+    await expect(closed(hashOf(1))).resolves.toMatchObject({ exists: true, existing: null });
+    lookup.mockResolvedValue({ exists: false });
+    await expect(closed(hashOf(1))).resolves.toEqual({ exists: false });
+
+    const custom = createHashChecker(failing()).onFailure((error, hash) => ({ exists: false, existing: hash }));
+    await expect(custom(hashOf(2))).resolves.toEqual({ exists: false, existing: hashOf(2) });
+
+    // Invalid input still throws
+    await expect(open('bad')).rejects.toThrow('Invalid PDQ hash');
+  });
+});
@@ -0,0 +1,253 @@
+/**
+ * Tests for the WASM-free hash utilities
+ * None of these tests call PDQ.init()
+ */
+
+import {
+  popcount32,
+  isValidHex,
+  hashHammingDistance,
+  hammingDistanceBatchBytes,
+  distanceMatrixBytes,
+  hashToHex,
+  hexToHash,
+  hashToBase64,
+  base64ToHash,
+} from '../src/hash-utils';
+import { PDQ } from '../src/pdq';
+import { hammingDistance } from '../src/browser';
+
+describe('hash utilities', () => {
+  describe('popcount32', () => {
+    it('should count bits', () => {
+      expect(popcount32(0)).toBe(0);
+      expect(popcount32(1)).toBe(1);
+      expect(popcount32(0xff)).toBe(8);
+      expect(popcount32(0xffffffff)).toBe(32);
+      expect(popcount32(-1)).toBe(32);
+      expect(popcount32(0x80000000)).toBe(1);
+      expect(popcount32(0x55555555)).toBe(16);
+    });
+  });
+
+  describe('hashHammingDistance', () => {
+    it('should return 0 for identical hashes', () => {
+      const hash = new Uint8Array(32).fill(0xa5);
+      expect(hashHammingDistance(hash, hash)).toBe(0);
+    });
+
+    it('should return 256 for complementary hashes', () => {
+      expect(hashHammingDistance(new Uint8Array(32), new Uint8Array(32).fill(0xff))).toBe(256);
+    });
+
+    it('should count bits in every byte position', () => {
+      for (let i = 0; i < 32; i++) {
+        const hash = new Uint8Array(32);
+        hash[i] = 0x81;
+        expect(hashHammingDistance(new Uint8Array(32), hash)).toBe(2);
+      }
+    });
+
+    it('should support byte offsets', () => {
+      const packed = new Uint8Array(64);
+      packed.fill(0xff, 32);
+      expect(hashHammingDistance(packed, packed, 0, 32)).toBe(256);
+    });
+  });
+
+  describe('batch helpers', () => {
+    it('should compute batch distances', () => {
+      const packed = new Uint8Array(96);
+      packed[32] = 0x01;
+      packed.fill(0xff, 64);
+
+      expect(Array.from(hammingDistanceBatchBytes(new Uint8Array(32), packed))).toEqual([0, 1, 256]);
+    });
+
+    it('should compute a symmetric distance matrix', () => {
+      const packed = new Uint8Array(96);
+      packed[32] = 0x03;
+      packed.fill(0xff, 64);
+
+      expect(Array.from(distanceMatrixBytes(packed))).toEqual([
+        0, 2, 256,
+        2, 0, 254,
+        256, 254, 0,
+      ]);
+    });
+  });
+
+  describe('hex codecs', () => {
+    it('should round-trip hashes', () => {
+      const hash = new Uint8Array(32).map((_, i) => i * 8);
+      const hex = hashToHex(hash);
+
+      expect(hex).toMatch(/^[0-9a-f]{64}$/);
+      expect(hexToHash(hex)).toEqual(hash);
+    });
+
+    it('should accept uppercase hex', () => {
+      expect(hexToHash('ABcd')).toEqual(new Uint8Array([0xab, 0xcd]));
+    });
+
+    it('should reject invalid hex', () => {
+      expect(hexToHash('zz')).toBeNull();
+      expect(hexToHash('abc')).toBeNull();
+    });
+
+    it('should validate 64-character hashes', () => {
+      expect(isValidHex('a'.repeat(64))).toBe(true);
+      expect(isValidHex('A'.repeat(64))).toBe(true);
+      expect(isValidHex('a'.repeat(63))).toBe(false);
+      expect(isValidHex('g'.repeat(64))).toBe(false);
+    });
+  });
+
+  describe('base64 codecs', () => {
+    it('should match Buffer encodings', () => {
+      for (const length of [0, 1, 2, 3, 32]) {
+        const bytes = new Uint8Array(length).map((_, i) => i * 37 + 250);
+        expect(hashToBase64(bytes)).toBe(Buffer.from(bytes).toString('base64'));
+        expect(hashToBase64(bytes, true)).toBe(Buffer.from(bytes).toString('base64url'));
+        expect(base64ToHash(hashToBase64(bytes))).toEqual(bytes);
+        expect(base64ToHash(hashToBase64(bytes, true))).toEqual(bytes);
+      }
+    });
+
+    it('should reject invalid base64', () => {
+      expect(base64ToHash('a')).toBeNull();
+      expect(base64ToHash('ab*d')).toBeNull();
+      expect(base64ToHash('abc==')).toBeNull();
+    });
+  });
+
+  describe('PDQ encodings without init', () => {
+    const hash = new Uint8Array(32).map((_, i) => i * 7 + 200);
+    const hex = hashToHex(hash);
+
+    it('should convert to and from base64', () => {
+      expect(PDQ.toBase64(hash)).toHaveLength(44);
+      expect(PDQ.toBase64(hash, true)).toMatch(/^[A-Za-z0-9_-]{43}$/);
+      expect(PDQ.fromBase64(PDQ.toBase64(hash))).toEqual(hash);
+      expect(PDQ.fromBase64(PDQ.toBase64(hash, true))).toEqual(hash);
+
+      expect(() => PDQ.fromBase64('abcd')).toThrow('Must decode to 32 bytes (got 3)');
+      expect(() => PDQ.fromBase64('*'.repeat(44))).toThrow('Invalid base64 string format');
+      expect(() => PDQ.toBase64(new Uint8Array(31))).toThrow('Invalid hash length');
+    });
+
+    it('should format self-describing strings', () => {
+      expect(PDQ.toHashString(hash, 87)).toBe(`pdq:1:${hex}:q87`);
+      expect(PDQ.toHashString(hash)).toBe(`pdq:1:${hex}`);
+      expect(() => PDQ.toHashString(hash, 101)).toThrow('Invalid quality');
+    });
+
+    it('should detect every format in parse()', () => {
+      expect(PDQ.parse(hex)).toEqual({ hash, format: 'hex' });
+      expect(PDQ.parse(hex.toUpperCase())).toEqual({ hash, format: 'hex' });
+      expect(PDQ.parse(PDQ.toBase64(hash))).toEqual({ hash, format: 'base64' });
+      expect(PDQ.parse(PDQ.toBase64(hash, true))).toEqual({ hash, format: 'base64url' });
+      expect(PDQ.parse(` pdq:1:${hex}:q87\n`)).toEqual({ hash, format: 'pdq', version: 1, quality: 87 });
+      expect(PDQ.parse(`pdq:1:${hex}`)).toEqual({ hash, format: 'pdq', version: 1 });
+      expect(PDQ.parse(hash)).toEqual({ hash, format: 'bytes' });
+    });
+
+    it('should reject unknown formats and versions in parse()', () => {
+      expect(() => PDQ.parse(`pdq:2:${hex}`)).toThrow('Unsupported PDQ hash string version: 2');
+      expect(() => PDQ.parse(`pdq:1:${hex}:q200`)).toThrow('Invalid PDQ hash string');
+      expect(() => PDQ.parse('abc')).toThrow('Unrecognized PDQ hash format');
+      expect(() => PDQ.parse(new Uint8Array(16))).toThrow('Invalid hash length');
+      expect(new PDQ({ ignoreInvalid: true }).parse('abc').hash).toEqual(new Uint8Array(32));
+    });
+
+    it('should pack and unpack hashes', () => {
+      const other = new Uint8Array(32).fill(0xff);
+      const packed = PDQ.packHashes([hash, other]);
+
+      expect(packed).toHaveLength(64);
+      expect(Array.from(PDQ.hammingDistanceBatch(hash, packed))).toEqual([0, PDQ.hammingDistance(hash, other)]);
+      expect(PDQ.unpackHashes(packed)).toEqual([hash, other]);
+      expect(PDQ.unpackHashes(packed)[1].buffer).toBe(packed.buffer);
+
+      expect(() => PDQ.packHashes([new Uint8Array(8)])).toThrow('Invalid hash length at index 0');
+      expect(() => PDQ.unpackHashes(new Uint8Array(33))).toThrow('Invalid packed hashes length');
+    });
+  });
+
+  describe('PDQ helpers without init', () => {
+    it('should convert to and from hex', () => {
+      const hash = new Uint8Array(32).fill(0x0f);
+      const hex = PDQ.toHex(hash);
+
+      expect(hex).toBe('0f'.repeat(32));
+      expect(PDQ.fromHex(hex)).toEqual(hash);
+      expect(PDQ.fromHex(hex.toUpperCase())).toEqual(hash);
+    });
+
+    it('should calculate Hamming distance and similarity', () => {
+      const a = new Uint8Array(32);
+      const b = new Uint8Array(32).fill(0xff);
+
+      expect(PDQ.hammingDistance(a, b)).toBe(256);
+      expect(PDQ.similarity(a, a)).toBe(100);
+      expect(PDQ.areSimilar(a, a)).toBe(true);
+    });
+
+    it('should fall back to TypeScript for batch distances', () => {
+      const packed = new Uint8Array(64);
+      packed.fill(0xff, 32);
+
+      expect(Array.from(PDQ.hammingDistanceBatch(new Uint8Array(32), packed))).toEqual([0, 256]);
+      expect(Array.from(PDQ.distanceMatrix(packed))).toEqual([0, 256, 256, 0]);
+    });
+
+    it('should keep validation errors', () => {
+      expect(() => PDQ.fromHex('abc')).toThrow('Invalid hex string length');
+      expect(() => PDQ.fromHex('g'.repeat(64))).toThrow('Invalid hex string format');
+      expect(() => PDQ.toHex(new Uint8Array(31))).toThrow('Invalid hash length');
+    });
+
+    it('should compare hex strings with the browser helper', () => {
+      expect(hammingDistance('0'.repeat(64), 'f'.repeat(64))).toBe(256);
+    });
+
+    it('should find the nearest candidates with their payloads', () => {
+      // Set the lowest `bits` bits of a zero hash
+      const hexWithBits = (bits: number) => ((1n << BigInt(bits)) - 1n).toString(16).padStart(64, '0');
+      const reference = new Uint8Array(32);
+      const candidates = [12, 3, 40, 3, 0, 7].map((bits, i) => ({ hash: hexWithBits(bits), payload: `file-${i}` }));
+
+      const matches = PDQ.findNearest(reference, candidates, { k: 3 });
+      expect(matches.map(m => [m.payload, m.distance, m.index])).toEqual([
+        ['file-4', 0, 4],
+        ['file-1', 3, 1],
+        ['file-3', 3, 3]
+      ]);
+      expect(matches[0].hash).toEqual(reference);
+      expect(matches[1].similarity).toBeCloseTo((253 / 256) * 100);
+
+      expect(PDQ.findNearest('0'.repeat(64), candidates, { k: 10, maxDistance: 7 }).map(m => m.payload))
+        .toEqual(['file-4', 'file-1', 'file-3', 'file-5']);
+      expect(PDQ.findNearest(reference, [hexWithBits(9), PDQ.fromHex(hexWithBits(2))], { k: 1 }))
+        .toEqual([{ hash: PDQ.fromHex(hexWithBits(2)), distance: 2, similarity: (254 / 256) * 100, index: 1 }]);
+    });
+
+    it('should validate findNearest input', () => {
+      const reference = new Uint8Array(32);
+
+      expect(() => PDQ.findNearest(reference, [], { k: 0 })).toThrow('Invalid k: 0');
+      expect(() => PDQ.findNearest(reference, [], { k: 1, maxDistance: 257 })).toThrow('Invalid maxDistance');
+      expect(() => PDQ.findNearest('abc', [], { k: 1 })).toThrow('Invalid reference hash');
+      expect(() => PDQ.findNearest(reference, [reference, 'xyz'], { k: 1 })).toThrow('Invalid hash at index 1');
+
+      const lenient = new PDQ({ ignoreInvalid: true });
+      expect(lenient.findNearest(reference, ['xyz', { hash: reference, payload: 1 }], { k: 1 }))
+        .toEqual([expect.objectContaining({ payload: 1, index: 1 })]);
+    });
+
+    it('should still require init for image hashing', () => {
+      expect(() => PDQ.hash({ data: new Uint8Array(1), width: 1, height: 1, channels: 1 }))
+        .toThrow('PDQ module not initialized');
+    });
+  });
+});
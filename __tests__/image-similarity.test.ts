@@ -223,6 +223,41 @@ describe('PDQ Image Similarity (Exhaustive Pairwise)', () => {
     });
   });
 
+  describe('Dihedral matching', () => {
+    it('should match flipped_180 versions within threshold using dihedral hashes', async () => {
+      const originals = fs.readdirSync(FIXTURES_DIR)
+        .filter(f => f.endsWith('_original.png') && f.includes('_grad_'))
+        .sort()
+        .slice(0, 10);
+
+      const decode = async (filename: string) => {
+        const { data, info } = await sharp(path.join(FIXTURES_DIR, filename))
+          .removeAlpha()
+          .raw()
+          .toBuffer({ resolveWithObject: true });
+        return {
+          data: new Uint8Array(data),
+          width: info.width,
+          height: info.height,
+          channels: info.channels as 3 | 1,
+        };
+      };
+
+      for (const filename of originals) {
+        const flippedName = filename.replace('_original.png', '_flipped_180.png');
+        if (!fs.existsSync(path.join(FIXTURES_DIR, flippedName))) continue;
+
+        const dihedral = PDQ.hashDihedral(await decode(filename));
+        const flipped = PDQ.hash(await decode(flippedName));
+
+        const match = PDQ.minDistanceDihedral(dihedral, flipped.hash);
+        console.log(`  ${filename}: best=${match.transform} distance=${match.distance}`);
+
+        expect(match.distance).toBeLessThanOrEqual(similarityThreshold);
+      }
+    });
+  });
+
   describe('Exhaustive pairwise comparison matrix', () => {
     it('should produce consistent distance matrix (symmetric property)', () => {
       // Sample a subset for performance (test first 20 images)
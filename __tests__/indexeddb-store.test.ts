@@ -0,0 +1,81 @@
+/**
+ * Tests for the IndexedDB cache store, run against fake-indexeddb
+ */
+
+import { IDBFactory } from 'fake-indexeddb';
+import { IndexedDBCacheStore } from '../src/indexeddb-store';
+import { createHashChecker, type CacheEntry } from '../src/hash-checker';
+
+const hashOf = (n: number) => n.toString(16).padStart(64, '0');
+const entry = (exists: boolean, timestamp = 1): CacheEntry => ({ result: { exists, existing: { id: 7 } }, timestamp });
+
+describe('IndexedDBCacheStore', () => {
+  let factory: IDBFactory;
+
+  beforeEach(() => {
+    factory = new IDBFactory();
+  });
+
+  it('should get, set, delete, clear and list entries', async () => {
+    const store = new IndexedDBCacheStore({ indexedDB: factory });
+
+    expect(await store.get(hashOf(1))).toBeUndefined();
+    await store.set(hashOf(1), entry(true));
+    await store.set(hashOf(2), entry(false));
+    await store.set(hashOf(1), entry(true, 2));
+
+    expect(await store.get(hashOf(1))).toEqual(entry(true, 2));
+    expect(await store.entries()).toEqual([[hashOf(1), entry(true, 2)], [hashOf(2), entry(false)]]);
+
+    await store.delete(hashOf(1));
+    expect(await store.entries()).toEqual([[hashOf(2), entry(false)]]);
+
+    await store.clear();
+    expect(await store.entries()).toEqual([]);
+  });
+
+  it('should persist entries across connections and keep store names apart', async () => {
+    const first = new IndexedDBCacheStore({ indexedDB: factory, dbName: 'app' });
+    await first.set(hashOf(1), entry(true));
+    await first.close();
+
+    const reopened = new IndexedDBCacheStore({ indexedDB: factory, dbName: 'app' });
+    expect(await reopened.get(hashOf(1))).toEqual(entry(true));
+    await reopened.close();
+
+    const other = new IndexedDBCacheStore({ indexedDB: factory, dbName: 'other', storeName: 'results' });
+    expect(await other.entries()).toEqual([]);
+  });
+
+  it('should back a cached checker', async () => {
+    const lookup = jest.fn(async () => ({ exists: true }));
+    const store = new IndexedDBCacheStore({ indexedDB: factory });
+    const checker = createHashChecker(lookup).cached({ ttl: 60_000, store });
+
+    await checker(hashOf(3));
+    // The write is not awaited by the checker
+    await new Promise(resolve => setTimeout(resolve, 10));
+    await checker(hashOf(3));
+
+    expect(lookup).toHaveBeenCalledTimes(1);
+    expect((await store.get(hashOf(3)))?.result).toEqual({ exists: true });
+  });
+
+  it('should reject when the database cannot be opened, then retry', async () => {
+    await expect(new IndexedDBCacheStore({ indexedDB: undefined }).get(hashOf(1)))
+      .rejects.toThrow('IndexedDB is not available in this environment');
+
+    // A newer version of the database makes opening version 1 fail
+    const newer = factory.open('pdq-wasm-cache', 2);
+    await new Promise(resolve => { newer.onsuccess = resolve; });
+    const store = new IndexedDBCacheStore({ indexedDB: factory });
+    const failed = store.get(hashOf(1));
+    // Closing while the open is failing should not rethrow its error
+    await expect(store.close()).resolves.toBeUndefined();
+    await expect(failed).rejects.toHaveProperty('name', 'VersionError');
+
+    newer.result.close();
+    factory.deleteDatabase('pdq-wasm-cache');
+    await expect(store.get(hashOf(1))).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * Tests for the Node.js JSON-file cache store
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { JsonFileCacheStore } from '../src/json-file-store';
+import { createHashChecker } from '../src/hash-checker';
+
+const HASH = 'a'.repeat(64);
+
+describe('JsonFileCacheStore', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'pdq-cache-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should persist cached lookups across checkers', async () => {
+    const file = path.join(dir, 'nested', 'cache.json');
+    const lookup = jest.fn().mockResolvedValue({ exists: true, existing: { id: 1 } });
+
+    const store = new JsonFileCacheStore(file);
+    await createHashChecker(lookup).cached({ store })(HASH);
+    await store.flush();
+
+    const saved = JSON.parse(fs.readFileSync(file, 'utf8'));
+    expect(saved.version).toBe(1);
+    expect(saved.entries[0][0]).toBe(HASH);
+
+    // A fresh store reads the file back
+    const restarted = createHashChecker(lookup).cached({ store: new JsonFileCacheStore(file) });
+    await expect(restarted(HASH)).resolves.toEqual({ exists: true, existing: { id: 1 } });
+    expect(lookup).toHaveBeenCalledTimes(1);
+  });
+
+  it('should coalesce writes and enforce maxSize', async () => {
+    const file = path.join(dir, 'cache.json');
+    const store = new JsonFileCacheStore(file, { maxSize: 2 });
+
+    await Promise.all(['1', '2', '3'].map(c => store.set(c.repeat(64), { result: { exists: false }, timestamp: 0 })));
+    await store.delete('2'.repeat(64));
+    await store.flush();
+
+    const saved = JSON.parse(fs.readFileSync(file, 'utf8'));
+    expect(saved.entries.map(([hash]: [string]) => hash[0])).toEqual(['3']);
+    expect(fs.readdirSync(dir)).toEqual(['cache.json']);
+  });
+
+  it('should start empty from a corrupt cache file and replace it', async () => {
+    const file = path.join(dir, 'cache.json');
+    fs.writeFileSync(file, '{ nope');
+    const store = new JsonFileCacheStore(file);
+    await expect(store.get(HASH)).resolves.toBeUndefined();
+
+    await store.set(HASH, { result: { exists: true }, timestamp: 0 });
+    await store.flush();
+    expect(JSON.parse(fs.readFileSync(file, 'utf8')).entries[0][0]).toBe(HASH);
+
+    fs.writeFileSync(file, JSON.stringify({ version: 9, entries: [] }));
+    await expect(new JsonFileCacheStore(file).entries()).resolves.toEqual([]);
+  });
+
+  it('should read the file again after a failed read', async () => {
+    const file = path.join(dir, 'cache.json');
+    // Reading a directory fails with EISDIR, standing in for EACCES or EMFILE
+    fs.mkdirSync(file);
+    const store = new JsonFileCacheStore(file);
+    await expect(store.get(HASH)).rejects.toThrow('EISDIR');
+
+    fs.rmdirSync(file);
+    fs.writeFileSync(file, JSON.stringify({ version: 1, entries: [[HASH, { result: { exists: true }, timestamp: 1 }]] }));
+    await expect(store.get(HASH)).resolves.toEqual({ result: { exists: true }, timestamp: 1 });
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * Tests for the Node.js file hashing entry point
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import sharp from 'sharp';
+import { PDQ } from '../src/pdq';
+import { hashFile, hashBuffer } from '../src/node';
+
+const FIXTURES_DIR = path.join(__dirname, '../__fixtures__/images');
+
+describe('pdq-wasm/node', () => {
+  beforeAll(async () => {
+    await PDQ.init();
+  });
+
+  it('should hash PNG files like a sharp-decoded image', async () => {
+    const file = path.join(FIXTURES_DIR, 'Circle_black_white_grad_ltr_200x200_original.png');
+    const result = await hashFile(file);
+
+    const { data, info } = await sharp(file).removeAlpha().raw().toBuffer({ resolveWithObject: true });
+    const expected = PDQ.hash({ data: new Uint8Array(data), width: info.width, height: info.height, channels: 3 });
+
+    expect(result.format).toBe('png');
+    expect([result.width, result.height]).toEqual([200, 200]);
+    expect(PDQ.toHex(result.hash)).toBe(PDQ.toHex(expected.hash));
+    expect(result.quality).toBe(expected.quality);
+  });
+
+  it('should hash JPEG files close to a sharp-decoded image', async () => {
+    const file = path.join(FIXTURES_DIR, 'Circle_black_white_grad_ltr_200x200_original.jpg');
+    const result = await hashFile(file);
+
+    const { data, info } = await sharp(file).raw().toBuffer({ resolveWithObject: true });
+    const expected = PDQ.hash({ data: new Uint8Array(data), width: info.width, height: info.height, channels: 3 });
+
+    expect(result.format).toBe('jpeg');
+    expect(PDQ.hammingDistance(result.hash, expected.hash)).toBeLessThanOrEqual(4);
+  });
+
+  it('should hash progressive JPEG, BMP and Netpbm buffers', async () => {
+    const png = fs.readFileSync(path.join(FIXTURES_DIR, 'Circle_black_white_grad_ltr_200x200_original.png'));
+    const reference = await hashBuffer(png);
+
+    const progressive = await hashBuffer(await sharp(png).jpeg({ quality: 95, progressive: true }).toBuffer());
+    expect(progressive.format).toBe('jpeg');
+    expect(PDQ.hammingDistance(progressive.hash, reference.hash)).toBeLessThanOrEqual(10);
+
+    const { data } = await sharp(png).removeAlpha().raw().toBuffer({ resolveWithObject: true });
+    const ppm = Buffer.concat([Buffer.from('P6\n200 200\n255\n'), data]);
+    const netpbm = await hashBuffer(ppm);
+    expect(netpbm.format).toBe('netpbm');
+    expect(PDQ.toHex(netpbm.hash)).toBe(PDQ.toHex(reference.hash));
+  });
+
+  it('should include the path in errors', async () => {
+    const file = path.join(FIXTURES_DIR, 'Circle_black_white_200x200_original.webp');
+
+    await expect(hashFile(file)).rejects.toThrow(`Failed to hash ${file}: Unsupported image format`);
+  });
+});
@@ -0,0 +1,188 @@
+/**
+ * Tests for the multi-index hashing PDQIndex
+ */
+
+import { PDQIndex } from '../src/pdq-index';
+
+// Deterministic PRNG so failures are reproducible
+function mulberry32(seed: number): () => number {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const random = mulberry32(42);
+
+function randomHash(): Uint8Array {
+  const hash = new Uint8Array(32);
+  for (let i = 0; i < 32; i++) {
+    hash[i] = Math.floor(random() * 256);
+  }
+  return hash;
+}
+
+function flipBits(hash: Uint8Array, count: number): Uint8Array {
+  const result = new Uint8Array(hash);
+  const flipped = new Set<number>();
+  while (flipped.size < count) {
+    flipped.add(Math.floor(random() * 256));
+  }
+  for (const bit of flipped) {
+    result[bit >> 3] ^= 1 << (bit & 7);
+  }
+  return result;
+}
+
+function bruteForceDistance(a: Uint8Array, b: Uint8Array): number {
+  let distance = 0;
+  for (let i = 0; i < 32; i++) {
+    let x = a[i] ^ b[i];
+    while (x) {
+      distance += x & 1;
+      x >>= 1;
+    }
+  }
+  return distance;
+}
+
+function toHex(hash: Uint8Array): string {
+  return Array.from(hash, b => b.toString(16).padStart(2, '0')).join('');
+}
+
+describe('PDQIndex', () => {
+  describe('basic operations', () => {
+    it('should add entries and report size', () => {
+      const index = new PDQIndex<string>();
+      const id1 = index.add(randomHash(), 'a');
+      const id2 = index.add(randomHash(), 'b');
+
+      expect(index.size).toBe(2);
+      expect(id1).not.toBe(id2);
+      expect(index.get(id1)?.payload).toBe('a');
+      expect(index.has(id2)).toBe(true);
+    });
+
+    it('should accept hex strings', () => {
+      const index = new PDQIndex();
+      const hash = randomHash();
+      const id = index.add(toHex(hash).toUpperCase());
+
+      expect(index.get(id)?.hash).toEqual(hash);
+      expect(index.search(toHex(hash), 0).map(m => m.id)).toEqual([id]);
+    });
+
+    it('should remove entries', () => {
+      const index = new PDQIndex();
+      const hash = randomHash();
+      const id = index.add(hash);
+
+      expect(index.remove(id)).toBe(true);
+      expect(index.remove(id)).toBe(false);
+      expect(index.size).toBe(0);
+      expect(index.search(hash, 31)).toEqual([]);
+    });
+
+    it('should copy hashes on add', () => {
+      const index = new PDQIndex();
+      const hash = randomHash();
+      const id = index.add(hash);
+      hash[0] ^= 0xff;
+
+      expect(index.get(id)?.hash).not.toEqual(hash);
+    });
+
+    it('should clear all entries', () => {
+      const index = new PDQIndex();
+      index.add(randomHash());
+      index.add(randomHash());
+      index.clear();
+
+      expect(index.size).toBe(0);
+      expect([...index]).toEqual([]);
+    });
+
+    it('should throw for invalid hashes', () => {
+      const index = new PDQIndex();
+
+      expect(() => index.add(new Uint8Array(16))).toThrow('Invalid hash length');
+      expect(() => index.add('xyz')).toThrow('Invalid PDQ hash');
+    });
+
+    it('should reject unsupported substring counts', () => {
+      expect(() => new PDQIndex({ substringCount: 4 as any })).toThrow('Invalid substringCount');
+    });
+  });
+
+  describe.each([8, 16, 32] as const)('queries with %i substrings', (substringCount) => {
+    const index = new PDQIndex<number>({ substringCount });
+    const stored: Uint8Array[] = [];
+
+    beforeAll(() => {
+      // Clusters of near-duplicates around random seeds plus unrelated noise
+      for (let i = 0; i < 100; i++) {
+        const seed = randomHash();
+        for (let j = 0; j < 10; j++) {
+          const hash = flipBits(seed, Math.floor(random() * 48));
+          stored.push(hash);
+          index.add(hash, stored.length - 1);
+        }
+      }
+      for (let i = 0; i < 1000; i++) {
+        const hash = randomHash();
+        stored.push(hash);
+        index.add(hash, stored.length - 1);
+      }
+    });
+
+    it('should match brute force for range queries', () => {
+      for (let q = 0; q < 20; q++) {
+        const query = flipBits(stored[q * 50], 10);
+        for (const maxDistance of [0, 15, 31, 47]) {
+          const expected = stored
+            .map((hash, i) => ({ i, distance: bruteForceDistance(query, hash) }))
+            .filter(m => m.distance <= maxDistance)
+            .sort((a, b) => a.distance - b.distance || a.i - b.i);
+
+          const actual = index.search(query, maxDistance);
+
+          expect(actual.map(m => [m.payload, m.distance])).toEqual(expected.map(m => [m.i, m.distance]));
+        }
+      }
+    });
+
+    it('should match brute force for top-k queries', () => {
+      for (let q = 0; q < 20; q++) {
+        const query = q % 2 === 0 ? flipBits(stored[q * 50], 20) : randomHash();
+        const expected = stored
+          .map((hash, i) => ({ i, distance: bruteForceDistance(query, hash) }))
+          .sort((a, b) => a.distance - b.distance || a.i - b.i)
+          .slice(0, 5);
+
+        const actual = index.nearest(query, 5);
+
+        expect(actual.map(m => [m.payload, m.distance])).toEqual(expected.map(m => [m.i, m.distance]));
+      }
+    });
+
+    it('should respect maxDistance for top-k queries', () => {
+      const query = flipBits(stored[0], 5);
+      const results = index.nearest(query, 100, 31);
+
+      expect(results.length).toBeGreaterThan(0);
+      expect(results.length).toBeLessThanOrEqual(10);
+      results.forEach(m => expect(m.distance).toBeLessThanOrEqual(31));
+    });
+  });
+
+  it('should return empty results for k <= 0 or negative distance', () => {
+    const index = new PDQIndex();
+    const hash = randomHash();
+    index.add(hash);
+
+    expect(index.nearest(hash, 0)).toEqual([]);
+    expect(index.search(hash, -1)).toEqual([]);
+  });
+});
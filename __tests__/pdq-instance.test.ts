@@ -0,0 +1,62 @@
+/**
+ * Tests for independent PDQ instances
+ * Uses only WASM-free methods so no module needs to be loaded
+ */
+
+import { PDQ } from '../src/pdq';
+
+describe('PDQ instances', () => {
+  afterEach(() => {
+    PDQ.disableLogging().throwOnInvalid();
+  });
+
+  it('should keep loggers separate between instances', () => {
+    const logsA: string[] = [];
+    const logsB: string[] = [];
+    const a = new PDQ({ logger: msg => logsA.push(msg) });
+    const b = new PDQ({ logger: msg => logsB.push(msg) });
+
+    a.toHex(new Uint8Array(32));
+
+    expect(logsA.length).toBeGreaterThan(0);
+    expect(logsB).toEqual([]);
+
+    b.disableLogging();
+    b.toHex(new Uint8Array(32));
+    expect(logsB).toEqual([]);
+  });
+
+  it('should keep error policies separate between instances', () => {
+    const lenient = new PDQ({ ignoreInvalid: true });
+    const strict = new PDQ();
+
+    expect(lenient.fromHex('abc')).toEqual(new Uint8Array(32));
+    expect(() => strict.fromHex('abc')).toThrow('Invalid hex string length');
+  });
+
+  it('should not be affected by static configuration', () => {
+    const staticLogs: string[] = [];
+    PDQ.setLogger(msg => staticLogs.push(msg)).ignoreInvalid();
+
+    const instance = new PDQ();
+
+    expect(() => instance.toHex(new Uint8Array(8))).toThrow('Invalid hash length');
+    expect(staticLogs).toEqual([]);
+
+    expect(PDQ.toHex(new Uint8Array(8))).toBe('0'.repeat(64));
+    expect(staticLogs.length).toBeGreaterThan(0);
+  });
+
+  it('should support chaining on instances', () => {
+    const instance = new PDQ();
+
+    expect(instance.ignoreInvalid().consoleLog().disableLogging()).toBe(instance);
+  });
+
+  it('should require init before hashing', () => {
+    const instance = new PDQ();
+
+    expect(() => instance.hash({ data: new Uint8Array(1), width: 1, height: 1, channels: 1 }))
+      .toThrow('PDQ module not initialized');
+  });
+});
@@ -0,0 +1,158 @@
+/**
+ * Tests for .pdqs binary hash set files
+ * None of these tests need WASM
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  encodePDQSet,
+  encodePDQSetStream,
+  decodePDQSet,
+  readPDQSet,
+  PDQSetWriter,
+  type PDQSetEntry,
+} from '../src/pdq-set';
+import { readPDQSetFile, writePDQSetFile } from '../src/node';
+import { PDQ } from '../src/pdq';
+
+const hashOf = (n: number) => n.toString(16).padStart(64, '0');
+
+const entries: PDQSetEntry<{ id: string }>[] = [
+  { hash: hashOf(1), quality: 90, metadata: { id: 'a' } },
+  { hash: PDQ.fromHex(hashOf(2)), quality: 45, metadata: { id: 'é' } },
+  { hash: 'f'.repeat(64), quality: 100, metadata: { id: 'c' } }
+];
+
+// Split bytes into small chunks, as a network stream would
+async function* chunked(bytes: Uint8Array, size: number): AsyncGenerator<Uint8Array> {
+  for (let i = 0; i < bytes.length; i += size) {
+    yield bytes.slice(i, i + size);
+  }
+}
+
+async function concat(chunks: AsyncIterable<Uint8Array>): Promise<Uint8Array> {
+  const parts: Uint8Array[] = [];
+  for await (const chunk of chunks) parts.push(chunk);
+  return new Uint8Array(Buffer.concat(parts));
+}
+
+describe('.pdqs hash sets', () => {
+  it('should round-trip hashes, qualities and metadata', () => {
+    const bytes = encodePDQSet(entries, { quality: true, metadata: true });
+    const set = decodePDQSet<{ id: string }>(bytes);
+
+    expect(Array.from(bytes.subarray(0, 6))).toEqual([0x50, 0x44, 0x51, 0x53, 1, 3]);
+    expect(set.count).toBe(3);
+    expect([0, 1, 2].map(i => set.hex(i))).toEqual([hashOf(1), hashOf(2), 'f'.repeat(64)]);
+    expect(Array.from(set.qualities!)).toEqual([90, 45, 100]);
+    expect(set.metadata).toEqual([{ id: 'a' }, { id: 'é' }, { id: 'c' }]);
+    expect(Array.from(set, e => e.quality)).toEqual([90, 45, 100]);
+  });
+
+  it('should store only hashes by default and load them without copying', () => {
+    const bytes = encodePDQSet(entries);
+    expect(bytes.length).toBe(16 + 3 * 32);
+
+    const set = decodePDQSet(bytes);
+    expect(set.qualities).toBeNull();
+    expect(set.metadata).toBeNull();
+    expect(set.hashes.buffer).toBe(bytes.buffer);
+    expect(Array.from(PDQ.hammingDistanceBatch(PDQ.fromHex(hashOf(1)), set.hashes))).toEqual([0, 2, 255]);
+
+    const index = set.toIndex();
+    expect(index.search(hashOf(3), 1).map(m => m.payload).sort()).toEqual([0, 1]);
+  });
+
+  it('should reject invalid files', () => {
+    const bytes = encodePDQSet(entries, { metadata: true });
+
+    expect(() => decodePDQSet(new Uint8Array(4))).toThrow('expected at least 16 bytes');
+    expect(() => decodePDQSet(new Uint8Array(16))).toThrow('missing PDQS header');
+    expect(() => decodePDQSet(bytes.subarray(0, 40))).toThrow('expected at least 112 bytes for 3 entries');
+    expect(() => decodePDQSet(bytes.subarray(0, bytes.length - 1))).toThrow('truncated metadata');
+
+    const future = bytes.slice();
+    future[4] = 2;
+    expect(() => decodePDQSet(future)).toThrow('Unsupported PDQ set version: 2');
+  });
+
+  it('should validate entries and counts when writing', () => {
+    expect(() => encodePDQSet([{ hash: 'bad' }])).toThrow('Invalid PDQ hash at entry 0');
+    expect(() => encodePDQSet([{ hash: hashOf(1), quality: 101 }], { quality: true })).toThrow('Invalid quality at entry 0');
+
+    const writer = new PDQSetWriter({ count: 1 });
+    writer.write({ hash: hashOf(1) });
+    expect(() => writer.write({ hash: hashOf(2) })).toThrow('already has 1 entries');
+    expect(() => new PDQSetWriter({ count: 2 }).finish()).toThrow('promised 2 entries, but 0 were written');
+  });
+
+  it('should stream writes and reads in small chunks', async () => {
+    async function* source() {
+      yield* entries;
+    }
+    const bytes = await concat(encodePDQSetStream(source(), { count: 3, quality: true, metadata: true }));
+    expect(bytes).toEqual(encodePDQSet(entries, { quality: true, metadata: true }));
+
+    const progress: Array<number | null> = [];
+    const set = await readPDQSet<{ id: string }>(chunked(bytes, 7), {
+      onProgress: ({ total }) => progress.push(total)
+    });
+    expect(set.metadata).toEqual(entries.map(e => e.metadata));
+    expect(progress[0]).toBeNull();
+    expect(progress[progress.length - 1]).toBe(bytes.length);
+  });
+
+  it('should not allocate for entries a stream never delivers', async () => {
+    const header = encodePDQSet([]);
+    new DataView(header.buffer).setUint32(8, 0xffffffff, true);
+
+    const progress: Array<number | null> = [];
+    await expect(readPDQSet(chunked(header, 16), { onProgress: ({ total }) => progress.push(total) }))
+      .rejects.toThrow(`expected at least ${16 + 0xffffffff * 32} bytes for ${0xffffffff} entries`);
+    expect(progress).toEqual([16 + 0xffffffff * 32]);
+  });
+
+  it('should read web ReadableStreams', async () => {
+    const bytes = encodePDQSet(entries);
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(bytes.slice(0, 50));
+        controller.enqueue(bytes.slice(50));
+        controller.close();
+      }
+    });
+
+    const set = await readPDQSet({ getReader: () => stream.getReader() } as ReadableStream<Uint8Array>);
+    expect(set.hex(2)).toBe('f'.repeat(64));
+  });
+
+  describe('Node.js files', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'pdq-set-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should write and read files, filling in the count', async () => {
+      const file = path.join(dir, 'list.pdqs');
+      async function* many() {
+        for (let i = 0; i < 5000; i++) yield { hash: hashOf(i), quality: i % 101 };
+      }
+
+      expect(await writePDQSetFile(file, many(), { quality: true })).toBe(5000);
+      const set = await readPDQSetFile(file);
+      expect(set.count).toBe(5000);
+      expect(set.hex(4999)).toBe(hashOf(4999));
+      expect(set.qualities![4999]).toBe(4999 % 101);
+
+      fs.writeFileSync(file, 'not a set');
+      await expect(readPDQSetFile(file)).rejects.toThrow(`Failed to read ${file}`);
+    });
+  });
+});
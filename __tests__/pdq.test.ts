@@ -2,7 +2,7 @@
  * PDQ WebAssembly Tests
  */
 
-import { PDQ } from '../dist';
+import { PDQ, DIHEDRAL_TRANSFORMS, floatHashToHash } from '../dist';
 
 describe('PDQ', () => {
   beforeAll(async () => {
@@ -31,6 +31,46 @@ describe('PDQ', () => {
     });
   });
 
+  describe('instances', () => {
+    it('should create an initialized instance with its own module', async () => {
+      const pdq = await PDQ.create();
+      const imageData = {
+        data: new Uint8Array(100).fill(128),
+        width: 10,
+        height: 10,
+        channels: 1 as const,
+      };
+
+      const instanceResult = pdq.hash(imageData);
+      const staticResult = PDQ.hash(imageData);
+
+      expect(instanceResult.hash).toEqual(staticResult.hash);
+      expect(instanceResult.quality).toBe(staticResult.quality);
+    });
+
+    it('should apply logger and error policy from create options', async () => {
+      const logs: string[] = [];
+      const pdq = await PDQ.create({ logger: msg => logs.push(msg), ignoreInvalid: true });
+
+      const result = pdq.hash({
+        data: new Uint8Array(50),
+        width: 10,
+        height: 10,
+        channels: 1 as const,
+      });
+
+      expect(result.quality).toBe(0);
+      expect(logs.some(msg => msg.includes('Invalid image data size'))).toBe(true);
+      // The default instance still throws
+      expect(() => PDQ.hash({
+        data: new Uint8Array(50),
+        width: 10,
+        height: 10,
+        channels: 1 as const,
+      })).toThrow('Invalid image data size');
+    });
+  });
+
   describe('hash generation', () => {
     it('should generate hash from grayscale image data', () => {
       const imageData = {
@@ -172,6 +212,108 @@ describe('PDQ', () => {
     });
   });
 
+  describe('float hashing', () => {
+    const makeImage = () => {
+      const data = new Uint8Array(64 * 64);
+      for (let i = 0; i < data.length; i++) {
+        data[i] = ((i % 64) * 4 + Math.floor(i / 64) * 2) & 0xff;
+      }
+      return { data, width: 64, height: 64, channels: 1 as const };
+    };
+
+    it('should return 256 coefficients and quality', () => {
+      const result = PDQ.hashFloat(makeImage());
+
+      expect(result.values).toBeInstanceOf(Float32Array);
+      expect(result.values.length).toBe(256);
+      expect(result.quality).toBe(PDQ.hash(makeImage()).quality);
+    });
+
+    it('should quantize to the same bits as PDQ.hash', () => {
+      const image = makeImage();
+
+      expect(floatHashToHash(PDQ.hashFloat(image).values)).toEqual(PDQ.hash(image).hash);
+    });
+
+    it('should support RGB input', () => {
+      const rgb = {
+        data: new Uint8Array(10 * 10 * 3).map((_, i) => (i * 7) & 0xff),
+        width: 10,
+        height: 10,
+        channels: 3 as const,
+      };
+
+      expect(floatHashToHash(PDQ.hashFloat(rgb).values)).toEqual(PDQ.hash(rgb).hash);
+    });
+  });
+
+  describe('batch Hamming distance', () => {
+    const makeHashes = (count: number) =>
+      Array.from({ length: count }, (_, i) => {
+        const hash = new Uint8Array(32);
+        for (let j = 0; j < 32; j++) {
+          hash[j] = (i * 37 + j * 11) & 0xff;
+        }
+        return hash;
+      });
+
+    const pack = (hashes: Uint8Array[]) => {
+      const packed = new Uint8Array(hashes.length * 32);
+      hashes.forEach((hash, i) => packed.set(hash, i * 32));
+      return packed;
+    };
+
+    it('should match pairwise distances', () => {
+      const hashes = makeHashes(50);
+      const reference = hashes[7];
+
+      const distances = PDQ.hammingDistanceBatch(reference, pack(hashes));
+
+      expect(distances).toBeInstanceOf(Uint16Array);
+      expect(distances.length).toBe(50);
+      hashes.forEach((hash, i) => {
+        expect(distances[i]).toBe(PDQ.hammingDistance(reference, hash));
+      });
+      expect(distances[7]).toBe(0);
+    });
+
+    it('should handle an empty batch', () => {
+      expect(PDQ.hammingDistanceBatch(new Uint8Array(32), new Uint8Array(0)).length).toBe(0);
+    });
+
+    it('should throw for a packed buffer that is not a multiple of 32 bytes', () => {
+      expect(() => PDQ.hammingDistanceBatch(new Uint8Array(32), new Uint8Array(33)))
+        .toThrow('multiple of 32');
+    });
+
+    it('should throw for an invalid reference hash', () => {
+      expect(() => PDQ.hammingDistanceBatch(new Uint8Array(16), new Uint8Array(32)))
+        .toThrow('Invalid reference hash length');
+    });
+
+    it('should build a symmetric distance matrix', () => {
+      const hashes = makeHashes(12);
+      const n = hashes.length;
+
+      const matrix = PDQ.distanceMatrix(hashes);
+
+      expect(matrix.length).toBe(n * n);
+      for (let i = 0; i < n; i++) {
+        expect(matrix[i * n + i]).toBe(0);
+        for (let j = 0; j < n; j++) {
+          expect(matrix[i * n + j]).toBe(matrix[j * n + i]);
+          expect(matrix[i * n + j]).toBe(PDQ.hammingDistance(hashes[i], hashes[j]));
+        }
+      }
+    });
+
+    it('should accept packed hashes for the distance matrix', () => {
+      const hashes = makeHashes(5);
+
+      expect(PDQ.distanceMatrix(pack(hashes))).toEqual(PDQ.distanceMatrix(hashes));
+    });
+  });
+
   describe('hex conversion', () => {
     it('should convert hash to hex string', () => {
       const hash = new Uint8Array(32).fill(0);
@@ -409,6 +551,169 @@ describe('PDQ', () => {
     });
   });
 
+  describe('scratch buffers', () => {
+    it('should give the same hashes when buffers are reused, grown and released', () => {
+      const small = { data: new Uint8Array(64).map((_, i) => i * 4), width: 8, height: 8, channels: 1 as const };
+      const large = { data: new Uint8Array(300 * 200).map((_, i) => i % 251), width: 300, height: 200, channels: 1 as const };
+
+      const smallHex = PDQ.toHex(PDQ.hash(small).hash);
+      const largeHex = PDQ.toHex(PDQ.hash(large).hash);
+
+      expect(PDQ.toHex(PDQ.hash(small).hash)).toBe(smallHex);
+      PDQ.releaseScratch();
+      expect(PDQ.toHex(PDQ.hash(large).hash)).toBe(largeHex);
+      expect(PDQ.toHex(PDQ.hash(small).hash)).toBe(smallHex);
+    });
+
+    it('should allow releasing on an uninitialized instance', () => {
+      expect(() => new PDQ().releaseScratch()).not.toThrow();
+    });
+  });
+
+  describe('pixel formats', () => {
+    const width = 16;
+    const height = 12;
+    // Gradient with distinct channels so channel order matters
+    const rgb = new Uint8Array(width * height * 3);
+    for (let i = 0; i < width * height; i++) {
+      rgb[i * 3] = (i * 7) & 0xff;
+      rgb[i * 3 + 1] = (i * 3) & 0xff;
+      rgb[i * 3 + 2] = 255 - ((i * 5) & 0xff);
+    }
+    const expected = PDQ.hash({ data: rgb, width, height, channels: 3 });
+
+    // Repack RGB into 4-byte pixels with the given channel positions
+    function pack(positions: [number, number, number]): Uint8Array {
+      const out = new Uint8Array(width * height * 4).fill(255);
+      for (let i = 0; i < width * height; i++) {
+        positions.forEach((p, c) => { out[i * 4 + p] = rgb[i * 3 + c]; });
+      }
+      return out;
+    }
+
+    it.each([
+      ['rgba', [0, 1, 2]],
+      ['bgra', [2, 1, 0]],
+      ['argb', [1, 2, 3]],
+    ] as const)('should hash %s input like RGB', (pixelFormat, positions) => {
+      const result = PDQ.hash({ data: pack([...positions]), width, height, channels: 4, pixelFormat });
+
+      expect(PDQ.toHex(result.hash)).toBe(PDQ.toHex(expected.hash));
+      expect(result.quality).toBe(expected.quality);
+    });
+
+    it('should accept canvas Uint8ClampedArray data', () => {
+      const result = PDQ.hash({ data: new Uint8ClampedArray(pack([0, 1, 2])), width, height, channels: 4 });
+      expect(PDQ.toHex(result.hash)).toBe(PDQ.toHex(expected.hash));
+    });
+
+    it('should honour stride and byteOffset', () => {
+      const stride = width * 3 + 5;
+      const byteOffset = 7;
+      const padded = new Uint8Array(byteOffset + stride * height + 3).fill(99);
+      for (let y = 0; y < height; y++) {
+        padded.set(rgb.subarray(y * width * 3, (y + 1) * width * 3), byteOffset + y * stride);
+      }
+
+      const result = PDQ.hash({ data: padded, width, height, channels: 3, stride, byteOffset });
+      expect(PDQ.toHex(result.hash)).toBe(PDQ.toHex(expected.hash));
+
+      const float = PDQ.hashFloat({ data: padded, width, height, channels: 3, stride, byteOffset });
+      expect(float.values).toEqual(PDQ.hashFloat({ data: rgb, width, height, channels: 3 }).values);
+
+      const dihedral = PDQ.hashDihedral({ data: padded, width, height, channels: 3, stride, byteOffset });
+      expect(PDQ.toHex(dihedral.hashes.original)).toBe(PDQ.toHex(expected.hash));
+    });
+
+    it('should reject invalid layouts', () => {
+      const data = new Uint8Array(width * height * 4);
+
+      expect(() => PDQ.hash({ data, width, height, channels: 3, pixelFormat: 'bgra' }))
+        .toThrow('Invalid pixelFormat');
+      expect(() => PDQ.hash({ data, width, height, channels: 4, pixelFormat: 'toString' as any }))
+        .toThrow('Invalid pixelFormat');
+      expect(() => PDQ.hash({ data, width, height, channels: 4, stride: width * 4 - 1 }))
+        .toThrow('Invalid stride');
+      expect(() => PDQ.hash({ data, width, height, channels: 4, byteOffset: 1 }))
+        .toThrow('Expected at least');
+      expect(() => PDQ.hash({ data, width, height, channels: 2 as any }))
+        .toThrow('Invalid channel count');
+    });
+  });
+
+  describe('dihedral hashing', () => {
+    // Asymmetric 64x64 grayscale pattern so every transform looks different
+    const size = 64;
+    const makeImage = () => {
+      const data = new Uint8Array(size * size);
+      for (let y = 0; y < size; y++) {
+        for (let x = 0; x < size; x++) {
+          data[y * size + x] = (x * 3 + ((y * y) >> 3) + (x < 20 && y < 30 ? 120 : 0)) & 0xff;
+        }
+      }
+      return { data, width: size, height: size, channels: 1 as const };
+    };
+
+    it('should return 8 hashes labelled by transform', () => {
+      const result = PDQ.hashDihedral(makeImage());
+
+      expect(Object.keys(result.hashes).sort()).toEqual([...DIHEDRAL_TRANSFORMS].sort());
+      for (const transform of DIHEDRAL_TRANSFORMS) {
+        expect(result.hashes[transform]).toBeInstanceOf(Uint8Array);
+        expect(result.hashes[transform].length).toBe(32);
+      }
+      expect(result.quality).toBeGreaterThanOrEqual(0);
+    });
+
+    it('should match PDQ.hash for the original orientation', () => {
+      const image = makeImage();
+      const dihedral = PDQ.hashDihedral(image);
+      const single = PDQ.hash(image);
+
+      expect(PDQ.hammingDistance(dihedral.hashes.original, single.hash)).toBe(0);
+      expect(dihedral.quality).toBe(single.quality);
+    });
+
+    it('should match a rotated copy via minDistanceDihedral', () => {
+      const image = makeImage();
+      const rotated = new Uint8Array(size * size);
+      for (let y = 0; y < size; y++) {
+        for (let x = 0; x < size; x++) {
+          rotated[y * size + x] = image.data[(size - 1 - y) * size + (size - 1 - x)];
+        }
+      }
+
+      const dihedral = PDQ.hashDihedral(image);
+      const rotatedHash = PDQ.hash({ ...image, data: rotated }).hash;
+
+      const plainDistance = PDQ.hammingDistance(dihedral.hashes.original, rotatedHash);
+      const match = PDQ.minDistanceDihedral(dihedral, rotatedHash);
+
+      expect(match.transform).toBe('rotate180');
+      expect(match.distance).toBeLessThanOrEqual(31);
+      expect(match.distance).toBeLessThan(plainDistance);
+    });
+
+    it('should report the original transform for an exact match', () => {
+      const image = makeImage();
+      const dihedral = PDQ.hashDihedral(image);
+
+      expect(PDQ.minDistanceDihedral(dihedral, PDQ.hash(image).hash)).toEqual({
+        distance: 0,
+        transform: 'original',
+      });
+    });
+
+    it('should throw error for mismatched data size', () => {
+      expect(() => PDQ.hashDihedral({
+        data: new Uint8Array(50),
+        width: 10,
+        height: 10,
+        channels: 1 as const,
+      })).toThrow('Invalid image data size');
+    });
+  });
+
   describe('similarity ordering', () => {
     it('should order hashes by similarity to reference', () => {
       // Create a reference hash
@@ -0,0 +1,116 @@
+/**
+ * Tests for PDQF float hash utilities (no WASM required)
+ */
+
+import {
+  floatHashMedian,
+  floatHashToHash,
+  maskedHammingDistance,
+  weightedHammingDistance,
+} from '../src/pdqf';
+
+// Coefficients -127.5 .. 127.5, so the lower median is -0.5 and bits 128-255 are set
+const ramp = () => Float32Array.from({ length: 256 }, (_, k) => k - 127.5);
+
+function flipBit(hash: Uint8Array, k: number): Uint8Array {
+  const result = new Uint8Array(hash);
+  const word = k >> 4;
+  const bit = k & 15;
+  result[word * 2 + (bit < 8 ? 1 : 0)] ^= 1 << (bit & 7);
+  return result;
+}
+
+describe('PDQF utilities', () => {
+  describe('floatHashMedian', () => {
+    it('should return the lower median', () => {
+      expect(floatHashMedian(ramp())).toBe(-0.5);
+    });
+
+    it('should reject the wrong number of values', () => {
+      expect(() => floatHashMedian(new Float32Array(10))).toThrow('must have 256 values');
+    });
+  });
+
+  describe('floatHashToHash', () => {
+    it('should set bits for coefficients above the median', () => {
+      const hash = floatHashToHash(ramp());
+
+      expect(Array.from(hash.subarray(0, 16))).toEqual(new Array(16).fill(0));
+      expect(Array.from(hash.subarray(16))).toEqual(new Array(16).fill(0xff));
+    });
+
+    it('should follow the WASM byte layout', () => {
+      const values = new Float32Array(256);
+      values[0] = 1;
+      values[9] = 1;
+
+      const hash = floatHashToHash(values);
+
+      // Bit 0 is the low bit of the second byte of word 0, bit 9 the second bit of the first byte
+      expect(hash[1]).toBe(0x01);
+      expect(hash[0]).toBe(0x02);
+    });
+  });
+
+  describe('maskedHammingDistance', () => {
+    it('should ignore mismatches on bits near the median', () => {
+      const query = ramp();
+      const candidate = flipBit(flipBit(floatHashToHash(query), 127), 128);
+
+      expect(maskedHammingDistance(query, candidate)).toEqual({ distance: 0, comparedBits: 231 });
+      expect(maskedHammingDistance(query, candidate, { ignoreFraction: 0 })).toEqual({
+        distance: 2,
+        comparedBits: 256,
+      });
+    });
+
+    it('should count mismatches on bits far from the median', () => {
+      const query = ramp();
+      const candidate = flipBit(floatHashToHash(query), 0);
+
+      expect(maskedHammingDistance(query, candidate).distance).toBe(1);
+    });
+
+    it('should accept float candidates', () => {
+      const query = ramp();
+
+      expect(maskedHammingDistance(query, ramp()).distance).toBe(0);
+    });
+
+    it('should reject invalid fractions', () => {
+      expect(() => maskedHammingDistance(ramp(), new Uint8Array(32), { ignoreFraction: 1 }))
+        .toThrow('Invalid ignoreFraction');
+    });
+  });
+
+  describe('weightedHammingDistance', () => {
+    it('should weight mismatches by distance from the median', () => {
+      const query = ramp();
+      const exact = floatHashToHash(query);
+
+      expect(weightedHammingDistance(query, exact)).toBe(0);
+      // Coefficient 127 equals the median, so flipping it costs nothing
+      expect(weightedHammingDistance(query, flipBit(exact, 127))).toBe(0);
+      // Coefficient 255 is far from the median and counts fully
+      expect(weightedHammingDistance(query, flipBit(exact, 255))).toBe(1);
+    });
+
+    it('should never exceed the plain Hamming distance', () => {
+      const query = ramp();
+      const opposite = floatHashToHash(query).map(b => b ^ 0xff);
+
+      const distance = weightedHammingDistance(query, opposite);
+
+      expect(distance).toBeGreaterThan(0);
+      expect(distance).toBeLessThanOrEqual(256);
+    });
+
+    it('should honour an explicit scale', () => {
+      const query = ramp();
+      const candidate = flipBit(floatHashToHash(query), 130);
+
+      // |130 - 127.5 - (-0.5)| = 3
+      expect(weightedHammingDistance(query, candidate, { scale: 6 })).toBeCloseTo(0.5);
+    });
+  });
+});
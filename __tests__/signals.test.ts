@@ -0,0 +1,140 @@
+/**
+ * Tests for ThreatExchange / HMA signal lists and SignalMatcher
+ * None of these tests need WASM
+ */
+
+import {
+  parseThreatExchangeSignals,
+  formatThreatExchangeSignals,
+  parseHMASignals,
+  formatHMASignals,
+  parseSignals,
+  SignalMatcher,
+  type PDQSignal,
+} from '../src/signals';
+import { PDQ } from '../src/pdq';
+
+const BASE = 'f'.repeat(64);
+// Flip the lowest `bits` bits of the base hash
+const nearBase = (bits: number) =>
+  (BigInt('0x' + BASE) ^ ((1n << BigInt(bits)) - 1n)).toString(16).padStart(64, '0');
+
+describe('ThreatExchange signals', () => {
+  const descriptors = {
+    data: [
+      {
+        id: '3014587465321',
+        type: 'HASH_PDQ',
+        raw_indicator: BASE.toUpperCase(),
+        tags: { data: [{ text: 'csam' }, { text: 'tier1' }] },
+        added_on: '2021-04-15T19:05:11+0000',
+        last_updated: '2021-05-01T08:00:00+0000',
+        description: 'from partner'
+      },
+      { id: '2', type: 'HASH_MD5', raw_indicator: 'd41d8cd98f00b204e9800998ecf8427e' },
+      { id: 3, indicator: { type: 'HASH_PDQ', indicator: nearBase(4) }, tags: ['spam'], quality: 87 }
+    ],
+    paging: { cursors: {} }
+  };
+
+  it('should read PDQ descriptors with tags and timestamps', () => {
+    const signals = parseThreatExchangeSignals(JSON.stringify(descriptors));
+
+    expect(signals).toEqual([
+      {
+        id: '3014587465321',
+        hash: BASE,
+        tags: ['csam', 'tier1'],
+        createdAt: new Date('2021-04-15T19:05:11Z'),
+        updatedAt: new Date('2021-05-01T08:00:00Z'),
+        description: 'from partner'
+      },
+      { id: '3', hash: nearBase(4), tags: ['spam'], quality: 87 }
+    ]);
+  });
+
+  it('should round-trip through the writer', () => {
+    const signals = parseThreatExchangeSignals(descriptors);
+    expect(parseThreatExchangeSignals(formatThreatExchangeSignals(signals))).toEqual(signals);
+  });
+
+  it('should reject malformed exports', () => {
+    expect(() => parseThreatExchangeSignals({})).toThrow('Invalid ThreatExchange export');
+    expect(parseThreatExchangeSignals([null, 5, 'HASH_PDQ', { indicator: null }])).toEqual([]);
+    expect(() => parseThreatExchangeSignals([{ type: 'HASH_PDQ', raw_indicator: 'abc' }]))
+      .toThrow('Invalid PDQ hash in descriptor 0');
+  });
+});
+
+describe('HMA signals', () => {
+  it('should read headerless rollup rows', () => {
+    const csv = `${BASE},1001,2021-04-15T19:05:11+0000,csam tier1\n${nearBase(2)},1002,,\n`;
+
+    expect(parseHMASignals(csv)).toEqual([
+      { hash: BASE, id: '1001', tags: ['csam', 'tier1'], createdAt: new Date('2021-04-15T19:05:11Z') },
+      { hash: nearBase(2), id: '1002', tags: [] }
+    ]);
+  });
+
+  it('should read named columns and skip other signal types', () => {
+    const csv = [
+      'signal_type,signal,quality,labels,content_id,updated_at',
+      `pdq,${BASE},90,a;b,c-1,1618513511`,
+      'md5,d41d8cd98f00b204e9800998ecf8427e,,,c-2,',
+    ].join('\n');
+
+    expect(parseHMASignals(csv)).toEqual([
+      { hash: BASE, quality: 90, tags: ['a', 'b'], id: 'c-1', updatedAt: new Date(1618513511 * 1000) }
+    ]);
+    expect(() => parseHMASignals(`hash,quality\n${BASE},101`)).toThrow('Invalid quality in row 2');
+  });
+
+  it('should round-trip through the writer', () => {
+    const signals: PDQSignal[] = [
+      { hash: BASE, quality: 75, tags: ['x', 'y'], id: 'a,b', createdAt: new Date('2024-01-02T03:04:05Z'), description: 'seen "twice", in a, b' },
+      { hash: nearBase(8), tags: [] }
+    ];
+    const csv = formatHMASignals(signals);
+
+    expect(csv.split('\n')[0]).toBe('signal_type,signal,quality,id,tags,added_on,updated_on,description');
+    expect(parseHMASignals(csv)).toEqual(signals);
+    expect(parseSignals(csv)).toEqual(signals);
+    expect(parseSignals(formatThreatExchangeSignals(signals))).toEqual(signals);
+  });
+});
+
+describe('SignalMatcher', () => {
+  const signals: PDQSignal[] = [
+    { hash: nearBase(20), tags: ['far'], id: 'far' },
+    { hash: nearBase(3), tags: ['near'], id: 'near' },
+    { hash: '0'.repeat(64), tags: [], id: 'other' }
+  ];
+
+  it('should report matched signals closest first', () => {
+    const matcher = new SignalMatcher(signals);
+
+    const matches = matcher.match({ hash: PDQ.fromHex(BASE), quality: 100 });
+    expect(matches.map(m => [m.signal.id, m.distance])).toEqual([['near', 3], ['far', 20]]);
+    expect(matches[0].signal.tags).toEqual(['near']);
+    expect(matcher.match(BASE)).toEqual(matches);
+  });
+
+  it('should apply maxDistance and minQuality', () => {
+    const matcher = new SignalMatcher(signals, { maxDistance: 10, minQuality: 50 });
+
+    expect(matcher.match({ hash: PDQ.fromHex(BASE), quality: 80 }).map(m => m.signal.id)).toEqual(['near']);
+    expect(matcher.match({ hash: PDQ.fromHex(BASE), quality: 49 })).toEqual([]);
+    // Bare hashes carry no quality
+    expect(matcher.match(PDQ.fromHex(BASE))).toHaveLength(1);
+  });
+
+  it('should load signals incrementally and validate input', () => {
+    const matcher = new SignalMatcher();
+    matcher.add(signals);
+    expect(matcher.size).toBe(3);
+
+    expect(() => matcher.add([{ hash: 'bad', tags: [] }])).toThrow('Invalid PDQ hash in signal bad');
+    expect(() => new SignalMatcher([], { maxDistance: 300 })).toThrow('Invalid maxDistance');
+    expect(() => new SignalMatcher([], { minQuality: -1 })).toThrow('Invalid minQuality');
+  });
+});
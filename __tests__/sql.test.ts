@@ -0,0 +1,142 @@
+/**
+ * Tests for the pdq-wasm/sql query builders
+ * Queries are checked as strings; none of these tests need a database or WASM
+ */
+
+import {
+  createTableSql,
+  rangeQuery,
+  nearestQuery,
+  insertQuery,
+  hashColumns,
+  hashToColumns,
+  hashToSplit,
+  splitToHash,
+  hashFromRow,
+} from '../src/sql';
+import { hexToHash } from '../src/hash-utils';
+
+const HEX = '80000000000000ff' + '0123456789abcdef' + 'ffffffffffffffff' + '0000000000000001';
+
+describe('pdq-wasm/sql', () => {
+  describe('split columns', () => {
+    it('should split hashes into signed 64-bit parts and join them back', () => {
+      const parts = hashToSplit(HEX);
+      expect(parts).toEqual([-9223372036854775553n, 81985529216486895n, -1n, 1n]);
+      expect(splitToHash(parts)).toEqual(hexToHash(HEX));
+
+      // Drivers return BIGINT columns as strings
+      expect(splitToHash(parts.map(String))).toEqual(hexToHash(HEX));
+    });
+
+    it('should reject malformed parts', () => {
+      expect(() => splitToHash([1n, 2n, 3n])).toThrow('expected 4 parts, got 3');
+      expect(() => splitToHash([1n, 2n, 3n, 1n << 64n])).toThrow('Must be a 64-bit integer');
+      expect(() => splitToHash(['x', '0', '0', '0'])).toThrow('Invalid split hash part: x');
+    });
+  });
+
+  describe('column values', () => {
+    it('should convert hashes for every layout and read them back', () => {
+      for (const layout of ['hex', 'bytea', 'bit', 'split'] as const) {
+        const columns = hashColumns({ layout });
+        const values = hashToColumns(HEX, layout);
+        const row = Object.fromEntries(columns.map((name, i) => [name, values[i]]));
+        expect(hashFromRow(row, { layout })).toEqual(hexToHash(HEX));
+      }
+
+      expect(hashColumns({ layout: 'split', column: 'h' })).toEqual(['h_0', 'h_1', 'h_2', 'h_3']);
+      expect(hashToColumns(HEX, 'bit')[0]).toMatch(/^10000000{9}/);
+      expect(() => hashFromRow({ pdq_hash: 'nope' })).toThrow('Invalid hex hash in column pdq_hash');
+    });
+  });
+
+  describe('createTableSql', () => {
+    it('should emit a split-layout schema with indexes', () => {
+      expect(createTableSql({
+        table: 'media.images',
+        layout: 'split',
+        qualityColumn: 'pdq_quality',
+        extraColumns: ['filename TEXT NOT NULL']
+      })).toBe(
+        'CREATE TABLE IF NOT EXISTS media.images (\n' +
+        '  id BIGSERIAL PRIMARY KEY,\n' +
+        '  pdq_hash_0 BIGINT NOT NULL,\n' +
+        '  pdq_hash_1 BIGINT NOT NULL,\n' +
+        '  pdq_hash_2 BIGINT NOT NULL,\n' +
+        '  pdq_hash_3 BIGINT NOT NULL,\n' +
+        '  pdq_quality SMALLINT CHECK (pdq_quality BETWEEN 0 AND 100),\n' +
+        '  filename TEXT NOT NULL\n' +
+        ');\n\n' +
+        'CREATE INDEX IF NOT EXISTS media_images_pdq_hash_0_idx ON media.images (pdq_hash_0);\n\n' +
+        'CREATE INDEX IF NOT EXISTS media_images_pdq_hash_1_idx ON media.images (pdq_hash_1);\n\n' +
+        'CREATE INDEX IF NOT EXISTS media_images_pdq_hash_2_idx ON media.images (pdq_hash_2);\n\n' +
+        'CREATE INDEX IF NOT EXISTS media_images_pdq_hash_3_idx ON media.images (pdq_hash_3);\n'
+      );
+    });
+
+    it('should emit single-column layouts', () => {
+      expect(createTableSql({ table: 'images', ifNotExists: false })).toBe(
+        'CREATE TABLE images (\n  id BIGSERIAL PRIMARY KEY,\n  pdq_hash CHAR(64) NOT NULL\n);\n\n' +
+        'CREATE INDEX images_pdq_hash_idx ON images (pdq_hash);\n'
+      );
+      expect(createTableSql({ table: 'images', layout: 'bytea' })).toContain('CHECK (octet_length(pdq_hash) = 32)');
+      expect(createTableSql({ table: 'images', layout: 'bit' })).toContain('pdq_hash BIT(256) NOT NULL');
+    });
+
+    it('should reject unsafe identifiers', () => {
+      expect(() => createTableSql({ table: 'images; DROP TABLE users' })).toThrow('Invalid SQL identifier');
+      expect(() => rangeQuery(HEX, { table: 'images', columns: ['id', '1=1'] })).toThrow('Invalid SQL identifier: 1=1');
+      expect(() => createTableSql({ table: 'images', layout: 'json' as any })).toThrow('Invalid layout');
+    });
+  });
+
+  describe('queries', () => {
+    it('should build a range query for hex columns', () => {
+      expect(rangeQuery(hexToHash(HEX)!, { table: 'images', columns: ['id', 'filename'] })).toEqual({
+        text:
+          "SELECT * FROM (SELECT id, filename, bit_count(('x' || pdq_hash)::bit(256) # ('x' || $1::text)::bit(256)) AS distance FROM images) AS candidates\n" +
+          'WHERE distance <= $2\n' +
+          'ORDER BY distance',
+        values: [HEX, 31]
+      });
+    });
+
+    it('should build a top-k query for split columns', () => {
+      const query = nearestQuery(HEX, { table: 'images', layout: 'split', k: 5, maxDistance: 64 });
+
+      expect(query.text).toBe(
+        'SELECT * FROM (SELECT *, ' +
+        'bit_count((pdq_hash_0 # $1::bigint)::bit(64)) + bit_count((pdq_hash_1 # $2::bigint)::bit(64)) + ' +
+        'bit_count((pdq_hash_2 # $3::bigint)::bit(64)) + bit_count((pdq_hash_3 # $4::bigint)::bit(64)) ' +
+        'AS distance FROM images) AS candidates\n' +
+        'WHERE distance <= $5\n' +
+        'ORDER BY distance\n' +
+        'LIMIT $6'
+      );
+      expect(query.values).toEqual([...hashToSplit(HEX).map(String), 64, 5]);
+    });
+
+    it('should cast bytea and bit columns', () => {
+      expect(rangeQuery(HEX, { table: 't', layout: 'bytea' }).text)
+        .toContain("bit_count(('x' || encode(pdq_hash, 'hex'))::bit(256) # ('x' || $1::text)::bit(256))");
+      expect(nearestQuery(HEX, { table: 't', layout: 'bit', k: 1 }).text)
+        .toContain("bit_count(pdq_hash # ('x' || $1::text)::bit(256))");
+    });
+
+    it('should validate limits', () => {
+      expect(() => rangeQuery(HEX, { table: 't', maxDistance: 257 })).toThrow('Invalid maxDistance');
+      expect(() => nearestQuery(HEX, { table: 't', k: 0 })).toThrow('Invalid k');
+      expect(() => rangeQuery('abc', { table: 't' })).toThrow('Invalid PDQ hash');
+    });
+
+    it('should build inserts with extra columns', () => {
+      expect(insertQuery(HEX, { table: 'images', layout: 'split' }, { filename: 'a.jpg', pdq_quality: 87 })).toEqual({
+        text: 'INSERT INTO images (pdq_hash_0, pdq_hash_1, pdq_hash_2, pdq_hash_3, filename, pdq_quality) VALUES ($1, $2, $3, $4, $5, $6)',
+        values: [...hashToSplit(HEX).map(String), 'a.jpg', 87]
+      });
+      expect(insertQuery(HEX, { table: 'images', layout: 'bit' }).text)
+        .toBe('INSERT INTO images (pdq_hash) VALUES ($1::bit(256))');
+    });
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * Tests for vPDQ frame sampling, dedupe and video matching
+ * Hashing is stubbed with a fake PDQ instance so these tests don't need WASM
+ */
+
+import { hashVideoFrames, dedupeVideoFrames, matchVideoHashes, type VPDQFeature, type VPDQFrame } from '../src/vpdq';
+import type { ImageData } from '../src/types';
+
+// Fake hasher: the first pixel value becomes the first hash byte
+const fakePDQ = {
+  hash: (imageData: ImageData) => {
+    const hash = new Uint8Array(32);
+    hash[0] = imageData.data[0];
+    return { hash, quality: 100 };
+  },
+};
+
+function grayFrame(value: number, timestamp: number): VPDQFrame {
+  return {
+    image: { data: new Uint8Array(4).fill(value), width: 2, height: 2, channels: 1 },
+    timestamp,
+  };
+}
+
+function feature(byte: number, quality: number = 100, frameNumber: number = 0): VPDQFeature {
+  const hash = new Uint8Array(32);
+  hash[0] = byte;
+  return { hash, quality, frameNumber, timestamp: frameNumber };
+}
+
+describe('vPDQ', () => {
+  describe('hashVideoFrames', () => {
+    it('should hash every frame when no fps is given', async () => {
+      const frames = [1, 2, 3].map((v, i) => grayFrame(v, i / 30));
+      const features = await hashVideoFrames(frames, { pdq: fakePDQ });
+
+      expect(features.map(f => f.frameNumber)).toEqual([0, 1, 2]);
+      expect(features.map(f => f.hash[0])).toEqual([1, 2, 3]);
+    });
+
+    it('should sample frames at the requested fps', async () => {
+      // 3 seconds of 30fps video, each frame distinct
+      const frames = Array.from({ length: 90 }, (_, i) => grayFrame(i, i / 30));
+      const features = await hashVideoFrames(frames, { fps: 1, pdq: fakePDQ });
+
+      expect(features.map(f => f.frameNumber)).toEqual([0, 30, 60]);
+      expect(features.map(f => f.timestamp)).toEqual([0, 1, 2]);
+    });
+
+    it('should accept async iterables', async () => {
+      async function* frames() {
+        for (let i = 0; i < 4; i++) yield grayFrame(i, i * 0.5);
+      }
+      const features = await hashVideoFrames(frames(), { fps: 1, pdq: fakePDQ });
+
+      expect(features.map(f => f.frameNumber)).toEqual([0, 2]);
+    });
+
+    it('should pass RGBA frames through without copying', async () => {
+      const image = { data: new Uint8ClampedArray([9, 0, 0, 255, 9, 0, 0, 255]), width: 2, height: 1 };
+      const hashed: ImageData[] = [];
+      await hashVideoFrames([{ image, timestamp: 0 }], {
+        pdq: { hash: (data: ImageData) => { hashed.push(data); return fakePDQ.hash(data); } },
+      });
+
+      expect(hashed[0]).toMatchObject({ channels: 4, pixelFormat: 'rgba', width: 2, height: 1 });
+      expect(hashed[0].data).toBe(image.data);
+    });
+
+    it('should drop consecutive identical frames', async () => {
+      const frames = [5, 5, 5, 6, 5].map((v, i) => grayFrame(v, i));
+      const features = await hashVideoFrames(frames, { pdq: fakePDQ });
+
+      expect(features.map(f => f.frameNumber)).toEqual([0, 3, 4]);
+    });
+
+    it('should keep every frame with dedupeDistance -1', async () => {
+      const frames = [5, 5, 5].map((v, i) => grayFrame(v, i));
+      const features = await hashVideoFrames(frames, { pdq: fakePDQ, dedupeDistance: -1 });
+
+      expect(features).toHaveLength(3);
+    });
+
+    it('should reject invalid fps', async () => {
+      await expect(hashVideoFrames([], { fps: 0 })).rejects.toThrow('Invalid fps');
+    });
+  });
+
+  describe('dedupeVideoFrames', () => {
+    it('should drop near-identical consecutive frames', () => {
+      // 0b0001 and 0b0011 differ by 1 bit; 0b1111 differs from 0b0001 by 3
+      const features = [feature(0b0001, 100, 0), feature(0b0011, 100, 1), feature(0b1111, 100, 2)];
+
+      expect(dedupeVideoFrames(features, 1).map(f => f.frameNumber)).toEqual([0, 2]);
+      expect(dedupeVideoFrames(features, 0).map(f => f.frameNumber)).toEqual([0, 1, 2]);
+    });
+  });
+
+  describe('matchVideoHashes', () => {
+    it('should report full match for identical videos', () => {
+      const video = [feature(1), feature(2), feature(4)];
+
+      expect(matchVideoHashes(video, video)).toEqual({ queryMatchPercent: 100, targetMatchPercent: 100 });
+    });
+
+    it('should report asymmetric percentages for a clip', () => {
+      const clip = [feature(1), feature(2)];
+      const full = [feature(1), feature(2), feature(0xff), feature(0xf0)];
+
+      expect(matchVideoHashes(clip, full, { distanceTolerance: 0 })).toEqual({
+        queryMatchPercent: 100,
+        targetMatchPercent: 50,
+      });
+    });
+
+    it('should count repeated hashes once', () => {
+      const query = [feature(1), feature(1), feature(1), feature(0xff)];
+      const target = [feature(1)];
+
+      expect(matchVideoHashes(query, target, { distanceTolerance: 0 }).queryMatchPercent).toBe(50);
+    });
+
+    it('should ignore frames below the quality tolerance', () => {
+      const query = [feature(1), feature(0xff, 10)];
+      const target = [feature(1)];
+
+      expect(matchVideoHashes(query, target, { distanceTolerance: 0 }).queryMatchPercent).toBe(100);
+      expect(matchVideoHashes(query, target, { distanceTolerance: 0, qualityTolerance: 0 }).queryMatchPercent).toBe(50);
+    });
+
+    it('should return 0 when a side has no usable frames', () => {
+      expect(matchVideoHashes([], [feature(1)])).toEqual({ queryMatchPercent: 0, targetMatchPercent: 0 });
+    });
+  });
+});
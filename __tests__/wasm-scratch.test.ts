@@ -0,0 +1,80 @@
+/**
+ * Tests for the reusable WASM scratch buffers
+ * A fake module records allocations, so no WASM is needed
+ */
+
+import { WasmScratch, SCRATCH_INPUT, SCRATCH_OUTPUT } from '../src/wasm-scratch';
+import type { PDQWasmModule } from '../src/types';
+
+function fakeModule() {
+  let next = 8;
+  const live = new Map<number, number>();
+  const mod = {
+    _malloc: (size: number) => {
+      const ptr = next;
+      next += size;
+      live.set(ptr, size);
+      return ptr;
+    },
+    _free: (ptr: number) => {
+      if (!live.delete(ptr)) throw new Error(`double free of ${ptr}`);
+    },
+  } as unknown as PDQWasmModule;
+  return { mod, live };
+}
+
+describe('WasmScratch', () => {
+  it('should reuse a slot while it is large enough', () => {
+    const { mod, live } = fakeModule();
+    const scratch = new WasmScratch(mod);
+
+    const first = scratch.get(SCRATCH_INPUT, 1000);
+    expect(scratch.get(SCRATCH_INPUT, 1000)).toBe(first);
+    expect(scratch.get(SCRATCH_INPUT, 10)).toBe(first);
+    expect(live.size).toBe(1);
+  });
+
+  it('should at least double capacity when growing', () => {
+    const { mod, live } = fakeModule();
+    const scratch = new WasmScratch(mod);
+
+    scratch.get(SCRATCH_INPUT, 1000);
+    const grown = scratch.get(SCRATCH_INPUT, 1001);
+
+    expect(live.get(grown)).toBe(2000);
+    expect(live.size).toBe(1);
+    expect(scratch.get(SCRATCH_INPUT, 1999)).toBe(grown);
+  });
+
+  it('should keep slots independent', () => {
+    const { mod } = fakeModule();
+    const scratch = new WasmScratch(mod);
+
+    const input = scratch.get(SCRATCH_INPUT, 100);
+    const output = scratch.get(SCRATCH_OUTPUT, 36);
+
+    expect(output).not.toBe(input);
+    expect(scratch.size).toBe(100 + 64);
+  });
+
+  it('should free every slot on release', () => {
+    const { mod, live } = fakeModule();
+    const scratch = new WasmScratch(mod);
+
+    scratch.get(SCRATCH_INPUT, 100);
+    scratch.get(SCRATCH_OUTPUT, 100);
+    scratch.release();
+
+    expect(live.size).toBe(0);
+    expect(scratch.size).toBe(0);
+    scratch.release();
+    scratch.get(SCRATCH_INPUT, 100);
+    expect(live.size).toBe(1);
+  });
+
+  it('should throw when allocation fails', () => {
+    const mod = { _malloc: () => 0, _free: () => undefined } as unknown as PDQWasmModule;
+
+    expect(() => new WasmScratch(mod).get(SCRATCH_INPUT, 100)).toThrow('Failed to allocate 100 bytes');
+  });
+});
@@ -0,0 +1,165 @@
+/**
+ * Tests for PDQWorkerPool
+ * Workers are faked with createWorker, so none of these tests need WASM
+ */
+
+import { PDQWorkerPool } from '../src/worker-pool';
+import type { PDQWorkerRequest, PDQWorkerResponse } from '../src/worker-pool';
+import type { ImageHashResult } from '../src/browser';
+
+type Behaviour = 'ok' | 'corrupt' | 'crash' | 'crash-once';
+
+// 'crash-once' files that have already crashed a worker
+const crashedOnce = new Set<string>();
+
+/**
+ * Fake worker that answers asynchronously; the blob's text picks its behaviour
+ */
+class FakeWorker {
+  onmessage: ((event: { data: PDQWorkerResponse }) => void) | null = null;
+  onerror: ((event: { message: string; preventDefault(): void }) => void) | null = null;
+  onmessageerror: (() => void) | null = null;
+  terminated = false;
+  hashed: string[] = [];
+
+  constructor(private readonly failInit = false) {}
+
+  postMessage(request: PDQWorkerRequest): void {
+    setTimeout(() => this.handle(request), 0);
+  }
+
+  terminate(): void {
+    this.terminated = true;
+  }
+
+  private async handle(request: PDQWorkerRequest): Promise<void> {
+    if (this.terminated) return;
+    if (request.type === 'init') {
+      this.reply(this.failInit ? { type: 'init-error', error: 'bad wasm' } : { type: 'ready' });
+      return;
+    }
+
+    const text = await request.blob.text();
+    this.hashed.push(text);
+    const behaviour = text.split(':')[0] as Behaviour;
+    if (behaviour === 'crash' || (behaviour === 'crash-once' && !crashedOnce.has(text))) {
+      crashedOnce.add(text);
+      this.onerror?.({ message: 'out of memory', preventDefault: () => {} });
+    } else if (behaviour === 'corrupt') {
+      this.reply({ type: 'hash-error', id: request.id, error: 'Failed to decode image' });
+    } else {
+      this.reply({ type: 'hash-result', id: request.id, result: { hex: text } as ImageHashResult });
+    }
+  }
+
+  private reply(data: PDQWorkerResponse): void {
+    if (!this.terminated) this.onmessage?.({ data });
+  }
+}
+
+function createPool(size: number, options: { maxRetries?: number; failInit?: (id: number) => boolean } = {}) {
+  const workers: FakeWorker[] = [];
+  const pool = new PDQWorkerPool({
+    wasmUrl: '/wasm/pdq.wasm',
+    size,
+    maxRetries: options.maxRetries,
+    createWorker: (id) => {
+      const worker = new FakeWorker(options.failInit?.(id));
+      workers.push(worker);
+      return worker as unknown as Worker;
+    }
+  });
+  return { pool, workers };
+}
+
+const file = (text: string) => new File([text], `${text}.png`, { type: 'image/png' });
+
+describe('PDQWorkerPool', () => {
+  it('should validate options', () => {
+    expect(() => new PDQWorkerPool({ wasmUrl: 'x' })).toThrow('workerUrl or createWorker');
+    expect(() => createPool(0)).toThrow('Invalid pool size');
+    expect(() => createPool(1, { maxRetries: -1 })).toThrow('Invalid maxRetries');
+  });
+
+  it('should hash all files and report progress', async () => {
+    const { pool } = createPool(3);
+    const progress: number[] = [];
+
+    const outcomes = await pool.hashAll(['ok:1', 'ok:2', 'corrupt:3', 'ok:4'].map(file), {
+      onProgress: ({ completed, total }) => progress.push(completed / total)
+    });
+
+    expect(outcomes.map(o => o.result?.hex ?? null)).toEqual(['ok:1', 'ok:2', null, 'ok:4']);
+    expect(outcomes[2].name).toBe('corrupt:3.png');
+    expect(outcomes[2].error).toContain('Failed to decode image');
+    expect(progress).toEqual([0.25, 0.5, 0.75, 1]);
+
+    const stats = pool.stats();
+    expect(stats.reduce((sum, s) => sum + s.processed, 0)).toBe(3);
+    expect(stats.reduce((sum, s) => sum + s.errors, 0)).toBe(1);
+    expect(stats.every(s => s.status === 'idle' && s.currentFile === null)).toBe(true);
+    pool.terminate();
+  });
+
+  it('should start higher-priority files first', async () => {
+    const { pool, workers } = createPool(1);
+    await pool.ready();
+
+    const low = pool.hash(file('ok:low'));
+    const normal = pool.hash(file('ok:normal'));
+    const high = pool.hash(file('ok:high'), { priority: 5 });
+    await Promise.all([low, normal, high]);
+
+    // 'low' was dispatched before the others were queued
+    expect(workers[0].hashed).toEqual(['ok:low', 'ok:high', 'ok:normal']);
+    pool.terminate();
+  });
+
+  it('should replace a crashed worker and retry its file', async () => {
+    const { pool, workers } = createPool(1, { maxRetries: 1 });
+
+    const result = await pool.hash(file('crash-once:a'));
+    expect(result.hex).toBe('crash-once:a');
+    expect(workers).toHaveLength(2);
+    expect(workers[0].terminated).toBe(true);
+    expect(pool.stats()[0]).toMatchObject({ crashes: 1, processed: 1, errors: 0 });
+    pool.terminate();
+  });
+
+  it('should give up after maxRetries crashes', async () => {
+    const { pool, workers } = createPool(1, { maxRetries: 1 });
+
+    await expect(pool.hash(file('crash:always'))).rejects.toThrow('Worker crashed while hashing crash:always.png');
+    expect(workers).toHaveLength(3);
+    expect(pool.stats()[0]).toMatchObject({ crashes: 2, errors: 1 });
+
+    // The replacement worker keeps serving
+    await expect(pool.hash(file('ok:next'))).resolves.toMatchObject({ hex: 'ok:next' });
+    pool.terminate();
+  });
+
+  it('should skip workers that fail to initialize', async () => {
+    const partial = createPool(2, { failInit: id => id === 0 });
+    await partial.pool.ready();
+    expect(partial.pool.stats().map(s => s.status)).toEqual(['failed', 'idle']);
+    await expect(partial.pool.hash(file('ok:1'))).resolves.toMatchObject({ hex: 'ok:1' });
+    partial.pool.terminate();
+
+    const broken = createPool(2, { failInit: () => true });
+    const queued = broken.pool.hash(file('ok:1'));
+    await expect(broken.pool.ready()).rejects.toThrow('No PDQ workers available: bad wasm');
+    await expect(queued).rejects.toThrow('No PDQ workers available');
+  });
+
+  it('should reject pending files on terminate', async () => {
+    const { pool, workers } = createPool(1);
+    const pending = pool.hashAll([file('ok:1'), file('ok:2')]);
+    pool.terminate();
+
+    const outcomes = await pending;
+    expect(outcomes.every(o => o.error === 'PDQWorkerPool has been terminated')).toBe(true);
+    expect(workers[0].terminated).toBe(true);
+    expect(pool.stats()[0].status).toBe('terminated');
+    await expect(pool.hash(file('ok:3'))).rejects.toThrow('terminated');
+  });
+});
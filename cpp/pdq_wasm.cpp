@@ -8,67 +8,197 @@
 #include <pdq/cpp/common/pdqhashtypes.h>
 #include <pdq/cpp/common/pdqhamming.h>
 #include <cstring>
+#include <cstddef>
 
 using namespace facebook::pdq::hashing;
 
+/**
+ * Convert Hash256 to a 32-byte big-endian array
+ * Hash256 has 16 words of 16 bits each = 32 bytes
+ */
+static void hashToBytes(const Hash256& hash, uint8_t* out) {
+    for (int i = 0; i < 16; i++) {
+        out[i * 2] = (hash.w[i] >> 8) & 0xFF;
+        out[i * 2 + 1] = hash.w[i] & 0xFF;
+    }
+}
+
+/**
+ * Compute all 8 dihedral hashes from a luma buffer
+ * Writes 8 consecutive 32-byte hashes in the order: original, rotate90,
+ * rotate180, rotate270, flipX, flipY, flipPlus1, flipMinus1
+ */
+static void dihedralHashesFromLuma(
+    float* buffer1,
+    float* buffer2,
+    int width,
+    int height,
+    uint8_t* hashesOut,
+    int* qualityOut
+) {
+    float buffer64x64[64][64];
+    float buffer16x64[16][64];
+    float buffer16x16[16][16];
+    float buffer16x16Aux[16][16];
+
+    Hash256 hashes[8];
+    int quality;
+
+    pdqDihedralHash256esFromFloatLuma(
+        buffer1, buffer2,
+        height, width,
+        buffer64x64,
+        buffer16x64,
+        buffer16x16,
+        buffer16x16Aux,
+        &hashes[0], &hashes[1], &hashes[2], &hashes[3],
+        &hashes[4], &hashes[5], &hashes[6], &hashes[7],
+        quality
+    );
+
+    for (int i = 0; i < 8; i++) {
+        hashToBytes(hashes[i], hashesOut + i * 32);
+    }
+
+    *qualityOut = quality;
+}
+
+/**
+ * Check an interleaved pixel layout
+ * Each row must hold `width` pixels and every channel offset must fall inside a pixel.
+ */
+static bool isValidLayout(
+    int width,
+    int height,
+    int rowStride,
+    int pixelStride,
+    int rOffset,
+    int gOffset,
+    int bOffset
+) {
+    if (width <= 0 || height <= 0 || pixelStride <= 0) {
+        return false;
+    }
+    if (rowStride < width * pixelStride) {
+        return false;
+    }
+    return rOffset >= 0 && rOffset < pixelStride &&
+           gOffset >= 0 && gOffset < pixelStride &&
+           bOffset >= 0 && bOffset < pixelStride;
+}
+
+/**
+ * Convert interleaved 8-bit pixels to float luma
+ *
+ * The reference fill functions take row and column strides, so channels are
+ * read in place (RGB, RGBA, BGRA, ARGB, padded rows) without copying them into
+ * separate planes. Equal channel offsets are treated as grayscale.
+ */
+static void fillLumaFromPixels(
+    const uint8_t* pixels,
+    int width,
+    int height,
+    int rowStride,
+    int pixelStride,
+    int rOffset,
+    int gOffset,
+    int bOffset,
+    float* luma
+) {
+    uint8_t* base = const_cast<uint8_t*>(pixels);
+
+    if (rOffset == gOffset && gOffset == bOffset) {
+        fillFloatLumaFromGrey(
+            base + rOffset,
+            height, width,
+            rowStride, pixelStride,
+            luma
+        );
+    } else {
+        fillFloatLumaFromRGB(
+            base + rOffset, base + gOffset, base + bOffset,
+            height, width,
+            rowStride, pixelStride,
+            luma
+        );
+    }
+}
+
+/**
+ * Luma working buffers reused across calls
+ *
+ * PDQ needs two width * height float buffers per image. Keeping them between
+ * calls avoids two large allocations per hash when hashing many images; the
+ * buffers only grow, and pdq_release_scratch() frees them.
+ */
+static float* lumaScratch = nullptr;
+static size_t lumaScratchPixels = 0;
+
+/**
+ * Get two adjacent luma buffers of `pixels` floats each, growing if needed
+ */
+static float* ensureLumaScratch(size_t pixels) {
+    if (pixels > lumaScratchPixels) {
+        delete[] lumaScratch;
+        lumaScratch = nullptr;
+        lumaScratchPixels = 0;
+        lumaScratch = new float[pixels * 2];
+        lumaScratchPixels = pixels;
+    }
+    return lumaScratch;
+}
+
 extern "C" {
 
 /**
- * Hash an image from RGB pixel data
+ * Hash an image from interleaved pixel data with any channel layout
  *
- * @param rgbBuffer Pointer to RGB pixel data (R, G, B, R, G, B, ...)
+ * Covers RGB, grayscale and 4-channel canvas/video layouts, e.g. RGBA is
+ * (pixelStride 4, offsets 0, 1, 2), BGRA is (4; 2, 1, 0) and ARGB is (4; 1, 2, 3).
+ *
+ * @param pixels Pointer to the first pixel of the first row
  * @param width Image width in pixels
  * @param height Image height in pixels
+ * @param rowStride Bytes from the start of one row to the next (>= width * pixelStride)
+ * @param pixelStride Bytes per pixel
+ * @param rOffset Byte offset of the red channel within a pixel
+ * @param gOffset Byte offset of the green channel within a pixel
+ * @param bOffset Byte offset of the blue channel within a pixel (all equal for grayscale)
  * @param hashOut Pointer to output buffer for 32-byte hash (256 bits as 32 uint8_t)
  * @param qualityOut Pointer to output int for quality score
  * @return 0 on success, non-zero on error
  */
 EMSCRIPTEN_KEEPALIVE
-int pdq_hash_from_rgb(
-    const uint8_t* rgbBuffer,
+int pdq_hash_from_pixels(
+    const uint8_t* pixels,
     int width,
     int height,
+    int rowStride,
+    int pixelStride,
+    int rOffset,
+    int gOffset,
+    int bOffset,
     uint8_t* hashOut,
     int* qualityOut
 ) {
-    if (!rgbBuffer || !hashOut || !qualityOut) {
+    if (!pixels || !hashOut || !qualityOut) {
         return -1;
     }
 
-    if (width <= 0 || height <= 0) {
+    if (!isValidLayout(width, height, rowStride, pixelStride, rOffset, gOffset, bOffset)) {
         return -2;
     }
 
     try {
-        // Allocate buffers for PDQ computation
-        float* luma = new float[width * height];
-        float* buffer1 = new float[width * height];
-        float* buffer2 = new float[width * height];
+        // Working buffers are reused across calls
+        float* buffer1 = ensureLumaScratch(static_cast<size_t>(width) * height);
+        float* buffer2 = buffer1 + static_cast<size_t>(width) * height;
         float buffer64x64[64][64];
         float buffer16x64[16][64];
         float buffer16x16[16][16];
 
-        // Separate RGB channels
-        uint8_t* rChannel = new uint8_t[width * height];
-        uint8_t* gChannel = new uint8_t[width * height];
-        uint8_t* bChannel = new uint8_t[width * height];
-
-        for (int i = 0; i < width * height; i++) {
-            rChannel[i] = rgbBuffer[i * 3 + 0];
-            gChannel[i] = rgbBuffer[i * 3 + 1];
-            bChannel[i] = rgbBuffer[i * 3 + 2];
-        }
-
-        // Convert RGB to luma
-        fillFloatLumaFromRGB(
-            rChannel, gChannel, bChannel,
-            height, width,
-            width, 1,  // row stride, col stride
-            luma
-        );
-
-        // Copy luma to buffer1
-        memcpy(buffer1, luma, width * height * sizeof(float));
+        // Convert pixels to luma directly into the working buffer
+        fillLumaFromPixels(pixels, width, height, rowStride, pixelStride, rOffset, gOffset, bOffset, buffer1);
 
         // Compute PDQ hash
         Hash256 hash;
@@ -85,28 +215,37 @@ int pdq_hash_from_rgb(
         );
 
         // Convert Hash256 to byte array
-        // Hash256 has 16 words of 16 bits each = 32 bytes
-        for (int i = 0; i < 16; i++) {
-            hashOut[i * 2] = (hash.w[i] >> 8) & 0xFF;
-            hashOut[i * 2 + 1] = hash.w[i] & 0xFF;
-        }
+        hashToBytes(hash, hashOut);
 
         *qualityOut = quality;
 
-        // Cleanup
-        delete[] luma;
-        delete[] buffer1;
-        delete[] buffer2;
-        delete[] rChannel;
-        delete[] gChannel;
-        delete[] bChannel;
-
         return 0;
     } catch (...) {
         return -3;
     }
 }
 
+/**
+ * Hash an image from RGB pixel data
+ *
+ * @param rgbBuffer Pointer to RGB pixel data (R, G, B, R, G, B, ...)
+ * @param width Image width in pixels
+ * @param height Image height in pixels
+ * @param hashOut Pointer to output buffer for 32-byte hash (256 bits as 32 uint8_t)
+ * @param qualityOut Pointer to output int for quality score
+ * @return 0 on success, non-zero on error
+ */
+EMSCRIPTEN_KEEPALIVE
+int pdq_hash_from_rgb(
+    const uint8_t* rgbBuffer,
+    int width,
+    int height,
+    uint8_t* hashOut,
+    int* qualityOut
+) {
+    return pdq_hash_from_pixels(rgbBuffer, width, height, width * 3, 3, 0, 1, 2, hashOut, qualityOut);
+}
+
 /**
  * Hash an image from grayscale pixel data
  *
@@ -125,60 +264,57 @@ int pdq_hash_from_gray(
     uint8_t* hashOut,
     int* qualityOut
 ) {
-    if (!grayBuffer || !hashOut || !qualityOut) {
+    return pdq_hash_from_pixels(grayBuffer, width, height, width, 1, 0, 0, 0, hashOut, qualityOut);
+}
+
+/**
+ * Hash an image from interleaved pixel data in all 8 dihedral orientations
+ *
+ * The reference implementation derives the rotated and mirrored hashes from
+ * a single DCT pass, so this costs roughly the same as pdq_hash_from_pixels.
+ *
+ * @param pixels Pointer to the first pixel of the first row
+ * @param width Image width in pixels
+ * @param height Image height in pixels
+ * @param rowStride Bytes from the start of one row to the next
+ * @param pixelStride Bytes per pixel
+ * @param rOffset Byte offset of the red channel within a pixel
+ * @param gOffset Byte offset of the green channel within a pixel
+ * @param bOffset Byte offset of the blue channel within a pixel
+ * @param hashesOut Pointer to output buffer for 8 consecutive 32-byte hashes (256 bytes)
+ * @param qualityOut Pointer to output int for quality score
+ * @return 0 on success, non-zero on error
+ */
+EMSCRIPTEN_KEEPALIVE
+int pdq_dihedral_hash_from_pixels(
+    const uint8_t* pixels,
+    int width,
+    int height,
+    int rowStride,
+    int pixelStride,
+    int rOffset,
+    int gOffset,
+    int bOffset,
+    uint8_t* hashesOut,
+    int* qualityOut
+) {
+    if (!pixels || !hashesOut || !qualityOut) {
         return -1;
     }
 
-    if (width <= 0 || height <= 0) {
+    if (!isValidLayout(width, height, rowStride, pixelStride, rOffset, gOffset, bOffset)) {
         return -2;
     }
 
     try {
-        // Allocate buffers for PDQ computation
-        float* luma = new float[width * height];
-        float* buffer1 = new float[width * height];
-        float* buffer2 = new float[width * height];
-        float buffer64x64[64][64];
-        float buffer16x64[16][64];
-        float buffer16x16[16][16];
-
-        // Convert grayscale to luma
-        fillFloatLumaFromGrey(
-            const_cast<uint8_t*>(grayBuffer),
-            height, width,
-            width, 1,  // row stride, col stride
-            luma
-        );
-
-        // Copy luma to buffer1
-        memcpy(buffer1, luma, width * height * sizeof(float));
-
-        // Compute PDQ hash
-        Hash256 hash;
-        int quality;
-
-        pdqHash256FromFloatLuma(
-            buffer1, buffer2,
-            height, width,
-            buffer64x64,
-            buffer16x64,
-            buffer16x16,
-            hash,
-            quality
-        );
+        // Working buffers are reused across calls
+        float* buffer1 = ensureLumaScratch(static_cast<size_t>(width) * height);
+        float* buffer2 = buffer1 + static_cast<size_t>(width) * height;
 
-        // Convert Hash256 to byte array
-        for (int i = 0; i < 16; i++) {
-            hashOut[i * 2] = (hash.w[i] >> 8) & 0xFF;
-            hashOut[i * 2 + 1] = hash.w[i] & 0xFF;
-        }
-
-        *qualityOut = quality;
+        // Convert pixels to luma directly into the working buffer
+        fillLumaFromPixels(pixels, width, height, rowStride, pixelStride, rOffset, gOffset, bOffset, buffer1);
 
-        // Cleanup
-        delete[] luma;
-        delete[] buffer1;
-        delete[] buffer2;
+        dihedralHashesFromLuma(buffer1, buffer2, width, height, hashesOut, qualityOut);
 
         return 0;
     } catch (...) {
@@ -186,6 +322,48 @@ int pdq_hash_from_gray(
     }
 }
 
+/**
+ * Hash an image from RGB pixel data in all 8 dihedral orientations
+ *
+ * @param rgbBuffer Pointer to RGB pixel data (R, G, B, R, G, B, ...)
+ * @param width Image width in pixels
+ * @param height Image height in pixels
+ * @param hashesOut Pointer to output buffer for 8 consecutive 32-byte hashes (256 bytes)
+ * @param qualityOut Pointer to output int for quality score
+ * @return 0 on success, non-zero on error
+ */
+EMSCRIPTEN_KEEPALIVE
+int pdq_dihedral_hash_from_rgb(
+    const uint8_t* rgbBuffer,
+    int width,
+    int height,
+    uint8_t* hashesOut,
+    int* qualityOut
+) {
+    return pdq_dihedral_hash_from_pixels(rgbBuffer, width, height, width * 3, 3, 0, 1, 2, hashesOut, qualityOut);
+}
+
+/**
+ * Hash an image from grayscale pixel data in all 8 dihedral orientations
+ *
+ * @param grayBuffer Pointer to grayscale pixel data
+ * @param width Image width in pixels
+ * @param height Image height in pixels
+ * @param hashesOut Pointer to output buffer for 8 consecutive 32-byte hashes (256 bytes)
+ * @param qualityOut Pointer to output int for quality score
+ * @return 0 on success, non-zero on error
+ */
+EMSCRIPTEN_KEEPALIVE
+int pdq_dihedral_hash_from_gray(
+    const uint8_t* grayBuffer,
+    int width,
+    int height,
+    uint8_t* hashesOut,
+    int* qualityOut
+) {
+    return pdq_dihedral_hash_from_pixels(grayBuffer, width, height, width, 1, 0, 0, 0, hashesOut, qualityOut);
+}
+
 /**
  * Compute Hamming distance between two PDQ hashes
  *
@@ -214,6 +392,190 @@ int pdq_hamming_distance(const uint8_t* hash1, const uint8_t* hash2) {
     }
 }
 
+/**
+ * Hash an image from interleaved pixel data without quantizing (PDQF)
+ *
+ * Returns the 16x16 DCT coefficients that pdq_hash_from_pixels compares
+ * against their median to produce the 256 hash bits. Coefficient
+ * k = row * 16 + col corresponds to hash bit k.
+ *
+ * @param pixels Pointer to the first pixel of the first row
+ * @param width Image width in pixels
+ * @param height Image height in pixels
+ * @param rowStride Bytes from the start of one row to the next
+ * @param pixelStride Bytes per pixel
+ * @param rOffset Byte offset of the red channel within a pixel
+ * @param gOffset Byte offset of the green channel within a pixel
+ * @param bOffset Byte offset of the blue channel within a pixel
+ * @param floatsOut Pointer to output buffer for 256 floats (row-major 16x16)
+ * @param qualityOut Pointer to output int for quality score
+ * @return 0 on success, non-zero on error
+ */
+EMSCRIPTEN_KEEPALIVE
+int pdq_float_hash_from_pixels(
+    const uint8_t* pixels,
+    int width,
+    int height,
+    int rowStride,
+    int pixelStride,
+    int rOffset,
+    int gOffset,
+    int bOffset,
+    float* floatsOut,
+    int* qualityOut
+) {
+    if (!pixels || !floatsOut || !qualityOut) {
+        return -1;
+    }
+
+    if (!isValidLayout(width, height, rowStride, pixelStride, rOffset, gOffset, bOffset)) {
+        return -2;
+    }
+
+    try {
+        float* buffer1 = ensureLumaScratch(static_cast<size_t>(width) * height);
+        float* buffer2 = buffer1 + static_cast<size_t>(width) * height;
+        float buffer64x64[64][64];
+        float buffer16x64[16][64];
+        float buffer16x16[16][16];
+
+        fillLumaFromPixels(pixels, width, height, rowStride, pixelStride, rOffset, gOffset, bOffset, buffer1);
+
+        int quality;
+        pdqFloat256FromFloatLuma(
+            buffer1, buffer2,
+            height, width,
+            buffer64x64,
+            buffer16x64,
+            buffer16x16,
+            quality
+        );
+
+        memcpy(floatsOut, buffer16x16, 256 * sizeof(float));
+        *qualityOut = quality;
+
+        return 0;
+    } catch (...) {
+        return -3;
+    }
+}
+
+/**
+ * Hash an image from RGB pixel data without quantizing (PDQF)
+ *
+ * @param rgbBuffer Pointer to RGB pixel data (R, G, B, R, G, B, ...)
+ * @param width Image width in pixels
+ * @param height Image height in pixels
+ * @param floatsOut Pointer to output buffer for 256 floats (row-major 16x16)
+ * @param qualityOut Pointer to output int for quality score
+ * @return 0 on success, non-zero on error
+ */
+EMSCRIPTEN_KEEPALIVE
+int pdq_float_hash_from_rgb(
+    const uint8_t* rgbBuffer,
+    int width,
+    int height,
+    float* floatsOut,
+    int* qualityOut
+) {
+    return pdq_float_hash_from_pixels(rgbBuffer, width, height, width * 3, 3, 0, 1, 2, floatsOut, qualityOut);
+}
+
+/**
+ * Hash an image from grayscale pixel data without quantizing (PDQF)
+ *
+ * @param grayBuffer Pointer to grayscale pixel data
+ * @param width Image width in pixels
+ * @param height Image height in pixels
+ * @param floatsOut Pointer to output buffer for 256 floats (row-major 16x16)
+ * @param qualityOut Pointer to output int for quality score
+ * @return 0 on success, non-zero on error
+ */
+EMSCRIPTEN_KEEPALIVE
+int pdq_float_hash_from_gray(
+    const uint8_t* grayBuffer,
+    int width,
+    int height,
+    float* floatsOut,
+    int* qualityOut
+) {
+    return pdq_float_hash_from_pixels(grayBuffer, width, height, width, 1, 0, 0, 0, floatsOut, qualityOut);
+}
+
+/**
+ * Hamming distance between two 32-byte hashes using word-wise popcount
+ * Byte order does not affect the bit count, so no Hash256 conversion is needed.
+ */
+static int hammingDistanceBytes(const uint8_t* hash1, const uint8_t* hash2) {
+    int distance = 0;
+    for (int i = 0; i < 32; i += 4) {
+        uint32_t a, b;
+        memcpy(&a, hash1 + i, 4);
+        memcpy(&b, hash2 + i, 4);
+        distance += __builtin_popcount(a ^ b);
+    }
+    return distance;
+}
+
+/**
+ * Compute Hamming distances from one reference hash to many packed hashes
+ *
+ * @param reference Reference hash (32 bytes)
+ * @param packedHashes Contiguous buffer of count * 32 hash bytes
+ * @param count Number of hashes in packedHashes
+ * @param distancesOut Output buffer for count distances
+ * @return 0 on success, -1 on error
+ */
+EMSCRIPTEN_KEEPALIVE
+int pdq_hamming_distance_batch(
+    const uint8_t* reference,
+    const uint8_t* packedHashes,
+    int count,
+    uint16_t* distancesOut
+) {
+    if (!reference || (count > 0 && (!packedHashes || !distancesOut)) || count < 0) {
+        return -1;
+    }
+
+    for (int i = 0; i < count; i++) {
+        distancesOut[i] = static_cast<uint16_t>(hammingDistanceBytes(reference, packedHashes + i * 32));
+    }
+
+    return 0;
+}
+
+/**
+ * Compute the full pairwise Hamming distance matrix of packed hashes
+ *
+ * @param packedHashes Contiguous buffer of count * 32 hash bytes
+ * @param count Number of hashes in packedHashes
+ * @param matrixOut Output buffer for count * count distances (row-major, symmetric)
+ * @return 0 on success, -1 on error
+ */
+EMSCRIPTEN_KEEPALIVE
+int pdq_distance_matrix(
+    const uint8_t* packedHashes,
+    int count,
+    uint16_t* matrixOut
+) {
+    if (count < 0 || (count > 0 && (!packedHashes || !matrixOut))) {
+        return -1;
+    }
+
+    for (int i = 0; i < count; i++) {
+        matrixOut[i * count + i] = 0;
+        for (int j = i + 1; j < count; j++) {
+            uint16_t distance = static_cast<uint16_t>(
+                hammingDistanceBytes(packedHashes + i * 32, packedHashes + j * 32)
+            );
+            matrixOut[i * count + j] = distance;
+            matrixOut[j * count + i] = distance;
+        }
+    }
+
+    return 0;
+}
+
 /**
  * Convert hash bytes to hex string
  *
@@ -270,4 +632,15 @@ int pdq_hex_to_hash(const char* hexStr, uint8_t* hashOut) {
     return 0;
 }
 
+/**
+ * Free the luma working buffers kept between hashing calls
+ * They are reallocated on the next hash.
+ */
+EMSCRIPTEN_KEEPALIVE
+void pdq_release_scratch() {
+    delete[] lumaScratch;
+    lumaScratch = nullptr;
+    lumaScratchPixels = 0;
+}
+
 } // extern "C"
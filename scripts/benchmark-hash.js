@@ -0,0 +1,73 @@
+#!/usr/bin/env node
+
+/**
+ * Batch hashing benchmark
+ *
+ * Hashes a set of synthetic RGBA images in a tight loop and reports throughput
+ * twice: with the WASM scratch buffers reused across calls (the default), and
+ * with PDQ.releaseScratch() after every call, which allocates the pixel and
+ * luma buffers each time as PDQ.hash did before scratch buffers existed.
+ *
+ * Usage: node scripts/benchmark-hash.js [count=40] [width=3840] [height=2160]
+ * Requires a build (npm run build).
+ */
+
+const { PDQ } = require('../dist');
+
+const count = parseInt(process.argv[2] || '40', 10);
+const width = parseInt(process.argv[3] || '3840', 10);
+const height = parseInt(process.argv[4] || '2160', 10);
+
+function makeImages(n) {
+  const images = [];
+  for (let k = 0; k < n; k++) {
+    const data = new Uint8Array(width * height * 4);
+    for (let i = 0; i < width * height; i++) {
+      const x = i % width;
+      const y = (i / width) | 0;
+      data[i * 4] = (x + k * 13) & 0xff;
+      data[i * 4 + 1] = (y * 3 + k) & 0xff;
+      data[i * 4 + 2] = (x ^ y) & 0xff;
+      data[i * 4 + 3] = 255;
+    }
+    images.push({ data, width, height, channels: 4 });
+  }
+  return images;
+}
+
+function run(label, images, releaseEachCall) {
+  const start = process.hrtime.bigint();
+  for (let i = 0; i < count; i++) {
+    PDQ.hash(images[i % images.length]);
+    if (releaseEachCall) {
+      PDQ.releaseScratch();
+    }
+  }
+  const ms = Number(process.hrtime.bigint() - start) / 1e6;
+  const perSecond = (count / ms) * 1000;
+  console.log(`${label.padEnd(28)} ${ms.toFixed(0).padStart(7)} ms  ${perSecond.toFixed(1).padStart(7)} images/s`);
+  return perSecond;
+}
+
+async function main() {
+  await PDQ.init();
+
+  // A few distinct images so results are not cached anywhere
+  const images = makeImages(4);
+  console.log(`Hashing ${count} ${width}x${height} RGBA images\n`);
+
+  // Warm up both paths
+  run('warm-up', images, false);
+  PDQ.releaseScratch();
+
+  const fresh = run('allocate every call', images, true);
+  const reused = run('reuse scratch buffers', images, false);
+  PDQ.releaseScratch();
+
+  console.log(`\nSpeedup: ${(reused / fresh).toFixed(2)}x`);
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -5,6 +5,54 @@
 
 import { PDQ } from './pdq';
 import type { PDQHash, ImageData } from './types';
+import type { VPDQFrame } from './vpdq';
+import { groupSimilarHashes, type ClusteringMode } from './grouping';
+import { PDQIndex } from './pdq-index';
+import { MAX_DIMENSION } from './decoders/limits';
+import { hashHammingDistance, hexToHash, isValidHex } from './hash-utils';
+import type { PDQWorkerRequest, PDQWorkerResponse } from './worker-pool';
+
+export type { ClusteringMode } from './grouping';
+export {
+  createHashChecker,
+  createBatchHashChecker,
+  createSimilarityChecker,
+  LRUCacheStore,
+  HashLookupError,
+  HashLookupTimeoutError,
+  HashLookupRetryError,
+  CircuitOpenError,
+} from './hash-checker';
+export type {
+  HashLookupResult,
+  HashChecker,
+  CacheEntry,
+  CacheStore,
+  CacheSnapshot,
+  CacheOptions,
+  BatchHashLookup,
+  BatchHashCheckerOptions,
+  NearHashMatch,
+  NearLookup,
+  SimilarityLookupResult,
+  SimilarityCheckerOptions,
+  SimilarityChecker,
+  RetryOptions,
+  CircuitBreakerOptions,
+  FailurePolicy,
+} from './hash-checker';
+export { IndexedDBCacheStore } from './indexeddb-store';
+export type { IndexedDBCacheStoreOptions } from './indexeddb-store';
+export { PDQWorkerPool } from './worker-pool';
+export type {
+  PDQWorkerStatus,
+  PDQWorkerStats,
+  PDQWorkerPoolOptions,
+  PoolHashOptions,
+  HashAllProgress,
+  HashAllOptions,
+  PoolHashOutcome,
+} from './worker-pool';
 
 /**
  * Environment detection result
@@ -82,7 +130,7 @@ export function getEnvironment(): RuntimeEnvironment {
     recommendedAPI = supportsBlob ? 'generateHashFromBlob()' : 'generateHashFromDataUrl()';
   } else if (isNode) {
     type = 'node';
-    recommendedAPI = 'PDQ.hash() with image buffer';
+    recommendedAPI = 'hashFile() or hashBuffer() from pdq-wasm/node';
   } else {
     type = 'unknown';
     recommendedAPI = 'Unknown environment';
@@ -96,285 +144,10 @@ export function getEnvironment(): RuntimeEnvironment {
   };
 }
 
-/**
- * Result from a hash existence lookup
- */
-export interface HashLookupResult {
-  /** Whether the hash exists in the storage system */
-  exists: boolean;
-  /** Optional data associated with the existing hash */
-  existing?: any;
-}
-
-/**
- * Simple LRU (Least Recently Used) cache implementation
- * @internal
- */
-class LRUCache<K, V> {
-  private cache: Map<K, V>;
-  private maxSize: number;
-
-  constructor(maxSize: number) {
-    this.cache = new Map();
-    this.maxSize = maxSize;
-  }
-
-  get(key: K): V | undefined {
-    const value = this.cache.get(key);
-    if (value !== undefined) {
-      // Move to end (most recently used)
-      this.cache.delete(key);
-      this.cache.set(key, value);
-    }
-    return value;
-  }
-
-  set(key: K, value: V): void {
-    // Delete if exists to update position
-    this.cache.delete(key);
-
-    // Add to end (most recently used)
-    this.cache.set(key, value);
-
-    // Evict least recently used if over size
-    if (this.cache.size > this.maxSize) {
-      const firstKey = this.cache.keys().next().value;
-      if (firstKey !== undefined) {
-        this.cache.delete(firstKey);
-      }
-    }
-  }
-
-  has(key: K): boolean {
-    return this.cache.has(key);
-  }
-
-  delete(key: K): boolean {
-    return this.cache.delete(key);
-  }
-
-  clear(): void {
-    this.cache.clear();
-  }
-
-  get size(): number {
-    return this.cache.size;
-  }
-}
-
-/**
- * Hash checker function with optional chainable modifiers
- */
-export type HashChecker = ((hash: string) => Promise<HashLookupResult>) & {
-  /**
-   * Returns a new checker that gracefully handles invalid hashes
-   * Invalid hashes return `{ exists: false, existing: null }` instead of throwing
-   *
-   * @example
-   * ```typescript
-   * const checker = createHashChecker(lookup).ignoreInvalid();
-   *
-   * // Invalid hash - returns false instead of throwing
-   * const result = await checker('invalid'); // { exists: false, existing: null }
-   * ```
-   */
-  ignoreInvalid(): HashChecker;
-
-  /**
-   * Returns a new checker with result caching (memoization)
-   *
-   * @param ttl - Time-to-live in milliseconds (default: Infinity - cache forever)
-   * @param maxSize - Maximum number of entries to cache (default: 1000). Uses LRU eviction.
-   *
-   * @example
-   * ```typescript
-   * // Cache forever with default max size (1000 entries)
-   * const checker = createHashChecker(lookup).cached();
-   *
-   * // Cache with 5 minute expiration and custom max size
-   * const checker = createHashChecker(lookup).cached(5 * 60 * 1000, 500);
-   *
-   * // Cache with custom max size only (no TTL)
-   * const checker = createHashChecker(lookup).cached(Infinity, 100);
-   *
-   * // Clear cache when needed
-   * checker.clearCache?.();
-   * ```
-   */
-  cached(ttl?: number, maxSize?: number): HashChecker;
-
-  /**
-   * Clears the cache (only available on cached checkers)
-   */
-  clearCache?(): void;
-};
-
-/**
- * Options for createHashChecker internal state
- * @internal
- */
-interface CheckerOptions {
-  ignoreInvalid: boolean;
-  cached: boolean;
-  cache: LRUCache<string, { result: HashLookupResult; timestamp: number }>;
-  cacheTTL: number;
-  cacheMaxSize: number;
-}
-
-/**
- * Creates a hash existence checker with a custom lookup function
- * Supports fluent API for validation and caching behavior
- *
- * @param lookup - Function that checks if a hash exists in your storage system
- * @returns A hash checker function with chainable modifiers
- *
- * @example
- * ```typescript
- * // Simple checker - throws on invalid hash
- * const checkHash = createHashChecker(async (hash) => {
- *   const { data } = await supabase.rpc('check_hash_exists', { p_hash: hash });
- *   return data;
- * });
- *
- * const result = await checkHash(myHash);
- * ```
- *
- * @example
- * ```typescript
- * // With REST API
- * const checkHash = createHashChecker(async (hash) => {
- *   const response = await fetch(`/api/hashes/${hash}`);
- *   return response.json();
- * });
- * ```
- *
- * @example
- * ```typescript
- * // Gracefully ignore invalid hashes
- * const checkHash = createHashChecker(lookup).ignoreInvalid();
- *
- * // Invalid hash returns { exists: false } instead of throwing
- * const result = await checkHash('invalid-hash');
- * ```
- *
- * @example
- * ```typescript
- * // Cached with TTL
- * const checkHash = createHashChecker(lookup).cached(5 * 60 * 1000);
- *
- * // First call hits the database
- * await checkHash(hash1);
- *
- * // Second call within 5 minutes uses cached result
- * await checkHash(hash1);
- * ```
- *
- * @example
- * ```typescript
- * // Combined - ignore invalid + cached
- * const checkHash = createHashChecker(lookup)
- *   .ignoreInvalid()
- *   .cached(60 * 60 * 1000); // 1 hour cache
- *
- * // Clear cache when needed
- * checkHash.clearCache?.();
- * ```
- */
-export function createHashChecker(
-  lookup: (hash: string) => Promise<HashLookupResult>
-): HashChecker {
-  return createCheckerWithOptions(lookup, {
-    ignoreInvalid: false,
-    cached: false,
-    cache: new LRUCache(1000), // Default max size
-    cacheTTL: Infinity,
-    cacheMaxSize: 1000
-  });
-}
-
-/**
- * Internal function to create checker with specific options
- * @internal
- */
-function createCheckerWithOptions(
-  lookup: (hash: string) => Promise<HashLookupResult>,
-  options: CheckerOptions
-): HashChecker {
-  const checker = async (hash: string): Promise<HashLookupResult> => {
-    // Validate hash format (PDQ hashes are 64 hex characters)
-    const isValid = typeof hash === 'string' &&
-                   hash.length === 64 &&
-                   /^[0-9a-f]{64}$/i.test(hash);
-
-    if (!isValid) {
-      if (options.ignoreInvalid) {
-        return { exists: false, existing: null };
-      }
-      throw new Error('Invalid PDQ hash: must be 64 hexadecimal characters');
-    }
-
-    // Normalize hash to lowercase for cache key consistency
-    const normalizedHash = hash.toLowerCase();
-
-    // Check cache if enabled
-    if (options.cached && options.cache.has(normalizedHash)) {
-      const cached = options.cache.get(normalizedHash)!;
-      const age = Date.now() - cached.timestamp;
-
-      if (age < options.cacheTTL) {
-        return cached.result;
-      }
-      // Expired, remove it
-      options.cache.delete(normalizedHash);
-    }
-
-    // Perform lookup
-    const result = await lookup(normalizedHash);
-
-    // Store in cache if enabled
-    if (options.cached) {
-      options.cache.set(normalizedHash, {
-        result,
-        timestamp: Date.now()
-      });
-    }
-
-    return result;
-  };
-
-  // Attach chainable methods (cast once for type safety)
-  const hashChecker = checker as HashChecker;
-
-  hashChecker.ignoreInvalid = () => {
-    return createCheckerWithOptions(lookup, {
-      ...options,
-      ignoreInvalid: true
-    });
-  };
-
-  hashChecker.cached = (ttl: number = Infinity, maxSize: number = 1000) => {
-    return createCheckerWithOptions(lookup, {
-      ...options,
-      cached: true,
-      cacheTTL: ttl,
-      cache: new LRUCache(maxSize),
-      cacheMaxSize: maxSize
-    });
-  };
-
-  // Add cache management for cached checkers
-  if (options.cached) {
-    hashChecker.clearCache = () => {
-      options.cache.clear();
-    };
-  }
-
-  return hashChecker;
-}
-
 /**
  * Calculate Hamming distance between two PDQ hash strings (hex format)
- * Convenience wrapper around PDQ.hammingDistance that works with hex strings
+ * Convenience wrapper around PDQ.hammingDistance that works with hex strings.
+ * Does not require PDQ.init() - no WASM is involved.
  *
  * @param hash1 - First PDQ hash (64 hex characters)
  * @param hash2 - Second PDQ hash (64 hex characters)
@@ -412,13 +185,71 @@ export function hammingDistance(hash1: string, hash2: string): number {
 
 /**
  * Image data structure for PDQ hashing
- * Note: RGBA data from canvas is automatically converted to RGB internally
+ * Same as {@link ImageData}: RGBA data from canvas is passed as `channels: 4`
+ * without conversion, with `pixelFormat` for BGRA or ARGB sources.
  */
-export interface PDQImageData {
-  data: Uint8Array;
+export type PDQImageData = ImageData;
+
+/**
+ * Detailed result of hashing an image blob or URL
+ */
+export interface ImageHashResult {
+  /** PDQ hash bytes */
+  hash: PDQHash;
+  /** PDQ hash (64 hex characters) */
+  hex: string;
+  /** Quality metric (0-100); low-detail images below ~50 match unreliably */
+  quality: number;
+  /** Decoded image width in pixels */
   width: number;
+  /** Decoded image height in pixels */
   height: number;
-  channels: 1 | 3;
+  /** Milliseconds spent decoding and extracting pixels */
+  decodeMs: number;
+  /** Milliseconds spent in PDQ hashing */
+  hashMs: number;
+}
+
+/**
+ * High-resolution timestamp in milliseconds
+ * @internal
+ */
+function now(): number {
+  return typeof performance !== 'undefined' ? performance.now() : Date.now();
+}
+
+/**
+ * Hash canvas RGBA pixels and build a detailed result
+ * @internal
+ */
+function hashCanvasPixels(
+  rgba: Uint8ClampedArray,
+  width: number,
+  height: number,
+  decodeStart: number
+): ImageHashResult {
+  // The WASM module reads RGBA directly; alpha is ignored
+  const pdqImageData: ImageData = {
+    data: rgba,
+    width,
+    height,
+    channels: 4,
+    pixelFormat: 'rgba'
+  };
+
+  const hashStart = now();
+  const result = PDQ.hash(pdqImageData);
+  const hashEnd = now();
+
+  return {
+    hash: result.hash,
+    hex: PDQ.toHex(result.hash),
+    quality: result.quality,
+    width,
+    height,
+    decodeMs: hashStart - decodeStart,
+    hashMs: hashEnd - hashStart
+  };
 }
 
 /**
@@ -476,6 +307,34 @@ export interface PDQImageData {
  * ```
  */
 export async function generateHashFromBlob(blob: Blob): Promise<string> {
+  const result = await generateHashResultFromBlob(blob);
+  return result.hex;
+}
+
+/**
+ * Generate a PDQ hash from a Blob or File along with quality, dimensions and timing
+ *
+ * Same decoding path and browser requirements as {@link generateHashFromBlob},
+ * which returns only the hex hash.
+ *
+ * @param blob Image blob or file
+ * @returns Hash, quality, image dimensions and decode/hash timings
+ * @throws {Error} If createImageBitmap or OffscreenCanvas unavailable
+ * @throws {Error} If image fails to decode or has invalid dimensions
+ * @throws {Error} If image exceeds maximum dimension limit (10,000px)
+ *
+ * @example
+ * ```typescript
+ * const result = await generateHashResultFromBlob(file);
+ * if (result.quality < 50) {
+ *   console.warn(`${file.name} has too little detail for reliable matching`);
+ * }
+ * console.log(`${result.width}x${result.height} decoded in ${result.decodeMs.toFixed(1)}ms`);
+ * ```
+ */
+export async function generateHashResultFromBlob(blob: Blob): Promise<ImageHashResult> {
+  const decodeStart = now();
+
   // Check if createImageBitmap is available (works in both browsers and workers)
   if (typeof createImageBitmap === 'undefined') {
     throw new Error(
@@ -512,7 +371,6 @@ export async function generateHashFromBlob(blob: Blob): Promise<string> {
   }
 
   // Add size limits to prevent DOS attacks via huge images
-  const MAX_DIMENSION = 10000; // 10,000 pixels max on any side
   if (imageBitmap.width > MAX_DIMENSION || imageBitmap.height > MAX_DIMENSION) {
     imageBitmap.close();
     throw new Error(
@@ -539,26 +397,8 @@ export async function generateHashFromBlob(blob: Blob): Promise<string> {
     // Get image data (RGBA format)
     const imageData = ctx.getImageData(0, 0, imageBitmap.width, imageBitmap.height);
 
-    // Convert RGBA to RGB (PDQ only supports RGB or grayscale)
-    const rgbData = new Uint8Array(imageBitmap.width * imageBitmap.height * 3);
-    for (let i = 0, j = 0; i < imageData.data.length; i += 4, j += 3) {
-      rgbData[j] = imageData.data[i];       // R
-      rgbData[j + 1] = imageData.data[i + 1]; // G
-      rgbData[j + 2] = imageData.data[i + 2]; // B
-      // Skip alpha channel
-    }
-
-    // Prepare PDQ image data structure
-    const pdqImageData: ImageData = {
-      data: rgbData,
-      width: imageBitmap.width,
-      height: imageBitmap.height,
-      channels: 3 // RGB
-    };
-
     // Generate PDQ hash
-    const result = PDQ.hash(pdqImageData);
-    return PDQ.toHex(result.hash);
+    return hashCanvasPixels(imageData.data, imageBitmap.width, imageBitmap.height, decodeStart);
   } finally {
     // Clean up the ImageBitmap (check if close() exists for compatibility)
     if (typeof imageBitmap.close === 'function') {
@@ -567,6 +407,59 @@ export async function generateHashFromBlob(blob: Blob): Promise<string> {
   }
 }
 
+/**
+ * Handle {@link PDQWorkerPool} requests in the current Web Worker
+ *
+ * Call once from the worker script passed to `PDQWorkerPool`. The pool sends
+ * the WASM URLs, the worker initializes with {@link PDQ.initWorker}, and each
+ * Blob is hashed with {@link generateHashResultFromBlob}.
+ *
+ * A WebAssembly trap is rethrown as an uncaught error instead of being
+ * reported as a failed file, so the pool replaces the worker (whose WASM
+ * state is no longer usable) and retries the file.
+ *
+ * @example
+ * ```typescript
+ * // pdq-worker.js
+ * import { servePDQWorker } from 'pdq-wasm/browser';
+ * servePDQWorker();
+ * ```
+ */
+export function servePDQWorker(): void {
+  // The DOM lib types `self` as a Window; in a dedicated worker it is the worker scope
+  const scope = self as unknown as {
+    addEventListener(type: 'message', listener: (event: MessageEvent<PDQWorkerRequest>) => void): void;
+    postMessage(message: PDQWorkerResponse): void;
+  };
+
+  scope.addEventListener('message', async (event) => {
+    const request = event.data;
+
+    if (request.type === 'init') {
+      try {
+        await PDQ.initWorker({ wasmUrl: request.wasmUrl, wasmJsUrl: request.wasmJsUrl });
+        scope.postMessage({ type: 'ready' });
+      } catch (error) {
+        scope.postMessage({ type: 'init-error', error: error instanceof Error ? error.message : String(error) });
+      }
+      return;
+    }
+
+    if (request.type === 'hash') {
+      try {
+        const result = await generateHashResultFromBlob(request.blob);
+        scope.postMessage({ type: 'hash-result', id: request.id, result });
+      } catch (error) {
+        if (typeof WebAssembly !== 'undefined' && error instanceof WebAssembly.RuntimeError) {
+          setTimeout(() => { throw error; });
+          return;
+        }
+        scope.postMessage({ type: 'hash-error', id: request.id, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+  });
+}
+
 /**
  * Generate PDQ perceptual hash from an image data URL or blob URL
  *
@@ -629,6 +522,34 @@ export async function generateHashFromDataUrl(
   dataUrl: string,
   autoRevoke: boolean = false
 ): Promise<string> {
+  const result = await generateHashResultFromDataUrl(dataUrl, autoRevoke);
+  return result.hex;
+}
+
+/**
+ * Generate a PDQ hash from a data URL or blob URL along with quality, dimensions and timing
+ *
+ * Same loading path and main-thread requirement as {@link generateHashFromDataUrl},
+ * which returns only the hex hash. `decodeMs` includes the time to load the image.
+ *
+ * @param dataUrl - Image data URL (data:image/...) or blob URL (blob:...)
+ * @param autoRevoke - Automatically revoke blob URLs after processing (default: false)
+ * @returns Promise resolving to hash, quality, image dimensions and decode/hash timings
+ *
+ * @throws Error if called in non-browser main thread environment (e.g., Web Worker, Node.js)
+ * @throws Error if image fails to load
+ * @throws Error if canvas context cannot be obtained
+ *
+ * @example
+ * ```typescript
+ * const { hex, quality } = await generateHashResultFromDataUrl(file.preview);
+ * console.log(`${hex} (quality ${quality})`);
+ * ```
+ */
+export async function generateHashResultFromDataUrl(
+  dataUrl: string,
+  autoRevoke: boolean = false
+): Promise<ImageHashResult> {
   // Check if we're in a browser environment using the centralized environment detection
   const env = getEnvironment();
 
@@ -638,7 +559,7 @@ export async function generateHashFromDataUrl(
       (env.type === 'worker'
         ? 'For Web Workers, use generateHashFromBlob() instead, which uses worker-compatible APIs (createImageBitmap + OffscreenCanvas). ' +
           'Example: const hash = await generateHashFromBlob(file);'
-        : 'For Node.js, use the core PDQ API with image buffers. ') +
+        : 'For Node.js, use hashFile() or hashBuffer() from pdq-wasm/node. ') +
       'See examples/worker/README.md for more details.'
     );
   }
@@ -647,6 +568,8 @@ export async function generateHashFromDataUrl(
   const isBlobUrl = dataUrl.startsWith('blob:');
   const shouldRevoke = isBlobUrl && autoRevoke;
 
+  const decodeStart = now();
+
   return new Promise((resolve, reject) => {
     const img = new Image();
     img.crossOrigin = 'anonymous';
@@ -675,33 +598,15 @@ export async function generateHashFromDataUrl(
         // Get image data (RGBA format from canvas)
         const imageData = ctx.getImageData(0, 0, img.width, img.height);
 
-        // Convert RGBA to RGB (PDQ only supports RGB or grayscale)
-        const rgbData = new Uint8Array(img.width * img.height * 3);
-        for (let i = 0, j = 0; i < imageData.data.length; i += 4, j += 3) {
-          rgbData[j] = imageData.data[i];       // R
-          rgbData[j + 1] = imageData.data[i + 1]; // G
-          rgbData[j + 2] = imageData.data[i + 2]; // B
-          // Skip alpha channel
-        }
-
-        // Prepare PDQ image data structure
-        const pdqImageData: ImageData = {
-          data: rgbData,
-          width: img.width,
-          height: img.height,
-          channels: 3 // RGB
-        };
-
         // Generate PDQ hash
-        const result = PDQ.hash(pdqImageData);
-        const hexHash = PDQ.toHex(result.hash);
+        const result = hashCanvasPixels(imageData.data, img.width, img.height, decodeStart);
 
         // Revoke blob URL after successful processing if enabled
         if (shouldRevoke) {
           URL.revokeObjectURL(dataUrl);
         }
 
-        resolve(hexHash);
+        resolve(result);
       } catch (error) {
         // Revoke blob URL on error if auto-revoke enabled
         if (shouldRevoke) {
@@ -735,12 +640,19 @@ export interface FileWithHash {
   preview: string;
   /** MIME type */
   type: string;
+  /**
+   * Image data to hash instead of `preview`
+   * Blobs are decoded with createImageBitmap, so they also work inside Web Workers.
+   */
+  file?: Blob;
   /** Optional metadata including hash information */
   meta?: {
     /** PDQ hash (64 hex characters) or null if hashing failed */
     hash?: string | null;
     /** Error message if hashing failed */
     hashError?: string;
+    /** PDQ quality metric (0-100) of the hash */
+    quality?: number;
     /** Whether file is selected */
     isSelected?: boolean;
     /** File location */
@@ -769,13 +681,59 @@ export interface DetectionProgress {
  */
 export type ProgressCallback = (progress: DetectionProgress) => void;
 
+/**
+ * Options for {@link detectDuplicatesByHash}
+ */
+export interface DetectDuplicatesOptions {
+  /** Hamming distance threshold for duplicates (default: 31, PDQ recommended) */
+  threshold?: number;
+  /** Optional callback for progress updates */
+  onProgress?: ProgressCallback;
+  /**
+   * Minimum quality for a hash to take part in grouping (default: 0)
+   * Files below the cutoff keep their hash and quality in `meta` but are never grouped.
+   */
+  minQuality?: number;
+  /**
+   * How near-duplicates are combined into groups (default: 'greedy')
+   * See {@link ClusteringMode}; 'connected-components' keeps A~B~C chains together
+   * and does not depend on file order.
+   */
+  clustering?: ClusteringMode;
+  /**
+   * Maximum number of images decoded and hashed at once (default: 4)
+   * Pass `Infinity` to start every file at once.
+   */
+  concurrency?: number;
+  /**
+   * Cancels the run. Files already being hashed are allowed to finish, no new
+   * ones are started, and the promise resolves with groups among the files
+   * hashed so far.
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * A group of duplicate files, with the largest Hamming distance between any two members
+ * Still a `FileWithHash[]`, so existing code that iterates groups keeps working.
+ */
+export type DuplicateGroup = FileWithHash[] & { maxDistance: number };
+
 /**
  * Detect duplicate images by comparing PDQ perceptual hashes
  * Generates hashes for all images and finds groups of similar images
  *
- * @param files - Array of files with preview URLs
- * @param threshold - Hamming distance threshold for duplicates (default: 31, PDQ recommended)
- * @param onProgress - Optional callback for progress updates
+ * Each hashed file gets `meta.hash` and `meta.quality`. Pass an options object
+ * with `minQuality` to keep low-detail images (blank, solid-colour or tiny
+ * images, whose hashes collide easily) out of the groups.
+ *
+ * Files with a `file` Blob, and plain `Blob`/`File` entries, are hashed with
+ * {@link generateHashResultFromBlob}, which does not need the DOM. Plain blobs
+ * are wrapped in a `FileWithHash` whose `id` is their index in `files`.
+ *
+ * @param files - Array of files with preview URLs or Blob sources, or plain Blobs/Files
+ * @param thresholdOrOptions - Hamming distance threshold (default: 31, PDQ recommended) or an options object
+ * @param onProgress - Optional callback for progress updates (ignored when an options object is passed)
  * @returns Promise resolving to array of duplicate groups
  *
  * @example
@@ -812,16 +770,51 @@ export type ProgressCallback = (progress: DetectionProgress) => void;
  * // Custom threshold (more strict)
  * const duplicates = await detectDuplicatesByHash(files, 15);
  * ```
+ *
+ * @example
+ * ```typescript
+ * // Options object with a quality cutoff
+ * const duplicates = await detectDuplicatesByHash(files, {
+ *   threshold: 31,
+ *   minQuality: 50,
+ *   onProgress: (progress) => updateProgressBar(progress)
+ * });
+ * ```
+ *
+ * @example
+ * ```typescript
+ * // File objects from an <input type="file">, cancellable from a button
+ * const controller = new AbortController();
+ * cancelButton.onclick = () => controller.abort();
+ *
+ * const duplicates = await detectDuplicatesByHash([...input.files], {
+ *   concurrency: 2,
+ *   signal: controller.signal
+ * });
+ * ```
  */
 export async function detectDuplicatesByHash(
-  files: FileWithHash[],
-  threshold: number = 31,
+  files: Array<FileWithHash | Blob>,
+  thresholdOrOptions: number | DetectDuplicatesOptions = 31,
   onProgress?: ProgressCallback
-): Promise<FileWithHash[][]> {
+): Promise<DuplicateGroup[]> {
+  const options: DetectDuplicatesOptions = typeof thresholdOrOptions === 'number'
+    ? { threshold: thresholdOrOptions, onProgress }
+    : thresholdOrOptions;
+  const threshold = options.threshold ?? 31;
+  const minQuality = options.minQuality ?? 0;
+  const concurrency = options.concurrency ?? 4;
+  const { signal } = options;
+  onProgress = options.onProgress;
+
+  if (concurrency !== Infinity && (!Number.isInteger(concurrency) || concurrency < 1)) {
+    throw new Error(`Invalid concurrency: ${concurrency}. Must be a positive integer or Infinity`);
+  }
+
   // Filter only image files
-  const imageFiles = files.filter(file =>
-    file.type.startsWith('image/') && file.preview
-  );
+  const imageFiles = files
+    .map((file, index) => (isBlob(file) ? blobToFileWithHash(file, index) : file))
+    .filter(file => file.type.startsWith('image/') && (file.file || file.preview));
 
   if (imageFiles.length < 2) {
     return [];
@@ -831,13 +824,18 @@ export async function detectDuplicatesByHash(
   let processedFiles = 0;
   let duplicatesFound = 0;
 
-  // Generate hashes for all images, tracking any errors
-  const filesWithHashes = await Promise.all(
-    imageFiles.map(async (file) => {
-      const newMeta: { hash: string | null; hashError?: string } = { hash: null };
+  // Generate hashes, a few images at a time, tracking any errors.
+  // Entries stay undefined for files never started because the run was aborted.
+  const hashedFiles = await mapWithConcurrency(imageFiles, concurrency, signal,
+    async (file) => {
+      const newMeta: { hash: string | null; hashError?: string; quality?: number } = { hash: null };
 
       try {
-        newMeta.hash = await generateHashFromDataUrl(file.preview);
+        const result = file.file
+          ? await generateHashResultFromBlob(file.file)
+          : await generateHashResultFromDataUrl(file.preview);
+        newMeta.hash = result.hex;
+        newMeta.quality = result.quality;
       } catch (error) {
         newMeta.hashError = error instanceof Error ? error.message : String(error);
       }
@@ -861,59 +859,591 @@ export async function detectDuplicatesByHash(
           ...newMeta
         }
       };
-    })
+    }
   );
+  const filesWithHashes = hashedFiles.filter((file): file is NonNullable<typeof file> => file !== undefined);
 
   // Find duplicates by comparing hashes
-  const duplicateGroups: FileWithHash[][] = [];
-  const processed = new Set<string>();
+  const hashes = filesWithHashes.map(file =>
+    file.meta.hash && (file.meta.quality ?? 0) >= minQuality ? PDQ.fromHex(file.meta.hash) : null
+  );
+  const duplicateGroups: DuplicateGroup[] = [];
+
+  for (const { indices, maxDistance } of groupSimilarHashes(hashes, threshold, options.clustering)) {
+    duplicateGroups.push(Object.assign(indices.map(i => filesWithHashes[i]), { maxDistance }));
+    duplicatesFound += indices.length;
+
+    // Report updated duplicate count
+    if (onProgress) {
+      onProgress({
+        totalFiles: imageFiles.length,
+        processedFiles,
+        currentFile: '',
+        duplicatesFound
+      });
+    }
+  }
 
-  for (let i = 0; i < filesWithHashes.length; i++) {
-    const file1 = filesWithHashes[i];
-    if (!file1.meta?.hash || processed.has(file1.id)) continue;
+  // Final progress report
+  if (onProgress) {
+    onProgress({
+      totalFiles: imageFiles.length,
+      processedFiles,
+      currentFile: '',
+      duplicatesFound
+    });
+  }
 
-    const group = [file1];
-    processed.add(file1.id);
+  return duplicateGroups;
+}
 
-    for (let j = i + 1; j < filesWithHashes.length; j++) {
-      const file2 = filesWithHashes[j];
-      if (!file2.meta?.hash || processed.has(file2.id)) continue;
+/**
+ * Check for a Blob source (Blob may be undefined in old runtimes)
+ * @internal
+ */
+function isBlob(value: FileWithHash | Blob): value is Blob {
+  return typeof Blob !== 'undefined' && value instanceof Blob;
+}
 
-      // Calculate PDQ hamming distance (synchronous - no I/O)
-      const distance = hammingDistance(file1.meta.hash, file2.meta.hash);
+/**
+ * Wrap a plain Blob or File so it can be hashed and grouped like any other file
+ * @internal
+ */
+function blobToFileWithHash(blob: Blob, index: number): FileWithHash {
+  const name = (blob as File).name;
+  return {
+    id: String(index),
+    name: typeof name === 'string' ? name : `blob-${index}`,
+    preview: '',
+    type: blob.type,
+    file: blob
+  };
+}
 
-      if (distance <= threshold) {
-        group.push(file2);
-        processed.add(file2.id);
-      }
+/**
+ * Run an async task over items with at most `concurrency` in flight
+ *
+ * Once `signal` is aborted no new items are started; the returned promise
+ * still waits for in-flight tasks so their resources are released, and
+ * resolves with `undefined` for items that never ran.
+ * @internal
+ */
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  signal: AbortSignal | undefined,
+  task: (item: T) => Promise<R>
+): Promise<Array<R | undefined>> {
+  const results: Array<R | undefined> = new Array(items.length);
+  let next = 0;
+
+  const worker = async (): Promise<void> => {
+    while (next < items.length && !signal?.aborted) {
+      const index = next++;
+      results[index] = await task(items[index]);
     }
+  };
+
+  const workers = Math.min(concurrency, items.length);
+  await Promise.all(Array.from({ length: workers }, worker));
+  return results;
+}
 
-    // Only add groups with duplicates
-    if (group.length > 1) {
-      duplicateGroups.push(group);
-      duplicatesFound += group.length;
+/**
+ * Options for {@link DuplicateDetector}
+ */
+export interface DuplicateDetectorOptions {
+  /** Hamming distance threshold for duplicates (default: 31, PDQ recommended) */
+  threshold?: number;
+  /**
+   * Minimum quality for a hash to take part in grouping (default: 0)
+   * Files below the cutoff are tracked but never grouped.
+   */
+  minQuality?: number;
+}
 
-      // Report updated duplicate count
-      if (onProgress) {
-        onProgress({
-          totalFiles: imageFiles.length,
-          processedFiles: imageFiles.length,
-          currentFile: '',
-          duplicatesFound
+/**
+ * A group tracked by {@link DuplicateDetector}
+ * `id` stays the same while the group gains members, absorbs other groups or loses members.
+ */
+export type DuplicateDetectorGroup = DuplicateGroup & { id: number };
+
+/**
+ * Events emitted by {@link DuplicateDetector}, keyed by event name
+ */
+export interface DuplicateDetectorEvents {
+  /** A file was hashed; `file.meta` holds its hash and quality */
+  'file-hashed': { file: FileWithHash };
+  /** A file could not be hashed and was not added; `file.meta.hashError` holds the message */
+  'file-error': { file: FileWithHash; error: string };
+  /** Previously ungrouped files formed a new group */
+  'group-created': { group: DuplicateDetectorGroup };
+  /** A group gained or lost members */
+  'group-updated': { group: DuplicateDetectorGroup };
+  /** A new file linked existing groups, which were folded into `group` (the oldest of them) */
+  'group-merged': { group: DuplicateDetectorGroup; mergedIds: number[] };
+  /** A group fell below two members after a removal */
+  'group-removed': { id: number };
+}
+
+/**
+ * Listener for a {@link DuplicateDetector} event
+ */
+export type DuplicateDetectorListener<E extends keyof DuplicateDetectorEvents> =
+  (event: DuplicateDetectorEvents[E]) => void;
+
+/**
+ * Members of a DuplicateDetector group and their largest pairwise distance
+ * @internal
+ */
+interface DetectorGroupState {
+  members: Set<string>;
+  maxDistance: number;
+}
+
+/**
+ * File tracked by a DuplicateDetector
+ * @internal
+ */
+interface DetectorEntry {
+  file: FileWithHash;
+  hash: PDQHash;
+  /** Position in add order, used to order group members */
+  order: number;
+  /** PDQIndex entry id, or null when below minQuality */
+  indexId: number | null;
+  groupId: number | null;
+}
+
+/**
+ * Incremental duplicate detection for files that arrive one at a time
+ *
+ * Unlike {@link detectDuplicatesByHash}, which compares every pair on each
+ * call, the detector keeps hashes in a {@link PDQIndex}, so adding a file
+ * costs one index lookup. Groups are connected components: files linked by
+ * any chain of pairs within the threshold share a group, the same result as
+ * the `'connected-components'` clustering mode regardless of add order.
+ *
+ * Files that already carry `meta.hash` are not hashed again. Other files are
+ * hashed from `file` (a Blob) or `preview`, like {@link detectDuplicatesByHash}.
+ *
+ * @example
+ * ```typescript
+ * const detector = new DuplicateDetector({ threshold: 31 });
+ *
+ * detector.on('group-created', ({ group }) => showGroup(group));
+ * detector.on('group-updated', ({ group }) => showGroup(group));
+ * detector.on('group-merged', ({ group, mergedIds }) => {
+ *   mergedIds.forEach(hideGroup);
+ *   showGroup(group);
+ * });
+ * detector.on('group-removed', ({ id }) => hideGroup(id));
+ * detector.on('file-error', ({ file, error }) => console.warn(file.name, error));
+ *
+ * input.addEventListener('change', async () => {
+ *   for (const file of input.files) {
+ *     const group = await detector.add({ id: crypto.randomUUID(), name: file.name, preview: '', type: file.type, file });
+ *     if (group) console.log(`${file.name} is a duplicate`);
+ *   }
+ * });
+ * ```
+ */
+export class DuplicateDetector {
+  private readonly threshold: number;
+  private readonly minQuality: number;
+  private readonly index = new PDQIndex<string>();
+  private readonly entries = new Map<string, DetectorEntry>();
+  /**
+   * Token of each add() still hashing, by file id
+   * remove() drops the token, so the hash is discarded when it arrives, even
+   * if a new add() with the same id started in the meantime.
+   */
+  private readonly pending = new Map<string, symbol>();
+  private readonly groupStates = new Map<number, DetectorGroupState>();
+  private readonly listeners = new Map<keyof DuplicateDetectorEvents, Set<(event: never) => void>>();
+  private nextOrder = 0;
+  private nextGroupId = 1;
+
+  /**
+   * @param options Threshold and quality cutoff
+   * @throws {Error} If threshold is not an integer between 0 and 256
+   */
+  constructor(options: DuplicateDetectorOptions = {}) {
+    this.threshold = options.threshold ?? 31;
+    this.minQuality = options.minQuality ?? 0;
+
+    if (!Number.isInteger(this.threshold) || this.threshold < 0 || this.threshold > 256) {
+      throw new Error(`Invalid threshold: ${this.threshold}. Must be an integer between 0 and 256`);
+    }
+  }
+
+  /** Number of files tracked, not counting files still being hashed */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Subscribe to an event
+   * @param event Event name
+   * @param listener Called synchronously with the event data
+   * @returns Function that removes the listener
+   */
+  on<E extends keyof DuplicateDetectorEvents>(event: E, listener: DuplicateDetectorListener<E>): () => void {
+    let listeners = this.listeners.get(event);
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(event, listeners);
+    }
+    listeners.add(listener);
+    return () => this.off(event, listener);
+  }
+
+  /**
+   * Remove a listener added with {@link DuplicateDetector#on}
+   */
+  off<E extends keyof DuplicateDetectorEvents>(event: E, listener: DuplicateDetectorListener<E>): void {
+    this.listeners.get(event)?.delete(listener);
+  }
+
+  /**
+   * Hash a file if needed and add it to the detector
+   *
+   * @param file File to add; `id` must be unique among tracked files
+   * @returns The group the file joined, or null if it has no duplicates, could not be hashed or was removed while hashing
+   * @throws {Error} If a file with the same id was already added
+   */
+  async add(file: FileWithHash): Promise<DuplicateDetectorGroup | null> {
+    if (this.entries.has(file.id) || this.pending.has(file.id)) {
+      throw new Error(`File already added: ${file.id}`);
+    }
+
+    const token = Symbol(file.id);
+    this.pending.set(file.id, token);
+    let tracked = file;
+    let hash: PDQHash | null;
+
+    try {
+      if (file.meta?.hash) {
+        if (!isValidHex(file.meta.hash)) {
+          throw new Error(`Invalid hash: ${file.meta.hash}. Must be 64 hex characters`);
+        }
+        hash = hexToHash(file.meta.hash)!;
+      } else {
+        const result = file.file
+          ? await generateHashResultFromBlob(file.file)
+          : await generateHashResultFromDataUrl(file.preview);
+        hash = result.hash;
+        tracked = { ...file, meta: { ...file.meta, hash: result.hex, quality: result.quality } };
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (this.pending.get(file.id) === token) {
+        this.pending.delete(file.id);
+        this.emit('file-error', {
+          file: { ...file, meta: { ...file.meta, hash: null, hashError: message } },
+          error: message
         });
       }
+      return null;
     }
+
+    if (this.pending.get(file.id) !== token) {
+      return null;
+    }
+    this.pending.delete(file.id);
+    if (tracked !== file) {
+      this.emit('file-hashed', { file: tracked });
+    }
+
+    return this.insert(tracked, hash);
   }
 
-  // Final progress report
-  if (onProgress) {
-    onProgress({
-      totalFiles: imageFiles.length,
-      processedFiles: imageFiles.length,
-      currentFile: '',
-      duplicatesFound
+  /**
+   * Stop tracking a file
+   * Its group shrinks, splits into smaller groups or is removed, as the remaining links allow.
+   *
+   * @param id Id of the file to remove
+   * @returns True if the file was tracked or being hashed
+   */
+  remove(id: string): boolean {
+    if (this.pending.delete(id)) {
+      return true;
+    }
+
+    const entry = this.entries.get(id);
+    if (!entry) {
+      return false;
+    }
+
+    this.entries.delete(id);
+    if (entry.indexId !== null) {
+      this.index.remove(entry.indexId);
+    }
+    if (entry.groupId !== null) {
+      this.regroup(entry.groupId, id);
+    }
+    return true;
+  }
+
+  /**
+   * Current duplicate groups, ordered by their earliest-added member
+   * Members are listed in the order they were added.
+   */
+  groups(): DuplicateDetectorGroup[] {
+    return Array.from(this.groupStates.keys(), id => this.snapshot(id))
+      .sort((a, b) => this.entries.get(a[0].id)!.order - this.entries.get(b[0].id)!.order);
+  }
+
+  /**
+   * Index a hashed file and join, create or merge groups with its neighbours
+   * @internal
+   */
+  private insert(file: FileWithHash, hash: PDQHash): DuplicateDetectorGroup | null {
+    const entry: DetectorEntry = { file, hash, order: this.nextOrder++, indexId: null, groupId: null };
+
+    if ((file.meta?.quality ?? 0) < this.minQuality) {
+      this.entries.set(file.id, entry);
+      return null;
+    }
+
+    // Touch the index first so a rejected hash leaves no entry behind
+    const neighbours = this.index.search(hash, this.threshold).map(match => this.entries.get(match.payload!)!);
+    entry.indexId = this.index.add(hash, file.id);
+    this.entries.set(file.id, entry);
+
+    if (neighbours.length === 0) {
+      return null;
+    }
+
+    const joining = [entry, ...neighbours.filter(neighbour => neighbour.groupId === null)];
+    const groupIds = Array.from(new Set(neighbours.map(neighbour => neighbour.groupId)))
+      .filter((id): id is number => id !== null)
+      .sort((a, b) => a - b);
+
+    if (groupIds.length === 0) {
+      const id = this.nextGroupId++;
+      this.assign(id, joining);
+      const group = this.snapshot(id);
+      this.emit('group-created', { group });
+      return group;
+    }
+
+    const [id, ...mergedIds] = groupIds;
+    for (const mergedId of mergedIds) {
+      const merged = this.groupStates.get(mergedId)!;
+      this.groupStates.delete(mergedId);
+      this.assign(id, Array.from(merged.members, memberId => this.entries.get(memberId)!), merged.maxDistance);
+    }
+    this.assign(id, joining);
+
+    const group = this.snapshot(id);
+    if (mergedIds.length > 0) {
+      this.emit('group-merged', { group, mergedIds });
+    } else {
+      this.emit('group-updated', { group });
+    }
+    return group;
+  }
+
+  /**
+   * Split a group that lost a member into its remaining connected components
+   * The first component keeps the group id; any others become new groups.
+   * @internal
+   */
+  private regroup(groupId: number, removedId: string): void {
+    const { members } = this.groupStates.get(groupId)!;
+    members.delete(removedId);
+    this.groupStates.delete(groupId);
+
+    const remaining = Array.from(members, id => this.entries.get(id)!).sort((a, b) => a.order - b.order);
+    remaining.forEach(entry => { entry.groupId = null; });
+
+    const components = groupSimilarHashes(remaining.map(entry => entry.hash), this.threshold, 'connected-components');
+    if (components.length === 0) {
+      this.emit('group-removed', { id: groupId });
+      return;
+    }
+
+    components.forEach(({ indices, maxDistance }, i) => {
+      const id = i === 0 ? groupId : this.nextGroupId++;
+      this.assign(id, indices.map(index => remaining[index]), maxDistance);
+      const group = this.snapshot(id);
+      if (i === 0) {
+        this.emit('group-updated', { group });
+      } else {
+        this.emit('group-created', { group });
+      }
     });
   }
 
-  return duplicateGroups;
+  /**
+   * Add entries to a group, creating it if needed, and update its maxDistance
+   * Each entry is compared with the members already present, so a single new
+   * file costs O(m). Pass `entriesMaxDistance` when the distances among the
+   * entries themselves are already known (a merged group or a component),
+   * which skips comparing them with each other.
+   * @internal
+   */
+  private assign(groupId: number, entries: DetectorEntry[], entriesMaxDistance?: number): void {
+    let group = this.groupStates.get(groupId);
+    if (!group) {
+      group = { members: new Set(), maxDistance: 0 };
+      this.groupStates.set(groupId, group);
+    }
+
+    const compared = Array.from(group.members, id => this.entries.get(id)!.hash);
+    let maxDistance = Math.max(group.maxDistance, entriesMaxDistance ?? 0);
+    for (const entry of entries) {
+      for (const hash of compared) {
+        maxDistance = Math.max(maxDistance, hashHammingDistance(entry.hash, hash));
+      }
+      if (entriesMaxDistance === undefined) {
+        compared.push(entry.hash);
+      }
+      entry.groupId = groupId;
+      group.members.add(entry.file.id);
+    }
+    group.maxDistance = maxDistance;
+  }
+
+  /**
+   * Build the public view of a group
+   * @internal
+   */
+  private snapshot(groupId: number): DuplicateDetectorGroup {
+    const { members, maxDistance } = this.groupStates.get(groupId)!;
+    const entries = Array.from(members, id => this.entries.get(id)!).sort((a, b) => a.order - b.order);
+    return Object.assign(entries.map(entry => entry.file), { id: groupId, maxDistance });
+  }
+
+  /**
+   * Call the listeners for an event
+   * @internal
+   */
+  private emit<E extends keyof DuplicateDetectorEvents>(event: E, data: DuplicateDetectorEvents[E]): void {
+    const listeners = this.listeners.get(event);
+    if (!listeners) {
+      return;
+    }
+    for (const listener of Array.from(listeners) as DuplicateDetectorListener<E>[]) {
+      listener(data);
+    }
+  }
+}
+
+/**
+ * Options for {@link extractVideoFrames}
+ */
+export interface ExtractVideoFramesOptions {
+  /** Frames per second to capture (default: 1) */
+  fps?: number;
+  /** Start time in seconds (default: 0) */
+  start?: number;
+  /** End time in seconds, inclusive (default: video duration; required for live streams and other videos without a finite duration) */
+  end?: number;
+}
+
+/**
+ * Seek a video element and wait for the frame to be ready
+ * @internal
+ */
+function seekVideo(video: HTMLVideoElement, time: number): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const cleanup = () => {
+      video.removeEventListener('seeked', onSeeked);
+      video.removeEventListener('error', onError);
+    };
+    const onSeeked = () => {
+      cleanup();
+      resolve();
+    };
+    const onError = () => {
+      cleanup();
+      reject(new Error(`Failed to seek video to ${time}s`));
+    };
+    video.addEventListener('seeked', onSeeked);
+    video.addEventListener('error', onError);
+    video.currentTime = time;
+  });
+}
+
+/**
+ * Capture frames from an HTMLVideoElement by seeking
+ *
+ * **⚠️ BROWSER MAIN THREAD ONLY** - Requires DOM APIs (video, Canvas, document)
+ *
+ * Yields frames for {@link hashVideoFrames} without a video decoder dependency.
+ * The video must be same-origin or CORS-enabled (`crossOrigin = 'anonymous'`),
+ * otherwise reading pixels from the canvas fails. Seeking changes the
+ * element's `currentTime`, so use a dedicated (hidden) element.
+ *
+ * @param video - Video element with a loaded or loading source
+ * @param options - Capture rate and time range
+ * @returns Async iterable of frames with timestamps in seconds
+ *
+ * @throws Error if called outside the browser main thread
+ * @throws Error if the video has no finite duration and no finite `end` is given
+ * @throws Error if the video fails to load or seek
+ *
+ * @example
+ * ```typescript
+ * const video = document.createElement('video');
+ * video.crossOrigin = 'anonymous';
+ * video.src = URL.createObjectURL(file);
+ *
+ * const features = await hashVideoFrames(extractVideoFrames(video, { fps: 1 }));
+ * const { queryMatchPercent } = matchVideoHashes(features, knownFeatures);
+ * ```
+ */
+export async function* extractVideoFrames(
+  video: HTMLVideoElement,
+  options: ExtractVideoFramesOptions = {}
+): AsyncGenerator<VPDQFrame> {
+  if (getEnvironment().type !== 'browser') {
+    throw new Error('extractVideoFrames() requires browser main thread (needs DOM APIs)');
+  }
+
+  const fps = options.fps ?? 1;
+  if (!(fps > 0)) {
+    throw new Error(`Invalid fps: ${fps}. Must be greater than 0`);
+  }
+
+  // Wait for duration and dimensions
+  if (video.readyState < 1) {
+    await new Promise<void>((resolve, reject) => {
+      video.addEventListener('loadedmetadata', () => resolve(), { once: true });
+      video.addEventListener('error', () => reject(new Error('Failed to load video')), { once: true });
+    });
+  }
+
+  const canvas = document.createElement('canvas');
+  canvas.width = video.videoWidth;
+  canvas.height = video.videoHeight;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+
+  if (!ctx) {
+    throw new Error('Could not get canvas context');
+  }
+
+  const start = options.start ?? 0;
+  // Live streams and MediaRecorder blobs report Infinity, some sources NaN
+  const duration = Number.isFinite(video.duration) ? video.duration : Infinity;
+  const end = Math.min(options.end ?? duration, duration);
+  if (!Number.isFinite(end)) {
+    throw new Error(`Invalid end: ${options.end}. Must be a finite number when the video duration is ${video.duration}`);
+  }
+
+  // Step by index rather than accumulating the interval to avoid drift
+  for (let i = 0; Number.isFinite(end); i++) {
+    const timestamp = start + i / fps;
+    if (timestamp > end) break;
+
+    await seekVideo(video, timestamp);
+    ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+
+    yield {
+      image: ctx.getImageData(0, 0, canvas.width, canvas.height),
+      timestamp
+    };
+  }
 }
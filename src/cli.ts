@@ -0,0 +1,414 @@
+#!/usr/bin/env node
+/**
+ * pdq-wasm command-line tool
+ *
+ * Hash, compare and deduplicate image files without writing code. Images are
+ * decoded with the pure TypeScript decoders from `pdq-wasm/node`, so PNG,
+ * JPEG, BMP and PBM/PGM/PPM files are supported.
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { PDQ } from './pdq';
+import type { PDQHash } from './types';
+import { hashFile, type FileHashResult } from './node';
+import { groupSimilarHashes, CLUSTERING_MODES, type ClusteringMode } from './grouping';
+import { isValidHex, hashHammingDistance } from './hash-utils';
+import { csvField, parseCsv } from './csv';
+
+/**
+ * Output streams used by the CLI
+ */
+export interface CliIO {
+  stdout(text: string): void;
+  stderr(text: string): void;
+}
+
+type OutputFormat = 'text' | 'json' | 'csv';
+
+interface ParsedArgs {
+  command: string | undefined;
+  positionals: string[];
+  format: OutputFormat;
+  threshold: number;
+  clustering: ClusteringMode;
+  against?: string;
+  help: boolean;
+  version: boolean;
+}
+
+/**
+ * Error caused by invalid arguments; exits with status 2
+ * @internal
+ */
+class UsageError extends Error {}
+
+const IMAGE_EXTENSIONS = new Set(['.png', '.jpg', '.jpeg', '.bmp', '.pbm', '.pgm', '.ppm', '.pnm']);
+
+const USAGE = `Usage: pdq-wasm <command> [options]
+
+Commands:
+  hash <files...>                 Print hash, quality and path for each file
+  compare <a> <b>                 Print distance and similarity of two files or hex hashes
+  dedupe <dir>                    Print groups of near-duplicate images in a directory (recursive)
+  match <file> --against <csv>    Print hashes in a CSV file within the threshold of an image
+
+Options:
+  -f, --format <text|json|csv>    Output format (default: text)
+  -t, --threshold <0-256>         Maximum Hamming distance for duplicates (default: 31)
+  -c, --clustering <mode>         Grouping for "dedupe": greedy, connected-components,
+                                  complete-link or star (default: greedy)
+  -a, --against <csv>             Hash list for "match" (e.g. output of "hash --format csv")
+  -h, --help                      Show this help
+  -v, --version                   Show the version
+
+Supported formats: PNG, JPEG, BMP, PBM/PGM/PPM
+`;
+
+/**
+ * Parse command-line arguments
+ * @internal
+ */
+function parseArgs(args: string[]): ParsedArgs {
+  const parsed: ParsedArgs = {
+    command: undefined,
+    positionals: [],
+    format: 'text',
+    threshold: 31,
+    clustering: 'greedy',
+    help: false,
+    version: false,
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (!arg.startsWith('-') || arg === '-') {
+      if (parsed.command === undefined) {
+        parsed.command = arg;
+      } else {
+        parsed.positionals.push(arg);
+      }
+      continue;
+    }
+    if (arg === '--') {
+      parsed.positionals.push(...args.slice(i + 1));
+      break;
+    }
+
+    const [name, inlineValue] = arg.split(/=(.*)/s, 2);
+    const value = (): string => {
+      const v = inlineValue ?? args[++i];
+      if (v === undefined) {
+        throw new UsageError(`Missing value for ${name}`);
+      }
+      return v;
+    };
+
+    switch (name) {
+      case '-h':
+      case '--help':
+        parsed.help = true;
+        break;
+      case '-v':
+      case '--version':
+        parsed.version = true;
+        break;
+      case '-f':
+      case '--format': {
+        const format = value();
+        if (format !== 'text' && format !== 'json' && format !== 'csv') {
+          throw new UsageError(`Invalid format: ${format}. Use text, json or csv`);
+        }
+        parsed.format = format;
+        break;
+      }
+      case '-t':
+      case '--threshold': {
+        const raw = value();
+        const threshold = Number(raw);
+        if (!Number.isInteger(threshold) || threshold < 0 || threshold > 256) {
+          throw new UsageError(`Invalid threshold: ${raw}. Must be an integer from 0 to 256`);
+        }
+        parsed.threshold = threshold;
+        break;
+      }
+      case '-c':
+      case '--clustering': {
+        const clustering = value();
+        if (!(CLUSTERING_MODES as readonly string[]).includes(clustering)) {
+          throw new UsageError(`Invalid clustering: ${clustering}. Use ${CLUSTERING_MODES.join(', ')}`);
+        }
+        parsed.clustering = clustering as ClusteringMode;
+        break;
+      }
+      case '-a':
+      case '--against':
+        parsed.against = value();
+        break;
+      default:
+        throw new UsageError(`Unknown option: ${name}`);
+    }
+  }
+
+  return parsed;
+}
+
+/**
+ * Recursively list image files in a directory, sorted for stable output
+ * @internal
+ */
+async function listImages(dir: string): Promise<string[]> {
+  const entries = await fs.readdir(dir, { withFileTypes: true });
+  const files: string[] = [];
+
+  for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...await listImages(fullPath));
+    } else if (entry.isFile() && IMAGE_EXTENSIONS.has(path.extname(entry.name).toLowerCase())) {
+      files.push(fullPath);
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Hash files, reporting failures on stderr instead of stopping
+ * @internal
+ */
+async function hashFiles(files: string[], io: CliIO): Promise<{ results: Array<FileHashResult & { path: string }>; failed: number }> {
+  const results: Array<FileHashResult & { path: string }> = [];
+  let failed = 0;
+
+  for (const file of files) {
+    try {
+      results.push({ ...await hashFile(file), path: file });
+    } catch (error) {
+      failed++;
+      io.stderr(`pdq-wasm: ${error instanceof Error ? error.message : String(error)}\n`);
+    }
+  }
+
+  return { results, failed };
+}
+
+/**
+ * Resolve a `compare` argument: a 64-character hex hash or an image path
+ * @internal
+ */
+async function resolveHash(arg: string): Promise<PDQHash> {
+  if (isValidHex(arg)) {
+    return PDQ.fromHex(arg);
+  }
+  return (await hashFile(arg)).hash;
+}
+
+/** @internal */
+async function runHash(args: ParsedArgs, io: CliIO): Promise<number> {
+  if (args.positionals.length === 0) {
+    throw new UsageError('hash requires at least one file');
+  }
+
+  const { results, failed } = await hashFiles(args.positionals, io);
+
+  if (args.format === 'json') {
+    io.stdout(JSON.stringify(results.map(r => ({
+      path: r.path,
+      hash: PDQ.toHex(r.hash),
+      quality: r.quality,
+      format: r.format,
+      width: r.width,
+      height: r.height,
+    })), null, 2) + '\n');
+  } else if (args.format === 'csv') {
+    io.stdout('hash,quality,path\n');
+    for (const r of results) {
+      io.stdout(`${PDQ.toHex(r.hash)},${r.quality},${csvField(r.path)}\n`);
+    }
+  } else {
+    for (const r of results) {
+      io.stdout(`${PDQ.toHex(r.hash)}  ${String(r.quality).padStart(3)}  ${r.path}\n`);
+    }
+  }
+
+  return failed > 0 ? 1 : 0;
+}
+
+/** @internal */
+async function runCompare(args: ParsedArgs, io: CliIO): Promise<number> {
+  if (args.positionals.length !== 2) {
+    throw new UsageError('compare requires exactly two files or hashes');
+  }
+
+  const [a, b] = await Promise.all(args.positionals.map(resolveHash));
+  const distance = PDQ.hammingDistance(a, b);
+  const similarity = PDQ.similarity(a, b);
+  const similar = distance <= args.threshold;
+
+  if (args.format === 'json') {
+    io.stdout(JSON.stringify({ distance, similarity, similar, threshold: args.threshold }, null, 2) + '\n');
+  } else if (args.format === 'csv') {
+    io.stdout(`distance,similarity,similar\n${distance},${similarity.toFixed(2)},${similar}\n`);
+  } else {
+    io.stdout(`distance: ${distance}\n`);
+    io.stdout(`similarity: ${similarity.toFixed(2)}%\n`);
+    io.stdout(`similar: ${similar ? 'yes' : 'no'} (threshold ${args.threshold})\n`);
+  }
+
+  return 0;
+}
+
+/** @internal */
+async function runDedupe(args: ParsedArgs, io: CliIO): Promise<number> {
+  if (args.positionals.length !== 1) {
+    throw new UsageError('dedupe requires exactly one directory');
+  }
+
+  const files = await listImages(args.positionals[0]);
+  const { results, failed } = await hashFiles(files, io);
+  const groups = groupSimilarHashes(results.map(r => r.hash), args.threshold, args.clustering).map(
+    ({ indices, maxDistance }) => ({
+      maxDistance,
+      files: indices.map(i => ({
+        path: results[i].path,
+        hash: PDQ.toHex(results[i].hash),
+        quality: results[i].quality,
+        distance: hashHammingDistance(results[indices[0]].hash, results[i].hash),
+      })),
+    })
+  );
+
+  if (args.format === 'json') {
+    io.stdout(JSON.stringify(groups, null, 2) + '\n');
+  } else if (args.format === 'csv') {
+    io.stdout('group,max_distance,path,hash,quality,distance\n');
+    groups.forEach((group, g) => {
+      for (const file of group.files) {
+        io.stdout(`${g + 1},${group.maxDistance},${csvField(file.path)},${file.hash},${file.quality},${file.distance}\n`);
+      }
+    });
+  } else {
+    groups.forEach((group, g) => {
+      io.stdout(`Group ${g + 1} (${group.files.length} files, max distance ${group.maxDistance}):\n`);
+      for (const file of group.files) {
+        io.stdout(`  ${file.path}${file.distance > 0 ? `  (distance ${file.distance})` : ''}\n`);
+      }
+    });
+    io.stdout(`${groups.length} duplicate group(s) in ${results.length} image(s)\n`);
+  }
+
+  return failed > 0 ? 1 : 0;
+}
+
+/** @internal */
+async function runMatch(args: ParsedArgs, io: CliIO): Promise<number> {
+  if (args.positionals.length !== 1) {
+    throw new UsageError('match requires exactly one file or hash');
+  }
+  if (!args.against) {
+    throw new UsageError('match requires --against <csv>');
+  }
+
+  const query = await resolveHash(args.positionals[0]);
+  const rows = parseCsv(await fs.readFile(args.against, 'utf8'));
+
+  // Use header names when present, otherwise hash first and label last (the "hash --format csv" layout)
+  const header = rows[0]?.map(f => f.trim().toLowerCase()) ?? [];
+  const hasHeader = header.includes('hash');
+  const hashColumn = hasHeader ? header.indexOf('hash') : 0;
+  const labelColumn = hasHeader ? ['path', 'id', 'name'].map(n => header.indexOf(n)).find(i => i >= 0) : undefined;
+
+  const matches: Array<{ distance: number; hash: string; label: string }> = [];
+  rows.slice(hasHeader ? 1 : 0).forEach((row, r) => {
+    const hex = row[hashColumn]?.trim() ?? '';
+    if (!isValidHex(hex)) {
+      io.stderr(`pdq-wasm: skipping row ${r + (hasHeader ? 2 : 1)} of ${args.against}: invalid hash\n`);
+      return;
+    }
+    const distance = PDQ.hammingDistance(query, PDQ.fromHex(hex));
+    if (distance <= args.threshold) {
+      const label = labelColumn !== undefined ? row[labelColumn] : row.length > 1 ? row[row.length - 1] : '';
+      matches.push({ distance, hash: hex.toLowerCase(), label: label ?? '' });
+    }
+  });
+  matches.sort((a, b) => a.distance - b.distance);
+
+  if (args.format === 'json') {
+    io.stdout(JSON.stringify(matches, null, 2) + '\n');
+  } else if (args.format === 'csv') {
+    io.stdout('distance,hash,label\n');
+    for (const m of matches) {
+      io.stdout(`${m.distance},${m.hash},${csvField(m.label)}\n`);
+    }
+  } else if (matches.length === 0) {
+    io.stdout(`No matches within distance ${args.threshold}\n`);
+  } else {
+    for (const m of matches) {
+      io.stdout(`${String(m.distance).padStart(3)}  ${m.hash}  ${m.label}\n`);
+    }
+  }
+
+  return 0;
+}
+
+/**
+ * Run the CLI
+ *
+ * @param args Arguments after the program name
+ * @param io Output streams (default: process stdout/stderr)
+ * @returns Exit status: 0 on success, 1 if any file failed, 2 on invalid usage
+ *
+ * @example
+ * ```typescript
+ * const code = await runCli(['hash', 'photo.jpg', '--format', 'json']);
+ * process.exitCode = code;
+ * ```
+ */
+export async function runCli(
+  args: string[],
+  io: CliIO = {
+    stdout: text => process.stdout.write(text),
+    stderr: text => process.stderr.write(text),
+  }
+): Promise<number> {
+  try {
+    const parsed = parseArgs(args);
+
+    if (parsed.version) {
+      const { version } = require('../package.json');
+      io.stdout(`${version}\n`);
+      return 0;
+    }
+    if (parsed.help || parsed.command === undefined) {
+      io.stdout(USAGE);
+      return parsed.help ? 0 : 2;
+    }
+
+    switch (parsed.command) {
+      case 'hash':
+        return await runHash(parsed, io);
+      case 'compare':
+        return await runCompare(parsed, io);
+      case 'dedupe':
+        return await runDedupe(parsed, io);
+      case 'match':
+        return await runMatch(parsed, io);
+      default:
+        throw new UsageError(`Unknown command: ${parsed.command}`);
+    }
+  } catch (error) {
+    io.stderr(`pdq-wasm: ${error instanceof Error ? error.message : String(error)}\n`);
+    if (error instanceof UsageError) {
+      io.stderr('Run "pdq-wasm --help" for usage\n');
+      return 2;
+    }
+    return 1;
+  }
+}
+
+if (typeof require !== 'undefined' && require.main === module) {
+  runCli(process.argv.slice(2)).then(code => {
+    process.exitCode = code;
+  });
+}
@@ -0,0 +1,135 @@
+/**
+ * BMP decoder
+ *
+ * Supports uncompressed 1/4/8-bit palette images, 16/24/32-bit images and
+ * BI_BITFIELDS masks, with OS/2 and Windows (V3-V5) headers, bottom-up or
+ * top-down. RLE-compressed files are rejected.
+ */
+
+import type { ImageData } from '../types';
+import { checkDimensions } from './limits';
+
+const BI_RGB = 0;
+const BI_BITFIELDS = 3;
+const BI_ALPHABITFIELDS = 6;
+
+/**
+ * Check for the BMP signature
+ *
+ * @param bytes Encoded file contents
+ * @returns True if the bytes start with "BM"
+ */
+export function isBmp(bytes: Uint8Array): boolean {
+  return bytes.length >= 26 && bytes[0] === 0x42 && bytes[1] === 0x4d;
+}
+
+/**
+ * Build a function that extracts a masked channel and scales it to 8 bits
+ * @internal
+ */
+function maskReader(mask: number): (value: number) => number {
+  if (mask === 0) return () => 0;
+  let shift = 0;
+  while (((mask >>> shift) & 1) === 0) shift++;
+  const max = mask >>> shift;
+  return (value: number) => Math.round((((value & mask) >>> shift) * 255) / max);
+}
+
+/**
+ * Decode a BMP file to RGB pixels
+ *
+ * @param bytes Encoded BMP file
+ * @returns Decoded image (3 channels)
+ * @throws Error if the file is truncated or uses an unsupported feature
+ */
+export function decodeBmp(bytes: Uint8Array): ImageData {
+  if (!isBmp(bytes)) {
+    throw new Error('Invalid BMP: missing signature');
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const dataOffset = view.getUint32(10, true);
+  const headerSize = view.getUint32(14, true);
+  const isCoreHeader = headerSize === 12;
+
+  const width = isCoreHeader ? view.getUint16(18, true) : view.getInt32(18, true);
+  const rawHeight = isCoreHeader ? view.getInt16(20, true) : view.getInt32(22, true);
+  const bitCount = isCoreHeader ? view.getUint16(24, true) : view.getUint16(28, true);
+  const compression = isCoreHeader ? BI_RGB : view.getUint32(30, true);
+  const colorsUsed = isCoreHeader ? 0 : view.getUint32(46, true);
+
+  const height = Math.abs(rawHeight);
+  const topDown = rawHeight < 0;
+
+  if (width <= 0 || height === 0) {
+    throw new Error(`Invalid BMP dimensions: ${width}x${height}`);
+  }
+  checkDimensions(width, height);
+  if (compression !== BI_RGB && compression !== BI_BITFIELDS && compression !== BI_ALPHABITFIELDS) {
+    throw new Error(`Unsupported BMP compression: ${compression}`);
+  }
+  if (![1, 4, 8, 16, 24, 32].includes(bitCount)) {
+    throw new Error(`Unsupported BMP bit depth: ${bitCount}`);
+  }
+
+  // Palette for indexed images
+  let palette: Uint8Array | null = null;
+  if (bitCount <= 8) {
+    const entrySize = isCoreHeader ? 3 : 4;
+    // Indices can't address more than 2^bitCount entries, whatever the header claims
+    const count = Math.min(colorsUsed || 1 << bitCount, 1 << bitCount);
+    const start = 14 + headerSize;
+    palette = new Uint8Array(count * 3);
+    for (let i = 0; i < count && start + i * entrySize + 2 < bytes.length; i++) {
+      // Palette entries are stored as BGR(X)
+      palette[i * 3] = bytes[start + i * entrySize + 2];
+      palette[i * 3 + 1] = bytes[start + i * entrySize + 1];
+      palette[i * 3 + 2] = bytes[start + i * entrySize];
+    }
+  }
+
+  // Channel masks for 16/32-bit images. Masks follow the 40-byte info header.
+  let masks: [number, number, number];
+  if (compression === BI_BITFIELDS || compression === BI_ALPHABITFIELDS) {
+    masks = [view.getUint32(54, true), view.getUint32(58, true), view.getUint32(62, true)];
+  } else if (bitCount === 16) {
+    masks = [0x7c00, 0x03e0, 0x001f];
+  } else {
+    masks = [0x00ff0000, 0x0000ff00, 0x000000ff];
+  }
+  const [readR, readG, readB] = masks.map(maskReader);
+
+  const stride = Math.floor((bitCount * width + 31) / 32) * 4;
+  if (dataOffset + stride * height > bytes.length) {
+    throw new Error('Invalid BMP: pixel data is truncated');
+  }
+
+  const out = new Uint8Array(width * height * 3);
+
+  for (let y = 0; y < height; y++) {
+    const row = dataOffset + (topDown ? y : height - 1 - y) * stride;
+
+    for (let x = 0; x < width; x++) {
+      const o = (y * width + x) * 3;
+
+      if (palette) {
+        const bit = x * bitCount;
+        const index = (bytes[row + (bit >> 3)] >> (8 - bitCount - (bit & 7))) & ((1 << bitCount) - 1);
+        out[o] = palette[index * 3];
+        out[o + 1] = palette[index * 3 + 1];
+        out[o + 2] = palette[index * 3 + 2];
+      } else if (bitCount === 24) {
+        out[o] = bytes[row + x * 3 + 2];
+        out[o + 1] = bytes[row + x * 3 + 1];
+        out[o + 2] = bytes[row + x * 3];
+      } else {
+        const value = bitCount === 16 ? view.getUint16(row + x * 2, true) : view.getUint32(row + x * 4, true);
+        out[o] = readR(value);
+        out[o + 1] = readG(value);
+        out[o + 2] = readB(value);
+      }
+    }
+  }
+
+  return { data: out, width, height, channels: 3 };
+}
@@ -0,0 +1,62 @@
+/**
+ * Pure TypeScript image decoders for Node.js
+ *
+ * Turns encoded files into the RGB/grayscale pixel layout PDQ.hash() expects,
+ * so Node users don't need a native image library just to hash.
+ */
+
+import type { ImageData } from '../types';
+import { isPng, decodePng } from './png';
+import { isJpeg, decodeJpeg } from './jpeg';
+import { isBmp, decodeBmp } from './bmp';
+import { isNetpbm, decodeNetpbm } from './netpbm';
+
+/**
+ * Image formats the built-in decoders understand
+ */
+export type ImageFormat = 'png' | 'jpeg' | 'bmp' | 'netpbm';
+
+/**
+ * Decoded pixels plus the detected format
+ */
+export interface DecodedImage extends ImageData {
+  format: ImageFormat;
+}
+
+/**
+ * Detect an image format from its magic bytes
+ *
+ * @param bytes Encoded file contents
+ * @returns Detected format, or null if the format is not supported
+ */
+export function detectImageFormat(bytes: Uint8Array): ImageFormat | null {
+  if (isPng(bytes)) return 'png';
+  if (isJpeg(bytes)) return 'jpeg';
+  if (isBmp(bytes)) return 'bmp';
+  if (isNetpbm(bytes)) return 'netpbm';
+  return null;
+}
+
+/**
+ * Decode an encoded image to PDQ image data
+ *
+ * @param bytes Encoded file contents (PNG, JPEG, BMP or PBM/PGM/PPM)
+ * @returns Decoded pixels and the detected format
+ * @throws Error if the format is not recognized or the file is malformed
+ */
+export function decodeImage(bytes: Uint8Array): DecodedImage {
+  const format = detectImageFormat(bytes);
+
+  switch (format) {
+    case 'png':
+      return { ...decodePng(bytes), format };
+    case 'jpeg':
+      return { ...decodeJpeg(bytes), format };
+    case 'bmp':
+      return { ...decodeBmp(bytes), format };
+    case 'netpbm':
+      return { ...decodeNetpbm(bytes), format };
+    default:
+      throw new Error('Unsupported image format. Supported formats: PNG, JPEG, BMP, PBM/PGM/PPM');
+  }
+}
@@ -0,0 +1,688 @@
+/**
+ * JPEG decoder
+ *
+ * Supports baseline, extended and progressive Huffman-coded JPEGs with any
+ * chroma subsampling, restart intervals, and 1, 3 or 4 components (grayscale,
+ * YCbCr/RGB, CMYK/YCCK). Arithmetic coding and lossless JPEG are rejected.
+ * Chroma is upsampled with nearest-neighbour sampling; PDQ downsamples to
+ * 64x64 before hashing, so this does not change hashes in practice.
+ */
+
+import type { ImageData } from '../types';
+import { checkDimensions } from './limits';
+
+/** Natural-order index for each zigzag position */
+const ZIGZAG = new Int32Array([
+  0, 1, 8, 16, 9, 2, 3, 10, 17, 24, 32, 25, 18, 11, 4, 5,
+  12, 19, 26, 33, 40, 48, 41, 34, 27, 20, 13, 6, 7, 14, 21, 28,
+  35, 42, 49, 56, 57, 50, 43, 36, 29, 22, 15, 23, 30, 37, 44, 51,
+  58, 59, 52, 45, 38, 31, 39, 46, 53, 60, 61, 54, 47, 55, 62, 63,
+]);
+
+/** IDCT basis: IDCT_TABLE[x * 8 + u] = C(u) / 2 * cos((2x + 1)uπ / 16) */
+const IDCT_TABLE = (() => {
+  const table = new Float64Array(64);
+  for (let x = 0; x < 8; x++) {
+    for (let u = 0; u < 8; u++) {
+      table[x * 8 + u] = (u === 0 ? Math.SQRT1_2 : 1) / 2 * Math.cos(((2 * x + 1) * u * Math.PI) / 16);
+    }
+  }
+  return table;
+})();
+
+/**
+ * Canonical Huffman table
+ * @internal
+ */
+interface HuffmanTable {
+  /** Largest code of each length (index 1-16), or -1 if none */
+  maxCode: Int32Array;
+  /** Offset into `values` minus the first code of each length */
+  valueOffset: Int32Array;
+  values: Uint8Array;
+}
+
+/**
+ * Frame component state
+ * @internal
+ */
+interface Component {
+  id: number;
+  h: number;
+  v: number;
+  quantId: number;
+  blocksPerLine: number;
+  blocksPerColumn: number;
+  /** Blocks per line including MCU padding; the coefficient buffer stride */
+  blocksPerLineForMcu: number;
+  coefficients: Int16Array;
+  dcTable?: HuffmanTable;
+  acTable?: HuffmanTable;
+  pred: number;
+}
+
+/**
+ * Frame header state
+ * @internal
+ */
+interface Frame {
+  progressive: boolean;
+  width: number;
+  height: number;
+  maxH: number;
+  maxV: number;
+  mcusPerLine: number;
+  mcusPerColumn: number;
+  components: Component[];
+}
+
+/**
+ * Check for the JPEG SOI marker
+ *
+ * @param bytes Encoded file contents
+ * @returns True if the bytes start with FF D8 FF
+ */
+export function isJpeg(bytes: Uint8Array): boolean {
+  return bytes.length >= 3 && bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff;
+}
+
+/**
+ * Build a canonical Huffman table from DHT code counts and values
+ * @internal
+ */
+function buildHuffmanTable(counts: Uint8Array, values: Uint8Array): HuffmanTable {
+  const maxCode = new Int32Array(18).fill(-1);
+  const valueOffset = new Int32Array(18);
+  let code = 0;
+  let k = 0;
+  for (let length = 1; length <= 16; length++) {
+    const count = counts[length - 1];
+    if (count > 0) {
+      valueOffset[length] = k - code;
+      code += count;
+      k += count;
+      maxCode[length] = code - 1;
+    }
+    code <<= 1;
+  }
+  return { maxCode, valueOffset, values };
+}
+
+/**
+ * Decode one scan, filling component coefficients
+ * @returns Offset of the marker that ended the scan
+ * @internal
+ */
+function decodeScan(
+  data: Uint8Array,
+  offset: number,
+  frame: Frame,
+  components: Component[],
+  resetInterval: number,
+  spectralStart: number,
+  spectralEnd: number,
+  successivePrev: number,
+  successive: number
+): number {
+  let bitsData = 0;
+  let bitsCount = 0;
+  let eobrun = 0;
+  let successiveACState = 0;
+  let successiveACNextValue = 0;
+
+  const readBit = (): number => {
+    if (bitsCount > 0) {
+      bitsCount--;
+      return (bitsData >> bitsCount) & 1;
+    }
+    if (offset >= data.length) {
+      return 0;
+    }
+    bitsData = data[offset];
+    if (bitsData === 0xff) {
+      const next = data[offset + 1];
+      if (next !== 0) {
+        // A marker inside entropy-coded data means the segment is short; pad with zeros
+        return 0;
+      }
+      offset++; // Skip stuffed zero byte
+    }
+    offset++;
+    bitsCount = 7;
+    return (bitsData >> 7) & 1;
+  };
+
+  const decodeHuffman = (table: HuffmanTable | undefined): number => {
+    if (!table) {
+      throw new Error('Invalid JPEG: scan references a missing Huffman table');
+    }
+    let code = 0;
+    for (let length = 1; length <= 16; length++) {
+      code = (code << 1) | readBit();
+      if (code <= table.maxCode[length]) {
+        return table.values[table.valueOffset[length] + code];
+      }
+    }
+    throw new Error('Invalid JPEG: bad Huffman code');
+  };
+
+  const receive = (length: number): number => {
+    let value = 0;
+    while (length-- > 0) {
+      value = (value << 1) | readBit();
+    }
+    return value;
+  };
+
+  const receiveAndExtend = (length: number): number => {
+    if (length === 0) return 0;
+    const value = receive(length);
+    return value >= 1 << (length - 1) ? value : value + (-1 << length) + 1;
+  };
+
+  const decodeBaseline = (c: Component, off: number): void => {
+    const t = decodeHuffman(c.dcTable);
+    c.pred += t === 0 ? 0 : receiveAndExtend(t);
+    c.coefficients[off] = c.pred;
+    let k = 1;
+    while (k < 64) {
+      const rs = decodeHuffman(c.acTable);
+      const s = rs & 15;
+      const r = rs >> 4;
+      if (s === 0) {
+        if (r < 15) break;
+        k += 16;
+        continue;
+      }
+      k += r;
+      if (k > 63) break;
+      c.coefficients[off + ZIGZAG[k]] = receiveAndExtend(s);
+      k++;
+    }
+  };
+
+  const decodeDCFirst = (c: Component, off: number): void => {
+    const t = decodeHuffman(c.dcTable);
+    c.pred += t === 0 ? 0 : receiveAndExtend(t) * (1 << successive);
+    c.coefficients[off] = c.pred;
+  };
+
+  const decodeDCSuccessive = (c: Component, off: number): void => {
+    if (readBit()) {
+      c.coefficients[off] |= 1 << successive;
+    }
+  };
+
+  const decodeACFirst = (c: Component, off: number): void => {
+    if (eobrun > 0) {
+      eobrun--;
+      return;
+    }
+    let k = spectralStart;
+    while (k <= spectralEnd) {
+      const rs = decodeHuffman(c.acTable);
+      const s = rs & 15;
+      const r = rs >> 4;
+      if (s === 0) {
+        if (r < 15) {
+          eobrun = receive(r) + (1 << r) - 1;
+          break;
+        }
+        k += 16;
+        continue;
+      }
+      k += r;
+      if (k > 63) break;
+      c.coefficients[off + ZIGZAG[k]] = receiveAndExtend(s) * (1 << successive);
+      k++;
+    }
+  };
+
+  const decodeACSuccessive = (c: Component, off: number): void => {
+    const coefficients = c.coefficients;
+    let k = spectralStart;
+    let r = 0;
+    while (k <= spectralEnd) {
+      const z = off + ZIGZAG[k];
+      const sign = coefficients[z] < 0 ? -1 : 1;
+      switch (successiveACState) {
+        case 0: { // Read the next run/size symbol
+          const rs = decodeHuffman(c.acTable);
+          const s = rs & 15;
+          r = rs >> 4;
+          if (s === 0) {
+            if (r < 15) {
+              eobrun = receive(r) + (1 << r);
+              successiveACState = 4;
+            } else {
+              r = 16;
+              successiveACState = 1;
+            }
+          } else {
+            if (s !== 1) {
+              throw new Error('Invalid JPEG: bad successive approximation AC value');
+            }
+            successiveACNextValue = receiveAndExtend(s);
+            successiveACState = r ? 2 : 3;
+          }
+          continue;
+        }
+        case 1: // Skip r zero coefficients, refining non-zero ones
+        case 2:
+          if (coefficients[z]) {
+            coefficients[z] += sign * (readBit() << successive);
+          } else {
+            r--;
+            if (r === 0) {
+              successiveACState = successiveACState === 2 ? 3 : 0;
+            }
+          }
+          break;
+        case 3: // Place the new coefficient at the next zero position
+          if (coefficients[z]) {
+            coefficients[z] += sign * (readBit() << successive);
+          } else {
+            coefficients[z] = successiveACNextValue << successive;
+            successiveACState = 0;
+          }
+          break;
+        case 4: // End of band: only refine non-zero coefficients
+          if (coefficients[z]) {
+            coefficients[z] += sign * (readBit() << successive);
+          }
+          break;
+      }
+      k++;
+    }
+    if (successiveACState === 4) {
+      eobrun--;
+      if (eobrun === 0) {
+        successiveACState = 0;
+      }
+    }
+  };
+
+  let decodeFn: (c: Component, off: number) => void;
+  if (frame.progressive) {
+    if (spectralStart === 0) {
+      decodeFn = successivePrev === 0 ? decodeDCFirst : decodeDCSuccessive;
+    } else {
+      decodeFn = successivePrev === 0 ? decodeACFirst : decodeACSuccessive;
+    }
+  } else {
+    decodeFn = decodeBaseline;
+  }
+
+  const single = components.length === 1;
+  const first = components[0];
+  const mcuExpected = single
+    ? first.blocksPerLine * first.blocksPerColumn
+    : frame.mcusPerLine * frame.mcusPerColumn;
+  const interval = resetInterval || mcuExpected;
+
+  let mcu = 0;
+  while (mcu < mcuExpected) {
+    for (const c of components) {
+      c.pred = 0;
+    }
+    eobrun = 0;
+    successiveACState = 0;
+
+    for (let n = 0; n < interval && mcu < mcuExpected; n++, mcu++) {
+      if (single) {
+        // Non-interleaved scans cover only the component's own blocks
+        const blockRow = Math.floor(mcu / first.blocksPerLine);
+        const blockCol = mcu % first.blocksPerLine;
+        decodeFn(first, 64 * (blockRow * first.blocksPerLineForMcu + blockCol));
+      } else {
+        const mcuRow = Math.floor(mcu / frame.mcusPerLine);
+        const mcuCol = mcu % frame.mcusPerLine;
+        for (const c of components) {
+          for (let v = 0; v < c.v; v++) {
+            for (let h = 0; h < c.h; h++) {
+              const blockRow = mcuRow * c.v + v;
+              const blockCol = mcuCol * c.h + h;
+              decodeFn(c, 64 * (blockRow * c.blocksPerLineForMcu + blockCol));
+            }
+          }
+        }
+      }
+    }
+
+    // Find the next marker; continue only past restart markers
+    bitsCount = 0;
+    while (offset < data.length - 1 && !(data[offset] === 0xff && data[offset + 1] !== 0 && data[offset + 1] !== 0xff)) {
+      offset++;
+    }
+    if (offset >= data.length - 1) {
+      return data.length;
+    }
+    const marker = data[offset + 1];
+    if (marker >= 0xd0 && marker <= 0xd7) {
+      offset += 2;
+    } else {
+      break;
+    }
+  }
+
+  return offset;
+}
+
+/**
+ * Dequantize and inverse-DCT every block of a component into a sample plane
+ * @internal
+ */
+function buildComponentPlane(c: Component, quant: Int32Array): { plane: Uint8Array; stride: number } {
+  const stride = c.blocksPerLineForMcu * 8;
+  const rows = c.coefficients.length / 64 / c.blocksPerLineForMcu * 8;
+  const plane = new Uint8Array(stride * rows);
+  const block = new Float64Array(64);
+  const temp = new Float64Array(64);
+  const blockCount = c.coefficients.length / 64;
+
+  for (let b = 0; b < blockCount; b++) {
+    const off = b * 64;
+    let hasAC = false;
+    for (let i = 0; i < 64; i++) {
+      block[i] = c.coefficients[off + i] * quant[i];
+      if (i > 0 && block[i] !== 0) hasAC = true;
+    }
+
+    const baseRow = Math.floor(b / c.blocksPerLineForMcu) * 8;
+    const baseCol = (b % c.blocksPerLineForMcu) * 8;
+
+    if (!hasAC) {
+      // DC-only block: flat fill
+      const value = clamp(Math.round(block[0] / 8 + 128));
+      for (let y = 0; y < 8; y++) {
+        plane.fill(value, (baseRow + y) * stride + baseCol, (baseRow + y) * stride + baseCol + 8);
+      }
+      continue;
+    }
+
+    // Rows: temp[v * 8 + x] = sum_u block[v * 8 + u] * basis(x, u)
+    for (let v = 0; v < 8; v++) {
+      for (let x = 0; x < 8; x++) {
+        let sum = 0;
+        for (let u = 0; u < 8; u++) {
+          sum += block[v * 8 + u] * IDCT_TABLE[x * 8 + u];
+        }
+        temp[v * 8 + x] = sum;
+      }
+    }
+    // Columns
+    for (let x = 0; x < 8; x++) {
+      for (let y = 0; y < 8; y++) {
+        let sum = 0;
+        for (let v = 0; v < 8; v++) {
+          sum += temp[v * 8 + x] * IDCT_TABLE[y * 8 + v];
+        }
+        plane[(baseRow + y) * stride + baseCol + x] = clamp(Math.round(sum + 128));
+      }
+    }
+  }
+
+  return { plane, stride };
+}
+
+/** @internal */
+function clamp(value: number): number {
+  return value < 0 ? 0 : value > 255 ? 255 : value;
+}
+
+/**
+ * Decode a JPEG file to RGB or grayscale pixels
+ *
+ * @param bytes Encoded JPEG file
+ * @returns Decoded image (3 channels for colour, 1 for grayscale)
+ * @throws Error if the file is malformed or uses an unsupported coding process
+ */
+export function decodeJpeg(bytes: Uint8Array): ImageData {
+  if (!isJpeg(bytes)) {
+    throw new Error('Invalid JPEG: missing SOI marker');
+  }
+
+  const quantTables: Int32Array[] = [];
+  const dcTables: HuffmanTable[] = [];
+  const acTables: HuffmanTable[] = [];
+  let frame: Frame | null = null;
+  let resetInterval = 0;
+  let adobeTransform: number | null = null;
+
+  const readUint16 = (pos: number) => (bytes[pos] << 8) | bytes[pos + 1];
+
+  let offset = 2;
+  let done = false;
+  while (!done && offset < bytes.length - 1) {
+    if (bytes[offset] !== 0xff) {
+      // Tolerate garbage between segments
+      offset++;
+      continue;
+    }
+    const marker = bytes[offset + 1];
+    offset += 2;
+
+    // Fill bytes and standalone markers have no length
+    if (marker === 0xff) {
+      offset--;
+      continue;
+    }
+    if (marker === 0xd8 || (marker >= 0xd0 && marker <= 0xd7) || marker === 0x01) {
+      continue;
+    }
+    if (marker === 0xd9) {
+      break;
+    }
+
+    const length = readUint16(offset);
+    const segment = offset + 2;
+    const segmentEnd = offset + length;
+
+    switch (marker) {
+      case 0xdb: { // DQT
+        let pos = segment;
+        while (pos < segmentEnd) {
+          const precision = bytes[pos] >> 4;
+          const id = bytes[pos] & 15;
+          pos++;
+          const table = new Int32Array(64);
+          for (let k = 0; k < 64; k++) {
+            table[ZIGZAG[k]] = precision ? readUint16(pos + k * 2) : bytes[pos + k];
+          }
+          quantTables[id] = table;
+          pos += precision ? 128 : 64;
+        }
+        break;
+      }
+
+      case 0xc4: { // DHT
+        let pos = segment;
+        while (pos < segmentEnd) {
+          const tableClass = bytes[pos] >> 4;
+          const id = bytes[pos] & 15;
+          const counts = bytes.subarray(pos + 1, pos + 17);
+          const total = counts.reduce((n, count) => n + count, 0);
+          const values = bytes.slice(pos + 17, pos + 17 + total);
+          (tableClass === 0 ? dcTables : acTables)[id] = buildHuffmanTable(counts, values);
+          pos += 17 + total;
+        }
+        break;
+      }
+
+      case 0xdd: // DRI
+        resetInterval = readUint16(segment);
+        break;
+
+      case 0xee: // APP14 (Adobe)
+        if (bytes[segment] === 0x41 && bytes[segment + 1] === 0x64 && bytes[segment + 2] === 0x6f &&
+            bytes[segment + 3] === 0x62 && bytes[segment + 4] === 0x65) {
+          adobeTransform = bytes[segment + 11];
+        }
+        break;
+
+      case 0xc0: // SOF0 baseline
+      case 0xc1: // SOF1 extended sequential
+      case 0xc2: { // SOF2 progressive
+        if (frame) {
+          throw new Error('Invalid JPEG: multiple frames are not supported');
+        }
+        const height = readUint16(segment + 1);
+        const width = readUint16(segment + 3);
+        const count = bytes[segment + 5];
+        if (!width || !height) {
+          throw new Error(`Invalid JPEG dimensions: ${width}x${height}`);
+        }
+        checkDimensions(width, height);
+
+        const components: Component[] = [];
+        for (let i = 0; i < count; i++) {
+          const pos = segment + 6 + i * 3;
+          components.push({
+            id: bytes[pos],
+            h: bytes[pos + 1] >> 4 || 1,
+            v: bytes[pos + 1] & 15 || 1,
+            quantId: bytes[pos + 2],
+            blocksPerLine: 0,
+            blocksPerColumn: 0,
+            blocksPerLineForMcu: 0,
+            coefficients: new Int16Array(0),
+            pred: 0,
+          });
+        }
+
+        const maxH = Math.max(...components.map(c => c.h));
+        const maxV = Math.max(...components.map(c => c.v));
+        const mcusPerLine = Math.ceil(width / (8 * maxH));
+        const mcusPerColumn = Math.ceil(height / (8 * maxV));
+        for (const c of components) {
+          c.blocksPerLine = Math.ceil(Math.ceil((width * c.h) / maxH) / 8);
+          c.blocksPerColumn = Math.ceil(Math.ceil((height * c.v) / maxV) / 8);
+          c.blocksPerLineForMcu = mcusPerLine * c.h;
+          c.coefficients = new Int16Array(c.blocksPerLineForMcu * mcusPerColumn * c.v * 64);
+        }
+
+        frame = { progressive: marker === 0xc2, width, height, maxH, maxV, mcusPerLine, mcusPerColumn, components };
+        break;
+      }
+
+      case 0xc3: case 0xc5: case 0xc6: case 0xc7:
+      case 0xc9: case 0xca: case 0xcb: case 0xcd: case 0xce: case 0xcf:
+        throw new Error(`Unsupported JPEG coding process (SOF${marker - 0xc0}). Only Huffman baseline and progressive JPEGs are supported`);
+
+      case 0xda: { // SOS
+        if (!frame) {
+          throw new Error('Invalid JPEG: scan before frame header');
+        }
+        const count = bytes[segment];
+        const scanComponents: Component[] = [];
+        for (let i = 0; i < count; i++) {
+          const id = bytes[segment + 1 + i * 2];
+          const tables = bytes[segment + 2 + i * 2];
+          const c = frame.components.find(component => component.id === id);
+          if (!c) {
+            throw new Error(`Invalid JPEG: scan references unknown component ${id}`);
+          }
+          c.dcTable = dcTables[tables >> 4];
+          c.acTable = acTables[tables & 15];
+          scanComponents.push(c);
+        }
+        const pos = segment + 1 + count * 2;
+        const spectralStart = bytes[pos];
+        const spectralEnd = bytes[pos + 1];
+        const successivePrev = bytes[pos + 2] >> 4;
+        const successive = bytes[pos + 2] & 15;
+
+        offset = decodeScan(
+          bytes, segmentEnd, frame, scanComponents, resetInterval,
+          spectralStart, spectralEnd, successivePrev, successive
+        );
+        continue;
+      }
+
+      default:
+        // APPn, COM, DNL and other segments are skipped
+        break;
+    }
+
+    offset = segmentEnd;
+    done = offset >= bytes.length;
+  }
+
+  if (!frame) {
+    throw new Error('Invalid JPEG: no frame header found');
+  }
+
+  const { width, height, maxH, maxV, components } = frame;
+  const planes = components.map(c => {
+    const quant = quantTables[c.quantId];
+    if (!quant) {
+      throw new Error(`Invalid JPEG: missing quantization table ${c.quantId}`);
+    }
+    return buildComponentPlane(c, quant);
+  });
+
+  // Sample component `i` at output pixel (x, y)
+  const sample = (i: number, x: number, y: number): number => {
+    const c = components[i];
+    const { plane, stride } = planes[i];
+    return plane[Math.floor((y * c.v) / maxV) * stride + Math.floor((x * c.h) / maxH)];
+  };
+
+  if (components.length === 1) {
+    const out = new Uint8Array(width * height);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        out[y * width + x] = sample(0, x, y);
+      }
+    }
+    return { data: out, width, height, channels: 1 };
+  }
+
+  if (components.length !== 3 && components.length !== 4) {
+    throw new Error(`Unsupported JPEG component count: ${components.length}`);
+  }
+
+  // JFIF colour is YCbCr unless Adobe says otherwise or components are named R, G, B
+  const isRgbIds = components.length === 3 &&
+    components[0].id === 0x52 && components[1].id === 0x47 && components[2].id === 0x42;
+  const transform = adobeTransform ?? (components.length === 3 && !isRgbIds ? 1 : 0);
+
+  const out = new Uint8Array(width * height * 3);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let r = sample(0, x, y);
+      let g = sample(1, x, y);
+      let b = sample(2, x, y);
+
+      if (transform !== 0) {
+        const cb = g - 128;
+        const cr = b - 128;
+        const luma = r;
+        r = clamp(Math.round(luma + 1.402 * cr));
+        g = clamp(Math.round(luma - 0.344136 * cb - 0.714136 * cr));
+        b = clamp(Math.round(luma + 1.772 * cb));
+      }
+
+      if (components.length === 4) {
+        // Adobe CMYK/YCCK is stored inverted (255 = no ink)
+        let k = sample(3, x, y);
+        if (adobeTransform === null) {
+          r = 255 - r;
+          g = 255 - g;
+          b = 255 - b;
+          k = 255 - k;
+        }
+        r = Math.round((r * k) / 255);
+        g = Math.round((g * k) / 255);
+        b = Math.round((b * k) / 255);
+      }
+
+      const o = (y * width + x) * 3;
+      out[o] = r;
+      out[o + 1] = g;
+      out[o + 2] = b;
+    }
+  }
+
+  return { data: out, width, height, channels: 3 };
+}
@@ -0,0 +1,24 @@
+/**
+ * Size limits shared by the image decoders and the browser hashing path
+ */
+
+/** Largest width or height accepted from an image header (10,000 pixels) */
+export const MAX_DIMENSION = 10000;
+
+/**
+ * Reject header dimensions above {@link MAX_DIMENSION}
+ * Called before any pixel buffer is allocated, so a crafted header cannot
+ * make a decoder reserve gigabytes.
+ *
+ * @param width Width from the file header
+ * @param height Height from the file header
+ * @throws Error if either side is larger than MAX_DIMENSION
+ */
+export function checkDimensions(width: number, height: number): void {
+  if (width > MAX_DIMENSION || height > MAX_DIMENSION) {
+    throw new Error(
+      `Image too large: ${width}x${height} pixels. ` +
+      `Maximum allowed: ${MAX_DIMENSION}x${MAX_DIMENSION}`
+    );
+  }
+}
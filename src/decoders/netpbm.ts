@@ -0,0 +1,145 @@
+/**
+ * Netpbm decoder
+ *
+ * Supports PBM (P1/P4), PGM (P2/P5) and PPM (P3/P6) in both ASCII and binary
+ * forms, including 16-bit samples. Samples are rescaled from `maxval` to 0-255.
+ */
+
+import type { ImageData } from '../types';
+import { checkDimensions } from './limits';
+
+/**
+ * Check for a Netpbm magic number
+ *
+ * @param bytes Encoded file contents
+ * @returns True if the bytes start with P1-P6 followed by whitespace
+ */
+export function isNetpbm(bytes: Uint8Array): boolean {
+  return bytes.length >= 3 && bytes[0] === 0x50 && bytes[1] >= 0x31 && bytes[1] <= 0x36 && isWhitespace(bytes[2]);
+}
+
+/** @internal */
+function isWhitespace(byte: number): boolean {
+  return byte === 0x20 || byte === 0x09 || byte === 0x0a || byte === 0x0d || byte === 0x0b || byte === 0x0c;
+}
+
+/**
+ * Sequential reader for whitespace-separated header tokens
+ * @internal
+ */
+class TokenReader {
+  offset = 2;
+
+  constructor(private readonly bytes: Uint8Array) {}
+
+  /** Skip whitespace and `#` comments */
+  skip(): void {
+    while (this.offset < this.bytes.length) {
+      const byte = this.bytes[this.offset];
+      if (byte === 0x23) {
+        while (this.offset < this.bytes.length && this.bytes[this.offset] !== 0x0a && this.bytes[this.offset] !== 0x0d) {
+          this.offset++;
+        }
+      } else if (isWhitespace(byte)) {
+        this.offset++;
+      } else {
+        break;
+      }
+    }
+  }
+
+  /** Read a decimal integer */
+  int(): number {
+    this.skip();
+    const start = this.offset;
+    let value = 0;
+    while (this.offset < this.bytes.length && this.bytes[this.offset] >= 0x30 && this.bytes[this.offset] <= 0x39) {
+      value = value * 10 + this.bytes[this.offset] - 0x30;
+      this.offset++;
+    }
+    if (this.offset === start) {
+      throw new Error('Invalid Netpbm: expected a number');
+    }
+    return value;
+  }
+
+  /** Read a single ASCII PBM bit, which may not be whitespace-separated */
+  bit(): number {
+    this.skip();
+    const byte = this.bytes[this.offset++];
+    if (byte !== 0x30 && byte !== 0x31) {
+      throw new Error('Invalid Netpbm: expected 0 or 1');
+    }
+    return byte - 0x30;
+  }
+}
+
+/**
+ * Decode a PBM/PGM/PPM file to RGB or grayscale pixels
+ *
+ * @param bytes Encoded Netpbm file
+ * @returns Decoded image (3 channels for PPM, 1 for PBM/PGM)
+ * @throws Error if the file is truncated or malformed
+ */
+export function decodeNetpbm(bytes: Uint8Array): ImageData {
+  if (!isNetpbm(bytes)) {
+    throw new Error('Invalid Netpbm: missing magic number');
+  }
+
+  const kind = bytes[1] - 0x30; // 1-6
+  const isBitmap = kind === 1 || kind === 4;
+  const isAscii = kind <= 3;
+  const channels = kind === 3 || kind === 6 ? 3 : 1;
+
+  const reader = new TokenReader(bytes);
+  const width = reader.int();
+  const height = reader.int();
+  const maxval = isBitmap ? 1 : reader.int();
+
+  if (width <= 0 || height <= 0) {
+    throw new Error(`Invalid Netpbm dimensions: ${width}x${height}`);
+  }
+  checkDimensions(width, height);
+  if (maxval <= 0 || maxval > 65535) {
+    throw new Error(`Invalid Netpbm maxval: ${maxval}`);
+  }
+
+  const out = new Uint8Array(width * height * channels);
+  const scale = (value: number) => (maxval === 255 ? value : Math.round((value * 255) / maxval));
+
+  if (isAscii) {
+    for (let i = 0; i < out.length; i++) {
+      // PBM uses 1 for black
+      out[i] = isBitmap ? (reader.bit() ? 0 : 255) : scale(reader.int());
+    }
+    return { data: out, width, height, channels };
+  }
+
+  // Exactly one whitespace byte separates the header from binary data
+  let offset = reader.offset + 1;
+
+  if (isBitmap) {
+    const rowBytes = Math.ceil(width / 8);
+    if (offset + rowBytes * height > bytes.length) {
+      throw new Error('Invalid Netpbm: pixel data is truncated');
+    }
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const bit = (bytes[offset + y * rowBytes + (x >> 3)] >> (7 - (x & 7))) & 1;
+        out[y * width + x] = bit ? 0 : 255;
+      }
+    }
+    return { data: out, width, height, channels };
+  }
+
+  const bytesPerSample = maxval > 255 ? 2 : 1;
+  if (offset + out.length * bytesPerSample > bytes.length) {
+    throw new Error('Invalid Netpbm: pixel data is truncated');
+  }
+  for (let i = 0; i < out.length; i++, offset += bytesPerSample) {
+    const value = bytesPerSample === 2 ? (bytes[offset] << 8) | bytes[offset + 1] : bytes[offset];
+    out[i] = scale(value);
+  }
+
+  return { data: out, width, height, channels };
+}
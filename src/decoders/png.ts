@@ -0,0 +1,223 @@
+/**
+ * PNG decoder
+ *
+ * Supports every standard colour type (grayscale, RGB, palette, and their
+ * alpha variants), bit depths 1-16 and Adam7 interlacing. Alpha is dropped and
+ * 16-bit samples are reduced to their high byte. Decompression uses Node's
+ * built-in zlib.
+ */
+
+import { inflateSync } from 'zlib';
+import type { ImageData } from '../types';
+import { checkDimensions } from './limits';
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+/** Samples per pixel for each PNG colour type */
+const CHANNELS_BY_COLOR_TYPE: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+
+/** Adam7 passes as [xStart, yStart, xStep, yStep] */
+const ADAM7_PASSES = [
+  [0, 0, 8, 8],
+  [4, 0, 8, 8],
+  [0, 4, 4, 8],
+  [2, 0, 4, 4],
+  [0, 2, 2, 4],
+  [1, 0, 2, 2],
+  [0, 1, 1, 2],
+];
+
+/**
+ * Check for the PNG signature
+ *
+ * @param bytes Encoded file contents
+ * @returns True if the bytes start with the PNG signature
+ */
+export function isPng(bytes: Uint8Array): boolean {
+  return bytes.length >= 8 && PNG_SIGNATURE.every((b, i) => bytes[i] === b);
+}
+
+/**
+ * Undo PNG scanline filtering in place
+ * @internal
+ */
+function unfilter(data: Uint8Array, offset: number, rowBytes: number, rows: number, bpp: number): void {
+  let prev = -1;
+  for (let y = 0; y < rows; y++) {
+    const filterPos = offset + y * (rowBytes + 1);
+    const row = filterPos + 1;
+    const filter = data[filterPos];
+
+    for (let x = 0; x < rowBytes; x++) {
+      const a = x >= bpp ? data[row + x - bpp] : 0;
+      const b = prev >= 0 ? data[prev + x] : 0;
+      const c = x >= bpp && prev >= 0 ? data[prev + x - bpp] : 0;
+      let predictor: number;
+
+      switch (filter) {
+        case 0: predictor = 0; break;
+        case 1: predictor = a; break;
+        case 2: predictor = b; break;
+        case 3: predictor = (a + b) >> 1; break;
+        case 4: {
+          const p = a + b - c;
+          const pa = Math.abs(p - a);
+          const pb = Math.abs(p - b);
+          const pc = Math.abs(p - c);
+          predictor = pa <= pb && pa <= pc ? a : pb <= pc ? b : c;
+          break;
+        }
+        default:
+          throw new Error(`Invalid PNG filter type: ${filter}`);
+      }
+
+      data[row + x] = (data[row + x] + predictor) & 0xff;
+    }
+    prev = row;
+  }
+}
+
+/**
+ * Decode a PNG file to RGB or grayscale pixels
+ *
+ * @param bytes Encoded PNG file
+ * @returns Decoded image (3 channels for colour, 1 for grayscale)
+ * @throws Error if the file is truncated or uses an unsupported feature
+ */
+export function decodePng(bytes: Uint8Array): ImageData {
+  if (!isPng(bytes)) {
+    throw new Error('Invalid PNG: missing signature');
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let width = 0;
+  let height = 0;
+  let bitDepth = 0;
+  let colorType = -1;
+  let interlace = 0;
+  let palette: Uint8Array | null = null;
+  const idat: Uint8Array[] = [];
+
+  let offset = 8;
+  while (offset + 8 <= bytes.length) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(bytes[offset + 4], bytes[offset + 5], bytes[offset + 6], bytes[offset + 7]);
+    const start = offset + 8;
+    if (start + length > bytes.length) {
+      throw new Error(`Invalid PNG: truncated ${type} chunk`);
+    }
+
+    if (type === 'IHDR') {
+      width = view.getUint32(start);
+      height = view.getUint32(start + 4);
+      bitDepth = bytes[start + 8];
+      colorType = bytes[start + 9];
+      interlace = bytes[start + 12];
+    } else if (type === 'PLTE') {
+      palette = bytes.subarray(start, start + length);
+    } else if (type === 'IDAT') {
+      idat.push(bytes.subarray(start, start + length));
+    } else if (type === 'IEND') {
+      break;
+    }
+
+    offset = start + length + 4; // Skip CRC
+  }
+
+  const samples = CHANNELS_BY_COLOR_TYPE[colorType];
+  if (!width || !height || samples === undefined) {
+    throw new Error('Invalid PNG: missing or invalid IHDR chunk');
+  }
+  checkDimensions(width, height);
+  if (![1, 2, 4, 8, 16].includes(bitDepth)) {
+    throw new Error(`Unsupported PNG bit depth: ${bitDepth}`);
+  }
+  if (colorType === 3 && !palette) {
+    throw new Error('Invalid PNG: palette image without PLTE chunk');
+  }
+  if (idat.length === 0) {
+    throw new Error('Invalid PNG: no image data');
+  }
+
+  const compressed = new Uint8Array(idat.reduce((n, chunk) => n + chunk.length, 0));
+  let pos = 0;
+  for (const chunk of idat) {
+    compressed.set(chunk, pos);
+    pos += chunk.length;
+  }
+  // Stop inflating at the size the header allows, so a deflate bomb can't fill memory
+  const bitsPerPixel = samples * bitDepth;
+  const passes = interlace === 1 ? ADAM7_PASSES : [[0, 0, 1, 1]];
+  const expectedLength = passes.reduce((total, [x0, y0, dx, dy]) => {
+    const passWidth = Math.ceil((width - x0) / dx);
+    const passHeight = Math.ceil((height - y0) / dy);
+    return passWidth > 0 && passHeight > 0
+      ? total + passHeight * (1 + Math.ceil((passWidth * bitsPerPixel) / 8))
+      : total;
+  }, 0);
+
+  let raw: Uint8Array;
+  try {
+    raw = new Uint8Array(inflateSync(compressed, { maxOutputLength: expectedLength }));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ERR_BUFFER_TOO_LARGE') {
+      throw new Error(`Invalid PNG: image data inflates beyond the ${expectedLength} bytes expected for ${width}x${height}`);
+    }
+    throw error;
+  }
+
+  const isColor = colorType === 2 || colorType === 3 || colorType === 6;
+  const channels = isColor ? 3 : 1;
+  const out = new Uint8Array(width * height * channels);
+  const bpp = Math.max(1, bitsPerPixel >> 3);
+  const maxSample = (1 << bitDepth) - 1;
+
+  // Read sample `s` of pixel `x` in the row starting at `row`, scaled to 8 bits
+  const readSample = (row: number, x: number, s: number): number => {
+    if (bitDepth === 8) return raw[row + x * samples + s];
+    if (bitDepth === 16) return raw[row + (x * samples + s) * 2];
+    const bit = (x * samples + s) * bitDepth;
+    return (raw[row + (bit >> 3)] >> (8 - bitDepth - (bit & 7))) & maxSample;
+  };
+
+  let passOffset = 0;
+
+  for (const [x0, y0, dx, dy] of passes) {
+    const passWidth = Math.ceil((width - x0) / dx);
+    const passHeight = Math.ceil((height - y0) / dy);
+    if (passWidth <= 0 || passHeight <= 0) continue;
+
+    const rowBytes = Math.ceil((passWidth * bitsPerPixel) / 8);
+    if (passOffset + passHeight * (rowBytes + 1) > raw.length) {
+      throw new Error('Invalid PNG: image data is truncated');
+    }
+    unfilter(raw, passOffset, rowBytes, passHeight, bpp);
+
+    for (let py = 0; py < passHeight; py++) {
+      const row = passOffset + py * (rowBytes + 1) + 1;
+      const y = y0 + py * dy;
+
+      for (let px = 0; px < passWidth; px++) {
+        const o = ((y * width) + x0 + px * dx) * channels;
+
+        if (colorType === 3) {
+          const index = readSample(row, px, 0) * 3;
+          out[o] = palette![index];
+          out[o + 1] = palette![index + 1];
+          out[o + 2] = palette![index + 2];
+        } else if (isColor) {
+          out[o] = readSample(row, px, 0);
+          out[o + 1] = readSample(row, px, 1);
+          out[o + 2] = readSample(row, px, 2);
+        } else {
+          const value = readSample(row, px, 0);
+          out[o] = bitDepth < 8 ? Math.round((value * 255) / maxSample) : value;
+        }
+      }
+    }
+
+    passOffset += passHeight * (rowBytes + 1);
+  }
+
+  return { data: out, width, height, channels };
+}
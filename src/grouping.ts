@@ -0,0 +1,272 @@
+/**
+ * Grouping of near-duplicate hashes
+ * Shared by detectDuplicatesByHash() and the CLI `dedupe` command.
+ */
+
+import type { PDQHash } from './types';
+import { hashHammingDistance } from './hash-utils';
+
+/**
+ * How hashes within the threshold are combined into groups
+ *
+ * - `greedy`: each ungrouped hash, in input order, claims every later ungrouped
+ *   hash within the threshold of it. Fast, but depends on input order.
+ * - `connected-components`: hashes linked by any chain of pairs within the
+ *   threshold form one group (A~B~C is one group even if A and C are far apart).
+ * - `complete-link`: every pair in a group is within the threshold
+ *   (agglomerative complete-linkage clustering).
+ * - `star`: every member is within the threshold of the group's medoid, which
+ *   is listed first. Medoids are picked by how many hashes they cover.
+ */
+export type ClusteringMode = 'greedy' | 'connected-components' | 'complete-link' | 'star';
+
+/**
+ * A group of near-duplicate hashes
+ */
+export interface HashGroup {
+  /** Indices into the input array */
+  indices: number[];
+  /** Largest Hamming distance between any two members */
+  maxDistance: number;
+}
+
+/** All supported clustering modes */
+export const CLUSTERING_MODES: readonly ClusteringMode[] = ['greedy', 'connected-components', 'complete-link', 'star'];
+
+/**
+ * Group hashes that are within a distance threshold of each other
+ *
+ * @param hashes Hashes to group; null/undefined entries are ignored
+ * @param threshold Maximum Hamming distance for two hashes to be linked
+ * @param clustering Clustering mode (default: 'greedy')
+ * @returns Groups with 2 or more members, ordered by their smallest index
+ *
+ * @example
+ * ```typescript
+ * const groups = groupSimilarHashes(results.map(r => r.hash), 31, 'connected-components');
+ * groups.forEach(({ indices, maxDistance }) => console.log(indices.map(i => files[i]), maxDistance));
+ * ```
+ */
+export function groupSimilarHashes(
+  hashes: ReadonlyArray<PDQHash | null | undefined>,
+  threshold: number,
+  clustering: ClusteringMode = 'greedy'
+): HashGroup[] {
+  let groups: number[][];
+  switch (clustering) {
+    case 'greedy':
+      groups = greedyGroups(hashes, threshold);
+      break;
+    case 'connected-components':
+      groups = connectedComponents(hashes, threshold);
+      break;
+    case 'complete-link':
+      groups = connectedComponents(hashes, threshold)
+        .flatMap(component => completeLinkGroups(hashes, component, threshold));
+      break;
+    case 'star':
+      groups = starGroups(hashes, threshold);
+      break;
+    default:
+      throw new Error(`Invalid clustering mode: ${clustering}. Use ${CLUSTERING_MODES.join(', ')}`);
+  }
+
+  return groups
+    .filter(indices => indices.length > 1)
+    .sort((a, b) => smallest(a) - smallest(b))
+    .map(indices => ({ indices, maxDistance: maxInternalDistance(hashes, indices) }));
+}
+
+/**
+ * Smallest index in a group (star groups list their medoid first)
+ * @internal
+ */
+function smallest(indices: number[]): number {
+  return indices.reduce((min, i) => (i < min ? i : min), indices[0]);
+}
+
+/**
+ * Largest pairwise distance within a group
+ * @internal
+ */
+function maxInternalDistance(hashes: ReadonlyArray<PDQHash | null | undefined>, indices: number[]): number {
+  let max = 0;
+  for (let a = 0; a < indices.length; a++) {
+    for (let b = a + 1; b < indices.length; b++) {
+      max = Math.max(max, hashHammingDistance(hashes[indices[a]]!, hashes[indices[b]]!));
+    }
+  }
+  return max;
+}
+
+/**
+ * Greedy grouping against each group's first hash
+ * @internal
+ */
+function greedyGroups(hashes: ReadonlyArray<PDQHash | null | undefined>, threshold: number): number[][] {
+  const groups: number[][] = [];
+  const grouped = new Set<number>();
+
+  for (let i = 0; i < hashes.length; i++) {
+    const first = hashes[i];
+    if (!first || grouped.has(i)) continue;
+
+    const group = [i];
+    grouped.add(i);
+
+    for (let j = i + 1; j < hashes.length; j++) {
+      const other = hashes[j];
+      if (!other || grouped.has(j)) continue;
+
+      if (hashHammingDistance(first, other) <= threshold) {
+        group.push(j);
+        grouped.add(j);
+      }
+    }
+
+    groups.push(group);
+  }
+
+  return groups;
+}
+
+/**
+ * Union-find over every pair within the threshold
+ * @internal
+ */
+function connectedComponents(hashes: ReadonlyArray<PDQHash | null | undefined>, threshold: number): number[][] {
+  const parent = hashes.map((_, i) => i);
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]];
+      i = parent[i];
+    }
+    return i;
+  };
+
+  for (let i = 0; i < hashes.length; i++) {
+    const a = hashes[i];
+    if (!a) continue;
+    for (let j = i + 1; j < hashes.length; j++) {
+      const b = hashes[j];
+      if (b && hashHammingDistance(a, b) <= threshold) {
+        const rootA = find(i);
+        const rootB = find(j);
+        // Keep the smallest index as root so components are keyed deterministically
+        if (rootA !== rootB) {
+          parent[Math.max(rootA, rootB)] = Math.min(rootA, rootB);
+        }
+      }
+    }
+  }
+
+  const components = new Map<number, number[]>();
+  for (let i = 0; i < hashes.length; i++) {
+    if (!hashes[i]) continue;
+    const root = find(i);
+    const component = components.get(root);
+    if (component) {
+      component.push(i);
+    } else {
+      components.set(root, [i]);
+    }
+  }
+  return [...components.values()];
+}
+
+/**
+ * Agglomerative complete-linkage clustering of one connected component
+ *
+ * Repeatedly merges the two clusters whose farthest members are closest,
+ * while that distance is within the threshold. Pairs from different
+ * components are always beyond the threshold, so components are clustered
+ * independently.
+ * @internal
+ */
+function completeLinkGroups(
+  hashes: ReadonlyArray<PDQHash | null | undefined>,
+  component: number[],
+  threshold: number
+): number[][] {
+  const n = component.length;
+  if (n < 2) return [component];
+
+  // Cluster-to-cluster complete-link distances, updated in place on merge
+  const distance: number[][] = component.map(i =>
+    component.map(j => hashHammingDistance(hashes[i]!, hashes[j]!))
+  );
+  const clusters: Array<number[] | null> = component.map(i => [i]);
+
+  for (;;) {
+    let bestA = -1;
+    let bestB = -1;
+    let best = threshold + 1;
+    for (let a = 0; a < n; a++) {
+      if (!clusters[a]) continue;
+      for (let b = a + 1; b < n; b++) {
+        if (clusters[b] && distance[a][b] < best) {
+          best = distance[a][b];
+          bestA = a;
+          bestB = b;
+        }
+      }
+    }
+    if (bestA < 0) break;
+
+    clusters[bestA] = [...clusters[bestA]!, ...clusters[bestB]!].sort((x, y) => x - y);
+    clusters[bestB] = null;
+    for (let k = 0; k < n; k++) {
+      const merged = Math.max(distance[bestA][k], distance[bestB][k]);
+      distance[bestA][k] = merged;
+      distance[k][bestA] = merged;
+    }
+  }
+
+  return clusters.filter((cluster): cluster is number[] => cluster !== null);
+}
+
+/**
+ * Star clustering: greedily pick the hash covering the most ungrouped hashes
+ * as a medoid and group everything within the threshold of it
+ * @internal
+ */
+function starGroups(hashes: ReadonlyArray<PDQHash | null | undefined>, threshold: number): number[][] {
+  const neighbours: number[][] = hashes.map(() => []);
+  for (let i = 0; i < hashes.length; i++) {
+    const a = hashes[i];
+    if (!a) continue;
+    for (let j = i + 1; j < hashes.length; j++) {
+      const b = hashes[j];
+      if (b && hashHammingDistance(a, b) <= threshold) {
+        neighbours[i].push(j);
+        neighbours[j].push(i);
+      }
+    }
+  }
+
+  // Number of ungrouped neighbours of each ungrouped hash
+  const coverage = neighbours.map(list => list.length);
+  const grouped = hashes.map(hash => !hash);
+  const groups: number[][] = [];
+
+  for (;;) {
+    let medoid = -1;
+    for (let i = 0; i < hashes.length; i++) {
+      if (!grouped[i] && coverage[i] > 0 && (medoid < 0 || coverage[i] > coverage[medoid])) {
+        medoid = i;
+      }
+    }
+    if (medoid < 0) break;
+
+    const members = neighbours[medoid].filter(j => !grouped[j]);
+    for (const member of [medoid, ...members]) {
+      grouped[member] = true;
+      for (const k of neighbours[member]) {
+        coverage[k]--;
+      }
+    }
+    groups.push([medoid, ...members]);
+  }
+
+  return groups;
+}
@@ -0,0 +1,1057 @@
+/**
+ * Hash existence checkers with chainable validation, caching and batching
+ * Exported from pdq-wasm/browser; nothing here needs WASM or the DOM.
+ */
+
+import { PDQIndex } from './pdq-index';
+import { hashToHex } from './hash-utils';
+
+/**
+ * Result from a hash existence lookup
+ */
+export interface HashLookupResult {
+  /** Whether the hash exists in the storage system */
+  exists: boolean;
+  /** Optional data associated with the existing hash */
+  existing?: any;
+  /** Set when the result comes from an `.onFailure()` policy instead of the lookup */
+  error?: unknown;
+}
+
+/**
+ * Base class for lookup failures raised by checker modifiers
+ */
+export class HashLookupError extends Error {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message);
+    this.name = 'HashLookupError';
+    if (options && 'cause' in options) {
+      (this as { cause?: unknown }).cause = options.cause;
+    }
+  }
+}
+
+/**
+ * Thrown by `.timeout(ms)` when a lookup takes longer than `ms`
+ */
+export class HashLookupTimeoutError extends HashLookupError {
+  constructor(
+    /** The timeout that was exceeded, in milliseconds */
+    readonly timeoutMs: number
+  ) {
+    super(`Hash lookup timed out after ${timeoutMs}ms`);
+    this.name = 'HashLookupTimeoutError';
+  }
+}
+
+/**
+ * Thrown by `.retry()` when every attempt failed; `cause` is the last error
+ */
+export class HashLookupRetryError extends HashLookupError {
+  constructor(
+    /** Number of attempts made */
+    readonly attempts: number,
+    cause: unknown
+  ) {
+    super(
+      `Hash lookup failed after ${attempts} attempts: ${cause instanceof Error ? cause.message : String(cause)}`,
+      { cause }
+    );
+    this.name = 'HashLookupRetryError';
+  }
+}
+
+/**
+ * Thrown by `.circuitBreaker()` while the circuit is open, without calling the lookup
+ */
+export class CircuitOpenError extends HashLookupError {
+  constructor(
+    /** Date.now() after which a trial lookup is allowed */
+    readonly retryAt: number
+  ) {
+    super(`Hash lookup circuit is open; retrying after ${new Date(retryAt).toISOString()}`);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+/**
+ * Options for `.retry()`
+ */
+export interface RetryOptions {
+  /** Total attempts, including the first (default: 3) */
+  attempts?: number;
+  /**
+   * Delay before each retry: 'exponential' doubles `delayMs` per retry,
+   * 'fixed' always waits `delayMs`, or a function of the retry number (1-based)
+   * (default: 'exponential')
+   */
+  backoff?: 'exponential' | 'fixed' | ((retry: number) => number);
+  /** Base delay in milliseconds (default: 100) */
+  delayMs?: number;
+  /** Return false to fail immediately on errors that retrying cannot fix (default: retry everything but CircuitOpenError) */
+  shouldRetry?: (error: unknown) => boolean;
+}
+
+/**
+ * Options for `.circuitBreaker()`
+ */
+export interface CircuitBreakerOptions {
+  /** Consecutive failures that open the circuit (default: 5) */
+  failureThreshold?: number;
+  /** How long the circuit stays open before a trial lookup, in milliseconds (default: 30000) */
+  resetMs?: number;
+}
+
+/**
+ * What a checker returns when its lookup fails, for `.onFailure()`
+ *
+ * - `'open'`: fail open, `exists: false` (let the upload through)
+ * - `'closed'`: fail closed, `exists: true` (treat the hash as known/blocked)
+ * - a function building the result from the error
+ */
+export type FailurePolicy<R extends HashLookupResult = HashLookupResult> =
+  | 'open'
+  | 'closed'
+  | ((error: unknown, hash: string) => R | Promise<R>);
+
+/**
+ * A cached lookup result with the time it was stored
+ */
+export interface CacheEntry<R extends HashLookupResult = HashLookupResult> {
+  /** The lookup result */
+  result: R;
+  /** Date.now() when the result was stored; used for TTL checks */
+  timestamp: number;
+}
+
+/**
+ * Storage backend for `.cached()`
+ *
+ * Methods may return values directly or as promises, so both in-memory and
+ * persistent stores (IndexedDB, files) fit. Keys are lowercase hashes. TTL
+ * is checked by the checker when reading, so stores do not need to expire
+ * entries themselves.
+ */
+export interface CacheStore<R extends HashLookupResult = HashLookupResult> {
+  /** Get the entry for a hash, or undefined if none is stored */
+  get(hash: string): CacheEntry<R> | undefined | Promise<CacheEntry<R> | undefined>;
+  /** Store or replace the entry for a hash */
+  set(hash: string, entry: CacheEntry<R>): void | Promise<void>;
+  /** Remove the entry for a hash */
+  delete(hash: string): void | Promise<void>;
+  /** Remove every entry */
+  clear(): void | Promise<void>;
+  /** List every stored entry (used by exportCache) */
+  entries(): Iterable<[string, CacheEntry<R>]> | Promise<Iterable<[string, CacheEntry<R>]>>;
+}
+
+/**
+ * Serializable cache contents, from {@link HashChecker.exportCache}
+ * Plain JSON, so it can be saved anywhere and passed to importCache() on a later start.
+ */
+export interface CacheSnapshot<R extends HashLookupResult = HashLookupResult> {
+  /** Snapshot format version (currently 1) */
+  version: 1;
+  /** [hash, entry] pairs */
+  entries: Array<[string, CacheEntry<R>]>;
+}
+
+/**
+ * Options for `.cached()`
+ */
+export interface CacheOptions<R extends HashLookupResult = HashLookupResult> {
+  /** Time-to-live in milliseconds (default: Infinity - cache forever) */
+  ttl?: number;
+  /** Maximum entries for the default in-memory store (default: 1000); persistent stores take their own limits */
+  maxSize?: number;
+  /** Where results are kept (default: a new {@link LRUCacheStore}) */
+  store?: CacheStore<R>;
+}
+
+/**
+ * In-memory LRU (Least Recently Used) cache store, the default for `.cached()`
+ *
+ * @example
+ * ```typescript
+ * // Share one cache between two checkers
+ * const store = new LRUCacheStore(5000);
+ * const strict = createHashChecker(lookup).cached({ store });
+ * const lenient = createHashChecker(lookup).ignoreInvalid().cached({ store });
+ * ```
+ */
+export class LRUCacheStore<R extends HashLookupResult = HashLookupResult> implements CacheStore<R> {
+  private cache = new Map<string, CacheEntry<R>>();
+  private maxSize: number;
+
+  /**
+   * @param maxSize Maximum number of entries before the least recently used is evicted (default: 1000)
+   */
+  constructor(maxSize: number = 1000) {
+    this.maxSize = maxSize;
+  }
+
+  get(hash: string): CacheEntry<R> | undefined {
+    const value = this.cache.get(hash);
+    if (value !== undefined) {
+      // Move to end (most recently used)
+      this.cache.delete(hash);
+      this.cache.set(hash, value);
+    }
+    return value;
+  }
+
+  set(hash: string, entry: CacheEntry<R>): void {
+    // Delete if exists to update position
+    this.cache.delete(hash);
+
+    // Add to end (most recently used)
+    this.cache.set(hash, entry);
+
+    // Evict least recently used if over size
+    if (this.cache.size > this.maxSize) {
+      const firstKey = this.cache.keys().next().value;
+      if (firstKey !== undefined) {
+        this.cache.delete(firstKey);
+      }
+    }
+  }
+
+  delete(hash: string): void {
+    this.cache.delete(hash);
+  }
+
+  clear(): void {
+    this.cache.clear();
+  }
+
+  entries(): Iterable<[string, CacheEntry<R>]> {
+    return Array.from(this.cache.entries());
+  }
+
+  /** Number of cached entries */
+  get size(): number {
+    return this.cache.size;
+  }
+}
+
+/**
+ * Hash checker function with optional chainable modifiers
+ * `R` is the lookup result type ({@link SimilarityLookupResult} for similarity checkers).
+ */
+export type HashChecker<R extends HashLookupResult = HashLookupResult> = ((hash: string) => Promise<R>) & {
+  /**
+   * Returns a new checker that gracefully handles invalid hashes
+   * Invalid hashes return `{ exists: false, existing: null }` instead of throwing
+   *
+   * @example
+   * ```typescript
+   * const checker = createHashChecker(lookup).ignoreInvalid();
+   *
+   * // Invalid hash - returns false instead of throwing
+   * const result = await checker('invalid'); // { exists: false, existing: null }
+   * ```
+   */
+  ignoreInvalid(): HashChecker<R>;
+
+  /**
+   * Returns a new checker with result caching (memoization)
+   *
+   * @param ttl - Time-to-live in milliseconds (default: Infinity - cache forever)
+   * @param maxSize - Maximum number of entries to cache (default: 1000). Uses LRU eviction.
+   *
+   * @example
+   * ```typescript
+   * // Cache forever with default max size (1000 entries)
+   * const checker = createHashChecker(lookup).cached();
+   *
+   * // Cache with 5 minute expiration and custom max size
+   * const checker = createHashChecker(lookup).cached(5 * 60 * 1000, 500);
+   *
+   * // Cache with custom max size only (no TTL)
+   * const checker = createHashChecker(lookup).cached(Infinity, 100);
+   *
+   * // Clear cache when needed
+   * checker.clearCache?.();
+   * ```
+   */
+  cached(ttl?: number, maxSize?: number): HashChecker<R>;
+
+  /**
+   * Returns a new checker with result caching in a custom store
+   *
+   * @param options - TTL, default store size, and the {@link CacheStore} to use
+   *
+   * @example
+   * ```typescript
+   * // Survive page reloads
+   * const checker = createHashChecker(lookup).cached({
+   *   ttl: 24 * 60 * 60 * 1000,
+   *   store: new IndexedDBCacheStore()
+   * });
+   * ```
+   */
+  cached(options: CacheOptions<R>): HashChecker<R>;
+
+  /**
+   * Clears the cache (only available on cached checkers)
+   * Returns a promise when the store clears asynchronously.
+   */
+  clearCache?(): void | Promise<void>;
+
+  /**
+   * Exports unexpired cache entries (only available on cached checkers)
+   */
+  exportCache?(): Promise<CacheSnapshot<R>>;
+
+  /**
+   * Loads entries from {@link exportCache} output (only available on cached checkers)
+   * Entries with invalid hashes or past the TTL are skipped.
+   *
+   * @returns Number of entries imported
+   */
+  importCache?(snapshot: CacheSnapshot<R>): Promise<number>;
+
+  /**
+   * Returns a new checker whose lookups reject with {@link HashLookupTimeoutError} after `ms`
+   *
+   * Modifiers wrap the lookup in the order they are applied, so
+   * `.timeout(2000).retry()` limits each attempt while `.retry().timeout(5000)`
+   * limits the whole call. Cached results never reach the lookup.
+   *
+   * @param ms - Timeout in milliseconds
+   *
+   * @example
+   * ```typescript
+   * const checkHash = createHashChecker(lookup).timeout(2000);
+   * ```
+   */
+  timeout(ms: number): HashChecker<R>;
+
+  /**
+   * Returns a new checker that retries failed lookups with backoff
+   * Rejects with {@link HashLookupRetryError} once every attempt has failed.
+   *
+   * @example
+   * ```typescript
+   * const checkHash = createHashChecker(lookup)
+   *   .timeout(2000)
+   *   .retry({ attempts: 3, backoff: 'exponential', delayMs: 200 });
+   * ```
+   */
+  retry(options?: RetryOptions): HashChecker<R>;
+
+  /**
+   * Returns a new checker that stops calling a failing lookup
+   *
+   * After `failureThreshold` consecutive failures, calls reject with
+   * {@link CircuitOpenError} for `resetMs`; then one trial lookup decides
+   * whether the circuit closes again. Checkers derived from this one share
+   * the circuit.
+   *
+   * @example
+   * ```typescript
+   * const checkHash = createHashChecker(lookup)
+   *   .timeout(2000)
+   *   .circuitBreaker({ failureThreshold: 5, resetMs: 30_000 })
+   *   .onFailure('open');
+   * ```
+   */
+  circuitBreaker(options?: CircuitBreakerOptions): HashChecker<R>;
+
+  /**
+   * Returns a new checker that resolves instead of rejecting when the lookup fails
+   *
+   * The fallback result carries the error in `error` and is never cached.
+   * Invalid hashes still throw unless `.ignoreInvalid()` is used.
+   *
+   * @param policy - 'open' (`exists: false`), 'closed' (`exists: true`) or a function
+   *
+   * @example
+   * ```typescript
+   * // Block uploads while the moderation backend is unreachable
+   * const checkHash = createHashChecker(lookup).timeout(3000).onFailure('closed');
+   * const { exists, error } = await checkHash(hash);
+   * if (error) console.warn('Hash service unavailable', error);
+   * ```
+   */
+  onFailure(policy: FailurePolicy<R>): HashChecker<R>;
+};
+
+/**
+ * Options for createHashChecker internal state
+ * @internal
+ */
+interface CheckerOptions<R extends HashLookupResult> {
+  ignoreInvalid: boolean;
+  /** Result returned for invalid hashes when ignoreInvalid is set */
+  invalidResult: () => R;
+  cached: boolean;
+  store: CacheStore<R>;
+  cacheTTL: number;
+  /** Fallback when the lookup rejects (default: rethrow) */
+  onFailure?: FailurePolicy<R>;
+}
+
+/**
+ * Creates a hash existence checker with a custom lookup function
+ * Supports fluent API for validation and caching behavior
+ *
+ * @param lookup - Function that checks if a hash exists in your storage system
+ * @returns A hash checker function with chainable modifiers
+ *
+ * @example
+ * ```typescript
+ * // Simple checker - throws on invalid hash
+ * const checkHash = createHashChecker(async (hash) => {
+ *   const { data } = await supabase.rpc('check_hash_exists', { p_hash: hash });
+ *   return data;
+ * });
+ *
+ * const result = await checkHash(myHash);
+ * ```
+ *
+ * @example
+ * ```typescript
+ * // With REST API
+ * const checkHash = createHashChecker(async (hash) => {
+ *   const response = await fetch(`/api/hashes/${hash}`);
+ *   return response.json();
+ * });
+ * ```
+ *
+ * @example
+ * ```typescript
+ * // Gracefully ignore invalid hashes
+ * const checkHash = createHashChecker(lookup).ignoreInvalid();
+ *
+ * // Invalid hash returns { exists: false } instead of throwing
+ * const result = await checkHash('invalid-hash');
+ * ```
+ *
+ * @example
+ * ```typescript
+ * // Cached with TTL
+ * const checkHash = createHashChecker(lookup).cached(5 * 60 * 1000);
+ *
+ * // First call hits the database
+ * await checkHash(hash1);
+ *
+ * // Second call within 5 minutes uses cached result
+ * await checkHash(hash1);
+ * ```
+ *
+ * @example
+ * ```typescript
+ * // Combined - ignore invalid + cached
+ * const checkHash = createHashChecker(lookup)
+ *   .ignoreInvalid()
+ *   .cached(60 * 60 * 1000); // 1 hour cache
+ *
+ * // Clear cache when needed
+ * checkHash.clearCache?.();
+ * ```
+ */
+export function createHashChecker(
+  lookup: (hash: string) => Promise<HashLookupResult>
+): HashChecker {
+  return createCheckerWithOptions(lookup, {
+    ignoreInvalid: false,
+    invalidResult: () => ({ exists: false, existing: null }),
+    cached: false,
+    store: new LRUCacheStore(1000), // Default max size
+    cacheTTL: Infinity
+  });
+}
+
+/**
+ * Internal function to create checker with specific options
+ * @internal
+ */
+function createCheckerWithOptions<R extends HashLookupResult>(
+  lookup: (hash: string) => Promise<R>,
+  options: CheckerOptions<R>
+): HashChecker<R> {
+  const checker = async (hash: string): Promise<R> => {
+    // Validate hash format (PDQ hashes are 64 hex characters)
+    const isValid = typeof hash === 'string' &&
+                   hash.length === 64 &&
+                   /^[0-9a-f]{64}$/i.test(hash);
+
+    if (!isValid) {
+      if (options.ignoreInvalid) {
+        return options.invalidResult();
+      }
+      throw new Error('Invalid PDQ hash: must be 64 hexadecimal characters');
+    }
+
+    // Normalize hash to lowercase for cache key consistency
+    const normalizedHash = hash.toLowerCase();
+
+    // Check cache if enabled. A store that fails to read counts as a miss,
+    // like a failed write below, so the lookup still runs.
+    if (options.cached) {
+      const cached = await Promise.resolve()
+        .then(() => options.store.get(normalizedHash))
+        .catch(() => undefined);
+
+      if (cached) {
+        const age = Date.now() - cached.timestamp;
+        if (age < options.cacheTTL) {
+          return cached.result;
+        }
+        // Expired, remove it (the next write replaces it if this fails)
+        await Promise.resolve()
+          .then(() => options.store.delete(normalizedHash))
+          .catch(() => undefined);
+      }
+    }
+
+    // Perform lookup, falling back to the failure policy if it rejects
+    let result: R;
+    try {
+      result = await lookup(normalizedHash);
+    } catch (error) {
+      if (!options.onFailure) throw error;
+      return failureResult(options.onFailure, error, normalizedHash, options.invalidResult);
+    }
+
+    // Store in cache if enabled. A failed write only costs a future lookup,
+    // so it must not fail this one.
+    if (options.cached) {
+      Promise.resolve()
+        .then(() => options.store.set(normalizedHash, { result, timestamp: Date.now() }))
+        .catch(() => undefined);
+    }
+
+    return result;
+  };
+
+  // Attach chainable methods (cast once for type safety)
+  const hashChecker = checker as HashChecker<R>;
+
+  hashChecker.ignoreInvalid = () => {
+    return createCheckerWithOptions(lookup, {
+      ...options,
+      ignoreInvalid: true
+    });
+  };
+
+  hashChecker.cached = (ttlOrOptions: number | CacheOptions<R> = Infinity, maxSize: number = 1000) => {
+    const cacheOptions: CacheOptions<R> = typeof ttlOrOptions === 'number'
+      ? { ttl: ttlOrOptions, maxSize }
+      : ttlOrOptions;
+
+    return createCheckerWithOptions(lookup, {
+      ...options,
+      cached: true,
+      cacheTTL: cacheOptions.ttl ?? Infinity,
+      store: cacheOptions.store ?? new LRUCacheStore<R>(cacheOptions.maxSize ?? 1000)
+    });
+  };
+
+  hashChecker.timeout = (ms: number) => {
+    if (!(ms > 0)) {
+      throw new Error(`Invalid timeout: ${ms}. Must be a positive number of milliseconds`);
+    }
+    return createCheckerWithOptions(withTimeout(lookup, ms), options);
+  };
+
+  hashChecker.retry = (retryOptions: RetryOptions = {}) => {
+    return createCheckerWithOptions(withRetry(lookup, retryOptions), options);
+  };
+
+  hashChecker.circuitBreaker = (breakerOptions: CircuitBreakerOptions = {}) => {
+    return createCheckerWithOptions(withCircuitBreaker(lookup, breakerOptions), options);
+  };
+
+  hashChecker.onFailure = (policy: FailurePolicy<R>) => {
+    return createCheckerWithOptions(lookup, {
+      ...options,
+      onFailure: policy
+    });
+  };
+
+  // Add cache management for cached checkers
+  if (options.cached) {
+    const { store, cacheTTL } = options;
+
+    hashChecker.clearCache = () => store.clear();
+
+    hashChecker.exportCache = async () => {
+      const now = Date.now();
+      const entries: Array<[string, CacheEntry<R>]> = [];
+      for (const [hash, entry] of await store.entries()) {
+        if (now - entry.timestamp < cacheTTL) {
+          entries.push([hash, entry]);
+        }
+      }
+      return { version: 1, entries };
+    };
+
+    hashChecker.importCache = async (snapshot: CacheSnapshot<R>) => {
+      if (!snapshot || snapshot.version !== 1 || !Array.isArray(snapshot.entries)) {
+        throw new Error('Invalid cache snapshot: expected { version: 1, entries: [...] }');
+      }
+
+      const now = Date.now();
+      let imported = 0;
+      for (const [hash, entry] of snapshot.entries) {
+        if (typeof hash !== 'string' || !/^[0-9a-f]{64}$/i.test(hash)) continue;
+        if (!entry || typeof entry.timestamp !== 'number' || now - entry.timestamp >= cacheTTL) continue;
+        await store.set(hash.toLowerCase(), entry);
+        imported++;
+      }
+      return imported;
+    };
+  }
+
+  return hashChecker;
+}
+
+
+/**
+ * Build the result of a failure policy
+ * @internal
+ */
+async function failureResult<R extends HashLookupResult>(
+  policy: FailurePolicy<R>,
+  error: unknown,
+  hash: string,
+  emptyResult: () => R
+): Promise<R> {
+  if (typeof policy === 'function') {
+    return policy(error, hash);
+  }
+  return { ...emptyResult(), exists: policy === 'closed', error };
+}
+
+/**
+ * @internal
+ */
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Reject a lookup that takes longer than `ms`
+ * The underlying lookup keeps running; its late result is ignored.
+ * @internal
+ */
+function withTimeout<R>(lookup: (hash: string) => Promise<R>, ms: number): (hash: string) => Promise<R> {
+  return (hash: string) => new Promise<R>((resolve, reject) => {
+    const timer = setTimeout(() => reject(new HashLookupTimeoutError(ms)), ms);
+    lookup(hash).then(
+      result => { clearTimeout(timer); resolve(result); },
+      error => { clearTimeout(timer); reject(error); }
+    );
+  });
+}
+
+/**
+ * Retry a failing lookup with backoff
+ * @internal
+ */
+function withRetry<R>(lookup: (hash: string) => Promise<R>, options: RetryOptions): (hash: string) => Promise<R> {
+  const attempts = options.attempts ?? 3;
+  const delayMs = options.delayMs ?? 100;
+  const backoff = options.backoff ?? 'exponential';
+  const shouldRetry = options.shouldRetry ?? ((error: unknown) => !(error instanceof CircuitOpenError));
+
+  if (!Number.isInteger(attempts) || attempts < 1) {
+    throw new Error(`Invalid retry attempts: ${attempts}. Must be a positive integer`);
+  }
+  if (!(delayMs >= 0)) {
+    throw new Error(`Invalid retry delayMs: ${delayMs}. Must be a non-negative number`);
+  }
+
+  const delayFor = (retry: number): number => {
+    if (typeof backoff === 'function') return backoff(retry);
+    return backoff === 'fixed' ? delayMs : delayMs * 2 ** (retry - 1);
+  };
+
+  return async (hash: string) => {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await lookup(hash);
+      } catch (error) {
+        if (!shouldRetry(error)) throw error;
+        if (attempt >= attempts) throw new HashLookupRetryError(attempt, error);
+        await sleep(delayFor(attempt));
+      }
+    }
+  };
+}
+
+/**
+ * Stop calling a lookup after repeated failures, with a single trial call after `resetMs`
+ * @internal
+ */
+function withCircuitBreaker<R>(
+  lookup: (hash: string) => Promise<R>,
+  options: CircuitBreakerOptions
+): (hash: string) => Promise<R> {
+  const failureThreshold = options.failureThreshold ?? 5;
+  const resetMs = options.resetMs ?? 30000;
+
+  if (!Number.isInteger(failureThreshold) || failureThreshold < 1) {
+    throw new Error(`Invalid failureThreshold: ${failureThreshold}. Must be a positive integer`);
+  }
+  if (!(resetMs >= 0)) {
+    throw new Error(`Invalid resetMs: ${resetMs}. Must be a non-negative number`);
+  }
+
+  let failures = 0;
+  let openedAt: number | null = null;
+  let trialInFlight = false;
+
+  return async (hash: string) => {
+    let trial = false;
+    if (openedAt !== null) {
+      const retryAt = openedAt + resetMs;
+      if (Date.now() < retryAt || trialInFlight) {
+        throw new CircuitOpenError(retryAt);
+      }
+      // Half-open: let this one call through to test the backend
+      trial = true;
+      trialInFlight = true;
+    }
+
+    try {
+      const result = await lookup(hash);
+      failures = 0;
+      openedAt = null;
+      return result;
+    } catch (error) {
+      failures++;
+      if (trial || failures >= failureThreshold) {
+        openedAt = Date.now();
+      }
+      throw error;
+    } finally {
+      if (trial) trialInFlight = false;
+    }
+  };
+}
+
+/**
+ * Bulk lookup for {@link createBatchHashChecker}
+ *
+ * Receives unique, lowercase hashes and returns either an array of results in
+ * the same order, or a Map/object keyed by hash. Hashes missing from a
+ * Map/object result are treated as `{ exists: false, existing: null }`.
+ */
+export type BatchHashLookup = (hashes: string[]) => Promise<
+  HashLookupResult[] | Map<string, HashLookupResult> | Record<string, HashLookupResult>
+>;
+
+/**
+ * Options for {@link createBatchHashChecker}
+ */
+export interface BatchHashCheckerOptions {
+  /** Maximum hashes per bulk lookup; larger bursts are split (default: 100) */
+  maxBatchSize?: number;
+  /** How long to wait for more calls before sending a batch, in milliseconds (default: 0, one macrotask) */
+  maxDelayMs?: number;
+}
+
+/**
+ * Creates a hash checker that gathers calls into bulk lookups
+ *
+ * Calls made within `maxDelayMs` of the first queued call are sent to
+ * `batchLookup` together, and concurrent calls for the same hash share one
+ * request. The result is a regular {@link HashChecker}: `.cached()` answers
+ * repeat hashes without queueing them, and `.ignoreInvalid()` filters invalid
+ * hashes before they reach the batch. Checkers derived with modifiers share
+ * the same queue.
+ *
+ * If `batchLookup` rejects, every call in that batch rejects with its error.
+ *
+ * @param batchLookup - Function that checks many hashes in one request
+ * @param options - Batch size and delay
+ * @returns A hash checker function with chainable modifiers
+ * @throws {Error} If `maxBatchSize` is not a positive integer or `maxDelayMs` is negative
+ *
+ * @example
+ * ```typescript
+ * const checkHash = createBatchHashChecker(async (hashes) => {
+ *   const { data } = await supabase.rpc('check_hashes_exist', { p_hashes: hashes });
+ *   // data: [{ hash, exists, existing }]
+ *   return new Map(data.map(row => [row.hash, row]));
+ * }, { maxBatchSize: 200, maxDelayMs: 10 }).cached(5 * 60 * 1000);
+ *
+ * // 300 dropped files -> 2 RPC calls
+ * const results = await Promise.all(hashes.map(hash => checkHash(hash)));
+ * ```
+ */
+export function createBatchHashChecker(
+  batchLookup: BatchHashLookup,
+  options: BatchHashCheckerOptions = {}
+): HashChecker {
+  const maxBatchSize = options.maxBatchSize ?? 100;
+  const maxDelayMs = options.maxDelayMs ?? 0;
+
+  if (!Number.isInteger(maxBatchSize) || maxBatchSize < 1) {
+    throw new Error(`Invalid maxBatchSize: ${maxBatchSize}. Must be a positive integer`);
+  }
+  if (!(maxDelayMs >= 0)) {
+    throw new Error(`Invalid maxDelayMs: ${maxDelayMs}. Must be a non-negative number`);
+  }
+
+  return createHashChecker(createBatcher(batchLookup, maxBatchSize, maxDelayMs));
+}
+
+/**
+ * Call waiting in a batch
+ * @internal
+ */
+interface PendingLookup {
+  hash: string;
+  resolve: (result: HashLookupResult) => void;
+  reject: (error: unknown) => void;
+}
+
+/**
+ * Turn a bulk lookup into a single-hash lookup that queues and coalesces calls
+ * @internal
+ */
+function createBatcher(
+  batchLookup: BatchHashLookup,
+  maxBatchSize: number,
+  maxDelayMs: number
+): (hash: string) => Promise<HashLookupResult> {
+  // Queued or in-flight lookups by hash, so concurrent callers share one request
+  const inFlight = new Map<string, Promise<HashLookupResult>>();
+  let queue: PendingLookup[] = [];
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const send = async (batch: PendingLookup[]): Promise<void> => {
+    const hashes = batch.map(pending => pending.hash);
+    try {
+      const results = await batchLookup(hashes);
+      if (Array.isArray(results) && results.length !== hashes.length) {
+        throw new Error(`Batch lookup returned ${results.length} results for ${hashes.length} hashes`);
+      }
+      batch.forEach((pending, index) => {
+        pending.resolve(batchResult(results, pending.hash, index));
+      });
+    } catch (error) {
+      batch.forEach(pending => pending.reject(error));
+    } finally {
+      batch.forEach(pending => inFlight.delete(pending.hash));
+    }
+  };
+
+  const flush = (): void => {
+    if (timer !== null) {
+      clearTimeout(timer);
+      timer = null;
+    }
+    const batch = queue;
+    queue = [];
+    void send(batch);
+  };
+
+  return (hash: string) => {
+    const existing = inFlight.get(hash);
+    if (existing) return existing;
+
+    const promise = new Promise<HashLookupResult>((resolve, reject) => {
+      queue.push({ hash, resolve, reject });
+    });
+    inFlight.set(hash, promise);
+
+    if (queue.length >= maxBatchSize) {
+      flush();
+    } else if (timer === null) {
+      timer = setTimeout(flush, maxDelayMs);
+    }
+    return promise;
+  };
+}
+
+/**
+ * Pick one hash's result out of a bulk lookup response
+ * @internal
+ */
+function batchResult(
+  results: HashLookupResult[] | Map<string, HashLookupResult> | Record<string, HashLookupResult>,
+  hash: string,
+  index: number
+): HashLookupResult {
+  const result = Array.isArray(results)
+    ? results[index]
+    : results instanceof Map
+      ? results.get(hash)
+      : Object.prototype.hasOwnProperty.call(results, hash) ? results[hash] : undefined;
+  return result ?? { exists: false, existing: null };
+}
+
+/**
+ * A stored hash near the queried one
+ */
+export interface NearHashMatch<T = any> {
+  /** Matching PDQ hash (64 hex characters) */
+  hash: string;
+  /** Hamming distance from the queried hash (0-256) */
+  distance: number;
+  /** Data associated with the matching hash */
+  existing?: T;
+}
+
+/**
+ * Result of a similarity lookup; a {@link HashLookupResult} where `exists`
+ * means "has a match within maxDistance"
+ */
+export interface SimilarityLookupResult<T = any> extends HashLookupResult {
+  /** Data of the closest match, or null if there is none */
+  existing?: T | null;
+  /** Distance to the closest match, or null if there is none */
+  distance: number | null;
+  /** Matches within maxDistance, closest first */
+  matches: NearHashMatch<T>[];
+}
+
+/**
+ * Backend query for {@link createSimilarityChecker}
+ *
+ * Receives a lowercase hash and returns stored hashes near it. Results may be
+ * unsorted and may include matches beyond `maxDistance`; the checker filters,
+ * sorts and truncates them.
+ */
+export type NearLookup<T = any> = (
+  hash: string,
+  maxDistance: number,
+  maxMatches: number
+) => Promise<NearHashMatch<T>[]>;
+
+/**
+ * Options for {@link createSimilarityChecker}
+ * Pass exactly one of `hashes` or `nearLookup`.
+ */
+export interface SimilarityCheckerOptions<T = any> {
+  /** Maximum Hamming distance for a match (default: 31, PDQ recommended) */
+  maxDistance?: number;
+  /** Maximum number of matches returned per query (default: 10) */
+  maxMatches?: number;
+  /**
+   * In-memory hashes to match against: a PDQIndex (queried live, so later
+   * `add()`s are seen), or hex hashes, optionally paired with their data
+   */
+  hashes?: PDQIndex<T> | Iterable<string | readonly [string, T]>;
+  /** Backend that finds stored hashes near a query hash */
+  nearLookup?: NearLookup<T>;
+}
+
+/**
+ * Hash checker answering with the closest stored hashes
+ */
+export type SimilarityChecker<T = any> = HashChecker<SimilarityLookupResult<T>>;
+
+/**
+ * Creates a checker that matches hashes within a Hamming distance
+ *
+ * Exact existence checks miss re-encoded, resized or lightly edited copies;
+ * this checker reports every stored hash within `maxDistance`, closest first,
+ * so `exists` is true for near-duplicates too. The result is
+ * {@link HashLookupResult}-compatible and the checker supports `.cached()`
+ * and `.ignoreInvalid()`.
+ *
+ * @param options - Distance limit, match limit and either in-memory hashes or a `nearLookup` backend
+ * @returns A similarity checker with chainable modifiers
+ * @throws {Error} If neither or both of `hashes` and `nearLookup` are given, or a limit is invalid
+ *
+ * @example
+ * ```typescript
+ * // In-memory blocklist
+ * const checkUpload = createSimilarityChecker({
+ *   hashes: blocked.map(row => [row.hash, row] as const),
+ *   maxDistance: 31
+ * });
+ *
+ * const { exists, distance, existing } = await checkUpload(uploadHash);
+ * if (exists) console.warn(`Blocked: ${existing.reason} (distance ${distance})`);
+ * ```
+ *
+ * @example
+ * ```typescript
+ * // Database backend
+ * const checkHash = createSimilarityChecker({
+ *   maxDistance: 31,
+ *   nearLookup: async (hash, maxDistance, maxMatches) => {
+ *     const response = await fetch(`/api/hashes/near/${hash}?d=${maxDistance}&k=${maxMatches}`);
+ *     return response.json(); // [{ hash, distance, existing }]
+ *   }
+ * }).cached(60 * 1000);
+ * ```
+ */
+export function createSimilarityChecker<T = any>(options: SimilarityCheckerOptions<T>): SimilarityChecker<T> {
+  const maxDistance = options.maxDistance ?? 31;
+  const maxMatches = options.maxMatches ?? 10;
+
+  if (!Number.isInteger(maxDistance) || maxDistance < 0 || maxDistance > 256) {
+    throw new Error(`Invalid maxDistance: ${maxDistance}. Must be an integer between 0 and 256`);
+  }
+  if (!Number.isInteger(maxMatches) || maxMatches < 1) {
+    throw new Error(`Invalid maxMatches: ${maxMatches}. Must be a positive integer`);
+  }
+  if (!options.hashes === !options.nearLookup) {
+    throw new Error('createSimilarityChecker requires exactly one of hashes or nearLookup');
+  }
+
+  const nearLookup = options.nearLookup ?? indexLookup(toIndex(options.hashes!));
+
+  const lookup = async (hash: string): Promise<SimilarityLookupResult<T>> => {
+    const matches = (await nearLookup(hash, maxDistance, maxMatches))
+      .filter(match => match.distance <= maxDistance)
+      .sort((a, b) => a.distance - b.distance)
+      .slice(0, maxMatches);
+
+    return {
+      exists: matches.length > 0,
+      existing: matches.length > 0 ? matches[0].existing ?? null : null,
+      distance: matches.length > 0 ? matches[0].distance : null,
+      matches
+    };
+  };
+
+  return createCheckerWithOptions(lookup, {
+    ignoreInvalid: false,
+    invalidResult: () => ({ exists: false, existing: null, distance: null, matches: [] }),
+    cached: false,
+    store: new LRUCacheStore(1000),
+    cacheTTL: Infinity
+  });
+}
+
+/**
+ * Build a PDQIndex from hex hashes, unless one was passed in
+ * @internal
+ */
+function toIndex<T>(hashes: PDQIndex<T> | Iterable<string | readonly [string, T]>): PDQIndex<T> {
+  if (hashes instanceof PDQIndex) {
+    return hashes;
+  }
+
+  const index = new PDQIndex<T>();
+  for (const entry of hashes) {
+    if (typeof entry === 'string') {
+      index.add(entry);
+    } else {
+      index.add(entry[0], entry[1]);
+    }
+  }
+  return index;
+}
+
+/**
+ * Near lookup backed by a PDQIndex
+ * @internal
+ */
+function indexLookup<T>(index: PDQIndex<T>): NearLookup<T> {
+  return async (hash, maxDistance, maxMatches) =>
+    index.nearest(hash, maxMatches, maxDistance).map(match => ({
+      hash: hashToHex(match.hash),
+      distance: match.distance,
+      existing: match.payload
+    }));
+}
@@ -0,0 +1,202 @@
+/**
+ * Pure TypeScript PDQ hash utilities
+ *
+ * Hex conversion and Hamming distance don't need the DCT code, so they are
+ * implemented here without WASM. They work before (or without) PDQ.init(),
+ * which lets servers that only compare stored hashes skip loading the binary.
+ */
+
+import type { PDQHash } from './types';
+
+/** Number of bytes in a PDQ hash */
+export const PDQ_HASH_BYTES = 32;
+
+/** Number of bits in a PDQ hash */
+export const PDQ_HASH_BITS = 256;
+
+const HEX_CHARS = '0123456789abcdef';
+const BASE64_CHARS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+const BASE64URL_CHARS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_';
+
+/** Value of each base64 character; both alphabets decode */
+const BASE64_VALUES: Record<string, number> = {};
+for (let i = 0; i < 64; i++) {
+  BASE64_VALUES[BASE64_CHARS[i]] = i;
+  BASE64_VALUES[BASE64URL_CHARS[i]] = i;
+}
+
+/**
+ * Count set bits in a 32-bit integer
+ *
+ * @param x 32-bit integer (signed or unsigned)
+ * @returns Number of set bits (0-32)
+ */
+export function popcount32(x: number): number {
+  x = x - ((x >>> 1) & 0x55555555);
+  x = (x & 0x33333333) + ((x >>> 2) & 0x33333333);
+  x = (x + (x >>> 4)) & 0x0f0f0f0f;
+  return Math.imul(x, 0x01010101) >>> 24;
+}
+
+/**
+ * Read 4 bytes as a big-endian 32-bit word
+ * @internal
+ */
+function readWord(bytes: Uint8Array, offset: number): number {
+  return (bytes[offset] << 24) | (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3];
+}
+
+/**
+ * Check whether a string is a valid 64-character hex PDQ hash
+ *
+ * @param hex String to check
+ * @returns True if the string has exactly 64 hexadecimal characters
+ */
+export function isValidHex(hex: string): boolean {
+  return typeof hex === 'string' && hex.length === 64 && /^[0-9a-f]{64}$/i.test(hex);
+}
+
+/**
+ * Calculate the Hamming distance between two 32-byte hashes
+ * Callers are responsible for validating lengths.
+ *
+ * @param hash1 First hash
+ * @param hash2 Second hash
+ * @param offset1 Byte offset of the first hash (default: 0)
+ * @param offset2 Byte offset of the second hash (default: 0)
+ * @returns Hamming distance (0-256)
+ */
+export function hashHammingDistance(
+  hash1: Uint8Array,
+  hash2: Uint8Array,
+  offset1: number = 0,
+  offset2: number = 0
+): number {
+  let distance = 0;
+  for (let i = 0; i < PDQ_HASH_BYTES; i += 4) {
+    distance += popcount32(readWord(hash1, offset1 + i) ^ readWord(hash2, offset2 + i));
+  }
+  return distance;
+}
+
+/**
+ * Calculate distances from one hash to many packed hashes
+ *
+ * @param reference Reference hash (32 bytes)
+ * @param packedHashes Concatenated 32-byte hashes
+ * @returns Distance to each packed hash, in order
+ */
+export function hammingDistanceBatchBytes(reference: PDQHash, packedHashes: Uint8Array): Uint16Array {
+  const count = Math.floor(packedHashes.length / PDQ_HASH_BYTES);
+  const distances = new Uint16Array(count);
+  for (let i = 0; i < count; i++) {
+    distances[i] = hashHammingDistance(reference, packedHashes, 0, i * PDQ_HASH_BYTES);
+  }
+  return distances;
+}
+
+/**
+ * Calculate the pairwise distance matrix of packed hashes
+ *
+ * @param packedHashes Concatenated 32-byte hashes
+ * @returns Symmetric `n * n` row-major matrix
+ */
+export function distanceMatrixBytes(packedHashes: Uint8Array): Uint16Array {
+  const count = Math.floor(packedHashes.length / PDQ_HASH_BYTES);
+  const matrix = new Uint16Array(count * count);
+  for (let i = 0; i < count; i++) {
+    for (let j = i + 1; j < count; j++) {
+      const distance = hashHammingDistance(packedHashes, packedHashes, i * PDQ_HASH_BYTES, j * PDQ_HASH_BYTES);
+      matrix[i * count + j] = distance;
+      matrix[j * count + i] = distance;
+    }
+  }
+  return matrix;
+}
+
+/**
+ * Convert hash bytes to a lowercase hex string
+ *
+ * @param hash Hash bytes
+ * @returns Hex string (2 characters per byte)
+ */
+export function hashToHex(hash: Uint8Array): string {
+  let hex = '';
+  for (let i = 0; i < hash.length; i++) {
+    hex += HEX_CHARS[hash[i] >> 4] + HEX_CHARS[hash[i] & 0xf];
+  }
+  return hex;
+}
+
+/**
+ * Convert a hex string to hash bytes
+ *
+ * @param hex Hex string (upper or lower case, even length)
+ * @returns Hash bytes, or null if the string contains non-hex characters
+ */
+export function hexToHash(hex: string): Uint8Array | null {
+  if (hex.length % 2 !== 0 || !/^[0-9a-f]*$/i.test(hex)) {
+    return null;
+  }
+
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.substr(i * 2, 2), 16);
+  }
+  return bytes;
+}
+
+/**
+ * Convert hash bytes to a base64 string
+ * Implemented without `btoa`/`Buffer` so it behaves the same in every environment.
+ *
+ * @param hash Hash bytes
+ * @param urlSafe Use the URL-safe alphabet (`-`, `_`) without padding (default: false)
+ * @returns Base64 string (44 characters for a 32-byte hash, 43 if URL-safe)
+ */
+export function hashToBase64(hash: Uint8Array, urlSafe: boolean = false): string {
+  const chars = urlSafe ? BASE64URL_CHARS : BASE64_CHARS;
+  let out = '';
+  for (let i = 0; i < hash.length; i += 3) {
+    const n = (hash[i] << 16) | ((hash[i + 1] ?? 0) << 8) | (hash[i + 2] ?? 0);
+    out += chars[n >> 18] + chars[(n >> 12) & 63];
+    out += i + 1 < hash.length ? chars[(n >> 6) & 63] : '';
+    out += i + 2 < hash.length ? chars[n & 63] : '';
+  }
+  if (!urlSafe) {
+    out += '='.repeat((3 - (hash.length % 3)) % 3);
+  }
+  return out;
+}
+
+/**
+ * Convert a base64 string to hash bytes
+ * Accepts the standard and URL-safe alphabets, with or without padding.
+ *
+ * @param base64 Base64 string
+ * @returns Hash bytes, or null if the string is not valid base64
+ */
+export function base64ToHash(base64: string): Uint8Array | null {
+  const data = base64.replace(/={1,2}$/, '');
+  if (data.length % 4 === 1 || (data.length !== base64.length && base64.length % 4 !== 0)) {
+    return null;
+  }
+
+  const bytes = new Uint8Array(Math.floor((data.length * 3) / 4));
+  let bits = 0;
+  let value = 0;
+  let offset = 0;
+  for (let i = 0; i < data.length; i++) {
+    const digit = BASE64_VALUES[data[i]];
+    if (digit === undefined) {
+      return null;
+    }
+    value = (value << 6) | digit;
+    bits += 6;
+    if (bits >= 8) {
+      bits -= 8;
+      bytes[offset++] = (value >> bits) & 0xff;
+    }
+  }
+  return bytes;
+}
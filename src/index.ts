@@ -5,32 +5,176 @@
  * https://github.com/facebook/ThreatExchange/tree/main/pdq
  */
 
-export { PDQ } from './pdq';
+export { PDQ, DIHEDRAL_TRANSFORMS } from './pdq';
 export type {
   PDQHash,
   PDQHashResult,
+  PDQFloatHash,
+  PDQFloatHashResult,
+  PDQDihedralHashResult,
+  PDQDihedralTransform,
+  DihedralMatch,
   ImageData,
+  PixelFormat,
   PDQOptions,
   PDQWorkerOptions,
   SimilarityMatch,
+  SimilarityCandidate,
+  FindNearestOptions,
+  PDQHashFormat,
+  ParsedPDQHash,
 } from './types';
 
+// WASM-free hash utilities
+export {
+  PDQ_HASH_BYTES,
+  PDQ_HASH_BITS,
+  popcount32,
+  isValidHex,
+  hashHammingDistance,
+  hashToHex,
+  hexToHash,
+  hashToBase64,
+  base64ToHash,
+} from './hash-utils';
+
+// PDQF float hash utilities
+export {
+  floatHashMedian,
+  floatHashToHash,
+  maskedHammingDistance,
+  weightedHammingDistance,
+} from './pdqf';
+export type {
+  MaskedDistance,
+  MaskedDistanceOptions,
+  WeightedDistanceOptions,
+} from './pdqf';
+
+// Multi-index hashing for near-duplicate search
+export { PDQIndex } from './pdq-index';
+export type {
+  PDQIndexOptions,
+  PDQIndexSubstringCount,
+  PDQIndexEntry,
+  PDQIndexMatch,
+} from './pdq-index';
+
+// .pdqs binary hash set files
+export {
+  PDQSet,
+  PDQSetWriter,
+  encodePDQSet,
+  encodePDQSetStream,
+  decodePDQSet,
+  readPDQSet,
+  PDQ_SET_VERSION,
+  PDQ_SET_HEADER_BYTES,
+} from './pdq-set';
+export type {
+  PDQSetEntry,
+  PDQSetWriteOptions,
+  PDQSetWriterOptions,
+  PDQSetStreamOptions,
+  PDQSetReadProgress,
+  PDQSetReadOptions,
+} from './pdq-set';
+
+// ThreatExchange / HMA signal lists
+export {
+  parseThreatExchangeSignals,
+  formatThreatExchangeSignals,
+  parseHMASignals,
+  formatHMASignals,
+  parseSignals,
+  SignalMatcher,
+} from './signals';
+export type {
+  PDQSignal,
+  SignalMatch,
+  SignalMatcherOptions,
+} from './signals';
+
+// Near-duplicate grouping
+export { groupSimilarHashes, CLUSTERING_MODES } from './grouping';
+export type { ClusteringMode, HashGroup } from './grouping';
+
+// Video hashing (vPDQ)
+export {
+  hashVideoFrames,
+  dedupeVideoFrames,
+  matchVideoHashes,
+} from './vpdq';
+
+export type {
+  RGBAFrameData,
+  VPDQFrame,
+  VPDQFeature,
+  VPDQHashOptions,
+  VPDQMatchOptions,
+  VPDQMatchResult,
+} from './vpdq';
+
 // Browser utilities
 export {
   createHashChecker,
+  createBatchHashChecker,
+  createSimilarityChecker,
+  LRUCacheStore,
+  HashLookupError,
+  HashLookupTimeoutError,
+  HashLookupRetryError,
+  CircuitOpenError,
+  IndexedDBCacheStore,
   hammingDistance,
   generateHashFromDataUrl,
   generateHashFromBlob,
+  generateHashResultFromDataUrl,
+  generateHashResultFromBlob,
   detectDuplicatesByHash,
+  DuplicateDetector,
+  extractVideoFrames,
+  servePDQWorker,
+  PDQWorkerPool,
 } from './browser';
 
 export type {
   HashLookupResult,
   HashChecker,
+  CacheEntry,
+  CacheStore,
+  CacheSnapshot,
+  CacheOptions,
+  IndexedDBCacheStoreOptions,
+  BatchHashLookup,
+  BatchHashCheckerOptions,
+  NearHashMatch,
+  NearLookup,
+  SimilarityLookupResult,
+  SimilarityCheckerOptions,
+  SimilarityChecker,
+  RetryOptions,
+  CircuitBreakerOptions,
+  FailurePolicy,
   PDQImageData,
+  ImageHashResult,
   FileWithHash,
   DetectionProgress,
   ProgressCallback,
+  DetectDuplicatesOptions,
+  DuplicateGroup,
+  DuplicateDetectorOptions,
+  DuplicateDetectorGroup,
+  DuplicateDetectorEvents,
+  DuplicateDetectorListener,
+  ExtractVideoFramesOptions,
+  PDQWorkerStatus,
+  PDQWorkerStats,
+  PDQWorkerPoolOptions,
+  PoolHashOptions,
+  HashAllProgress,
+  HashAllOptions,
+  PoolHashOutcome,
 } from './browser';
 
 // Re-export as default
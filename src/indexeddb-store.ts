@@ -0,0 +1,153 @@
+/**
+ * IndexedDB-backed cache store for hash checkers
+ * Keeps `.cached()` results across page loads; works on the main thread and in workers.
+ */
+
+import type { CacheEntry, CacheStore, HashLookupResult } from './hash-checker';
+
+/**
+ * Options for {@link IndexedDBCacheStore}
+ */
+export interface IndexedDBCacheStoreOptions {
+  /** Database name (default: 'pdq-wasm-cache') */
+  dbName?: string;
+  /** Object store name (default: 'hash-lookups'); use a separate dbName for each store name */
+  storeName?: string;
+  /** IndexedDB factory (default: the global `indexedDB`) */
+  indexedDB?: IDBFactory;
+}
+
+/**
+ * Wrap an IDBRequest in a promise
+ * @internal
+ */
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error('IndexedDB request failed'));
+  });
+}
+
+/**
+ * Wait for a transaction to commit, so writes survive a page reload
+ * @internal
+ */
+function transactionToPromise(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = event => {
+      const request = event.target as IDBRequest | null;
+      reject(request?.error ?? transaction.error ?? new Error('IndexedDB transaction failed'));
+    };
+    transaction.onabort = () => reject(transaction.error ?? new Error('IndexedDB transaction aborted'));
+  });
+}
+
+/**
+ * Cache store that persists lookup results in IndexedDB
+ *
+ * Entries are kept until they are overwritten, cleared, or found expired by
+ * the checker's TTL on read, so pair this store with a `ttl`. The database is
+ * opened on first use.
+ *
+ * Results must be structured-cloneable (plain objects, arrays, dates, etc.).
+ *
+ * @example
+ * ```typescript
+ * const checkHash = createHashChecker(lookup).cached({
+ *   ttl: 24 * 60 * 60 * 1000,
+ *   store: new IndexedDBCacheStore({ dbName: 'my-app' })
+ * });
+ * ```
+ */
+export class IndexedDBCacheStore<R extends HashLookupResult = HashLookupResult> implements CacheStore<R> {
+  private readonly dbName: string;
+  private readonly storeName: string;
+  private readonly factory: IDBFactory | undefined;
+  private db: Promise<IDBDatabase> | null = null;
+
+  constructor(options: IndexedDBCacheStoreOptions = {}) {
+    this.dbName = options.dbName ?? 'pdq-wasm-cache';
+    this.storeName = options.storeName ?? 'hash-lookups';
+    this.factory = options.indexedDB ?? (typeof indexedDB !== 'undefined' ? indexedDB : undefined);
+  }
+
+  async get(hash: string): Promise<CacheEntry<R> | undefined> {
+    const store = await this.objectStore('readonly');
+    return requestToPromise<CacheEntry<R> | undefined>(store.get(hash));
+  }
+
+  async set(hash: string, entry: CacheEntry<R>): Promise<void> {
+    const store = await this.objectStore('readwrite');
+    store.put(entry, hash);
+    await transactionToPromise(store.transaction);
+  }
+
+  async delete(hash: string): Promise<void> {
+    const store = await this.objectStore('readwrite');
+    store.delete(hash);
+    await transactionToPromise(store.transaction);
+  }
+
+  async clear(): Promise<void> {
+    const store = await this.objectStore('readwrite');
+    store.clear();
+    await transactionToPromise(store.transaction);
+  }
+
+  async entries(): Promise<Array<[string, CacheEntry<R>]>> {
+    const store = await this.objectStore('readonly');
+    const [keys, values] = await Promise.all([
+      requestToPromise(store.getAllKeys()),
+      requestToPromise<CacheEntry<R>[]>(store.getAll())
+    ]);
+    return keys.map((key, i) => [String(key), values[i]]);
+  }
+
+  /**
+   * Close the database connection; the next call reopens it
+   */
+  async close(): Promise<void> {
+    const db = this.db;
+    this.db = null;
+    if (db) {
+      try {
+        (await db).close();
+      } catch {
+        // Opening failed, so there is no connection to close
+      }
+    }
+  }
+
+  /**
+   * Open the database (once) and start a transaction on the object store
+   * @internal
+   */
+  private async objectStore(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    if (!this.db) {
+      this.db = this.open();
+      // Allow a later retry if opening fails
+      this.db.catch(() => { this.db = null; });
+    }
+    const db = await this.db;
+    return db.transaction(this.storeName, mode).objectStore(this.storeName);
+  }
+
+  /**
+   * @internal
+   */
+  private open(): Promise<IDBDatabase> {
+    const factory = this.factory;
+    if (!factory) {
+      return Promise.reject(new Error('IndexedDB is not available in this environment'));
+    }
+
+    const request = factory.open(this.dbName, 1);
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(this.storeName)) {
+        request.result.createObjectStore(this.storeName);
+      }
+    };
+    return requestToPromise(request);
+  }
+}
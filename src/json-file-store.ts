@@ -0,0 +1,200 @@
+/**
+ * JSON-file cache store for hash checkers in Node.js
+ */
+
+import { readFile, writeFile, rename, mkdir } from 'fs/promises';
+import * as path from 'path';
+import type { CacheEntry, CacheSnapshot, CacheStore, HashLookupResult } from './hash-checker';
+
+/**
+ * Options for {@link JsonFileCacheStore}
+ */
+export interface JsonFileCacheStoreOptions {
+  /** Maximum entries kept; the least recently used are dropped first (default: 10000) */
+  maxSize?: number;
+}
+
+/**
+ * Cache store that keeps entries in memory and persists them to a JSON file
+ *
+ * The file is read on first use and holds a {@link CacheSnapshot}, so it can
+ * also be produced by `exportCache()`. Writes are coalesced: changes made
+ * together are saved in one write, replacing the file atomically via a
+ * temporary file. Call {@link flush} before exiting to wait for the last write.
+ *
+ * A file that is not a valid snapshot is treated as an empty cache and
+ * replaced on the next write. A read that fails (for example with EACCES or
+ * EMFILE) rejects that call, and the next call reads the file again.
+ *
+ * @example
+ * ```typescript
+ * import { JsonFileCacheStore } from 'pdq-wasm/node';
+ *
+ * const store = new JsonFileCacheStore('.cache/hash-lookups.json');
+ * const checkHash = createHashChecker(lookup).cached({ ttl: 7 * 24 * 60 * 60 * 1000, store });
+ *
+ * // ... check hashes ...
+ * await store.flush();
+ * ```
+ */
+export class JsonFileCacheStore<R extends HashLookupResult = HashLookupResult> implements CacheStore<R> {
+  private readonly filePath: string;
+  private readonly maxSize: number;
+  private cache: Promise<Map<string, CacheEntry<R>>> | null = null;
+  private pendingWrite: Promise<void> | null = null;
+  private dirty = false;
+  /** Changes waiting for the file to load */
+  private pendingChanges = new Set<Promise<void>>();
+
+  /**
+   * @param filePath Path of the JSON file (created on first write)
+   * @param options Size limit
+   */
+  constructor(filePath: string, options: JsonFileCacheStoreOptions = {}) {
+    this.filePath = filePath;
+    this.maxSize = options.maxSize ?? 10000;
+  }
+
+  async get(hash: string): Promise<CacheEntry<R> | undefined> {
+    const cache = await this.load();
+    const entry = cache.get(hash);
+    if (entry !== undefined) {
+      // Move to end (most recently used); not worth a write on its own
+      cache.delete(hash);
+      cache.set(hash, entry);
+    }
+    return entry;
+  }
+
+  set(hash: string, entry: CacheEntry<R>): Promise<void> {
+    return this.change(cache => {
+      cache.delete(hash);
+      cache.set(hash, entry);
+
+      while (cache.size > this.maxSize) {
+        cache.delete(cache.keys().next().value!);
+      }
+      return true;
+    });
+  }
+
+  delete(hash: string): Promise<void> {
+    return this.change(cache => cache.delete(hash));
+  }
+
+  clear(): Promise<void> {
+    return this.change(cache => {
+      cache.clear();
+      return true;
+    });
+  }
+
+  async entries(): Promise<Array<[string, CacheEntry<R>]>> {
+    return Array.from((await this.load()).entries());
+  }
+
+  /**
+   * Wait until every change so far has been written to disk
+   */
+  async flush(): Promise<void> {
+    await Promise.all(this.pendingChanges);
+    await this.pendingWrite;
+  }
+
+  /**
+   * Apply a change once the file is loaded, then save if it modified anything
+   * Tracked so flush() also covers changes still waiting for the load.
+   * @internal
+   */
+  private change(apply: (cache: Map<string, CacheEntry<R>>) => boolean): Promise<void> {
+    const pending = this.load().then(cache => (apply(cache) ? this.save() : undefined));
+    this.pendingChanges.add(pending);
+    const untrack = () => { this.pendingChanges.delete(pending); };
+    pending.then(untrack, untrack);
+    return pending;
+  }
+
+  /**
+   * Read the file once, or again after a failed read
+   * @internal
+   */
+  private load(): Promise<Map<string, CacheEntry<R>>> {
+    if (!this.cache) {
+      const cache = this.read();
+      this.cache = cache;
+      cache.catch(() => {
+        if (this.cache === cache) {
+          this.cache = null;
+        }
+      });
+    }
+    return this.cache;
+  }
+
+  /**
+   * @internal
+   */
+  private async read(): Promise<Map<string, CacheEntry<R>>> {
+    let text: string;
+    try {
+      text = await readFile(this.filePath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return new Map();
+      }
+      throw error;
+    }
+
+    // A corrupt or half-written file only costs the lookups it cached
+    let snapshot: CacheSnapshot<R> | null;
+    try {
+      snapshot = JSON.parse(text);
+    } catch {
+      return new Map();
+    }
+    if (!snapshot || snapshot.version !== 1 || !Array.isArray(snapshot.entries)) {
+      return new Map();
+    }
+    return new Map(snapshot.entries);
+  }
+
+  /**
+   * Schedule a write; changes made before it starts are saved together
+   * @internal
+   */
+  private save(): Promise<void> {
+    this.dirty = true;
+    if (!this.pendingWrite) {
+      this.pendingWrite = this.writeLoop();
+    }
+    return this.pendingWrite;
+  }
+
+  /**
+   * @internal
+   */
+  private async writeLoop(): Promise<void> {
+    try {
+      // Let other changes from this tick join the write
+      await Promise.resolve();
+      while (this.dirty) {
+        this.dirty = false;
+        await this.write();
+      }
+    } finally {
+      this.pendingWrite = null;
+    }
+  }
+
+  /**
+   * @internal
+   */
+  private async write(): Promise<void> {
+    const snapshot: CacheSnapshot<R> = { version: 1, entries: await this.entries() };
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+
+    await mkdir(path.dirname(this.filePath), { recursive: true });
+    await writeFile(tempPath, JSON.stringify(snapshot));
+    await rename(tempPath, this.filePath);
+  }
+}
@@ -0,0 +1,171 @@
+/**
+ * Node.js utilities for PDQ perceptual hashing
+ * Hash encoded image files (PNG, JPEG, BMP, PBM/PGM/PPM) without a native image library
+ */
+
+import { readFile, open } from 'fs/promises';
+import { PDQ } from './pdq';
+import type { PDQHashResult } from './types';
+import { decodeImage, type ImageFormat } from './decoders/index';
+import { decodePDQSet, PDQSetWriter, PDQ_SET_HEADER_BYTES, type PDQSet, type PDQSetEntry, type PDQSetWriteOptions } from './pdq-set';
+
+export { decodeImage, detectImageFormat } from './decoders/index';
+export type { ImageFormat, DecodedImage } from './decoders/index';
+export { JsonFileCacheStore } from './json-file-store';
+export type { JsonFileCacheStoreOptions } from './json-file-store';
+
+/**
+ * Result of hashing an encoded image
+ */
+export interface FileHashResult extends PDQHashResult {
+  /** Detected image format */
+  format: ImageFormat;
+  /** Decoded image width in pixels */
+  width: number;
+  /** Decoded image height in pixels */
+  height: number;
+}
+
+/**
+ * Options for {@link hashBuffer} and {@link hashFile}
+ */
+export interface FileHashOptions {
+  /**
+   * PDQ instance to hash with (default: the static PDQ API)
+   * The static API is initialized automatically on first use.
+   */
+  pdq?: PDQ;
+}
+
+/**
+ * Hash an encoded image held in memory
+ *
+ * @param buffer Encoded image bytes (Buffer or Uint8Array)
+ * @param options Hashing options
+ * @returns PDQ hash and quality, plus the detected format and dimensions
+ * @throws Error if the format is not supported or the file is malformed
+ *
+ * @example
+ * ```typescript
+ * import { hashBuffer } from 'pdq-wasm/node';
+ *
+ * const response = await fetch(url);
+ * const result = await hashBuffer(new Uint8Array(await response.arrayBuffer()));
+ * console.log(result.format, PDQ.toHex(result.hash), result.quality);
+ * ```
+ */
+export async function hashBuffer(buffer: Uint8Array, options: FileHashOptions = {}): Promise<FileHashResult> {
+  const pdq = options.pdq ?? PDQ;
+  if (!options.pdq) {
+    await PDQ.init();
+  }
+
+  const { format, ...image } = decodeImage(buffer);
+  const { hash, quality } = pdq.hash(image);
+
+  return { hash, quality, format, width: image.width, height: image.height };
+}
+
+/**
+ * Read and hash an image file
+ *
+ * @param path Path to a PNG, JPEG, BMP or PBM/PGM/PPM file
+ * @param options Hashing options
+ * @returns PDQ hash and quality, plus the detected format and dimensions
+ * @throws Error if the file cannot be read, the format is not supported or the file is malformed
+ *
+ * @example
+ * ```typescript
+ * import { hashFile } from 'pdq-wasm/node';
+ * import { PDQ } from 'pdq-wasm';
+ *
+ * const a = await hashFile('photo.jpg');
+ * const b = await hashFile('photo-resized.png');
+ * console.log(PDQ.hammingDistance(a.hash, b.hash));
+ * ```
+ */
+export async function hashFile(path: string, options: FileHashOptions = {}): Promise<FileHashResult> {
+  const buffer = await readFile(path);
+  try {
+    return await hashBuffer(buffer, options);
+  } catch (error) {
+    throw new Error(`Failed to hash ${path}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Read a `.pdqs` hash set file
+ *
+ * @param path Path to the file
+ * @returns The hash set; `set.hashes` is a view into the file bytes
+ * @throws Error if the file cannot be read or is not a valid `.pdqs` file
+ *
+ * @example
+ * ```typescript
+ * import { readPDQSetFile } from 'pdq-wasm/node';
+ *
+ * const blocklist = await readPDQSetFile('blocklist.pdqs');
+ * const distances = PDQ.hammingDistanceBatch(result.hash, blocklist.hashes);
+ * ```
+ */
+export async function readPDQSetFile<M = unknown>(path: string): Promise<PDQSet<M>> {
+  const bytes = await readFile(path);
+  try {
+    return decodePDQSet<M>(new Uint8Array(bytes.buffer, bytes.byteOffset, bytes.length));
+  } catch (error) {
+    throw new Error(`Failed to read ${path}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Write entries to a `.pdqs` hash set file
+ *
+ * Entries are streamed to disk in chunks, so `entries` can be an async
+ * iterable such as a database cursor; the count in the header is filled in
+ * once all entries are written.
+ *
+ * @param path Path of the file to create or replace
+ * @param entries Entries to write
+ * @param options Optional quality and metadata sections
+ * @returns Number of entries written
+ * @throws Error if a hash or quality is invalid, or the file cannot be written
+ *
+ * @example
+ * ```typescript
+ * import { writePDQSetFile } from 'pdq-wasm/node';
+ *
+ * await writePDQSetFile('blocklist.pdqs', signals.map(s => ({ hash: s.hash, quality: s.quality })), {
+ *   quality: true
+ * });
+ * ```
+ */
+export async function writePDQSetFile<M>(
+  path: string,
+  entries: Iterable<PDQSetEntry<M>> | AsyncIterable<PDQSetEntry<M>>,
+  options: PDQSetWriteOptions = {}
+): Promise<number> {
+  const writer = new PDQSetWriter<M>(options);
+  const file = await open(path, 'w');
+  try {
+    // Placeholder until the count is known
+    await file.write(new Uint8Array(PDQ_SET_HEADER_BYTES));
+
+    const chunk = new Uint8Array(2048 * 32);
+    let used = 0;
+    for await (const entry of entries) {
+      chunk.set(writer.write(entry), used);
+      used += 32;
+      if (used === chunk.length) {
+        await file.write(chunk);
+        used = 0;
+      }
+    }
+    await file.write(chunk.subarray(0, used));
+    await file.write(writer.finish());
+    await file.write(writer.header(), 0, PDQ_SET_HEADER_BYTES, 0);
+  } finally {
+    await file.close();
+  }
+  return writer.size;
+}
+
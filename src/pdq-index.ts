@@ -0,0 +1,422 @@
+/**
+ * Multi-index hashing (MIH) for sub-linear PDQ near-duplicate search
+ *
+ * Based on Norouzi, Punjani & Fleet, "Fast Search in Hamming Space with
+ * Multi-Index Hashing" (CVPR 2012). Each 256-bit hash is split into `m`
+ * disjoint substrings, and each substring is stored in its own hash table.
+ * By the pigeonhole principle, any hash within distance `r` of a query must
+ * match the query within distance `floor(r / m)` on at least one substring,
+ * so a range query only has to probe a small neighbourhood in each table.
+ */
+
+import type { PDQHash } from './types';
+import { popcount32, isValidHex, hexToHash } from './hash-utils';
+
+/**
+ * Number of substrings a 256-bit hash is split into
+ * 16 (16-bit substrings) is a good default for the PDQ threshold of 31.
+ */
+export type PDQIndexSubstringCount = 8 | 16 | 32;
+
+/**
+ * PDQIndex configuration options
+ */
+export interface PDQIndexOptions {
+  /** Number of substrings/tables (default: 16) */
+  substringCount?: PDQIndexSubstringCount;
+}
+
+/**
+ * An entry stored in a PDQIndex
+ */
+export interface PDQIndexEntry<T> {
+  /** Identifier returned by {@link PDQIndex.add} */
+  id: number;
+  /** The 256-bit PDQ hash */
+  hash: PDQHash;
+  /** Arbitrary payload supplied when the entry was added */
+  payload: T;
+}
+
+/**
+ * A search result from a PDQIndex
+ */
+export interface PDQIndexMatch<T> extends PDQIndexEntry<T> {
+  /** Hamming distance from the query hash (0-256) */
+  distance: number;
+}
+
+/**
+ * Stored entry with the hash unpacked into 32-bit words for fast distance checks
+ * @internal
+ */
+interface StoredEntry<T> extends PDQIndexEntry<T> {
+  words: Uint32Array;
+  keys: number[];
+}
+
+/**
+ * Binomial coefficient, used to estimate how many table keys a probe visits
+ * @internal
+ */
+function binomial(n: number, k: number): number {
+  let result = 1;
+  for (let i = 1; i <= k; i++) {
+    result = (result * (n - k + i)) / i;
+  }
+  return result;
+}
+
+/**
+ * Normalize a PDQHash or 64-character hex string into 32 bytes
+ * @internal
+ */
+function toHashBytes(hash: PDQHash | string): PDQHash {
+  if (typeof hash === 'string') {
+    if (!isValidHex(hash)) {
+      throw new Error('Invalid PDQ hash: must be 64 hexadecimal characters');
+    }
+    return hexToHash(hash)!;
+  }
+
+  if (hash.length !== 32) {
+    throw new Error(`Invalid hash length. PDQ hashes must be 32 bytes (got ${hash.length})`);
+  }
+  return new Uint8Array(hash);
+}
+
+/**
+ * Pack 32 hash bytes into 8 big-endian 32-bit words
+ * @internal
+ */
+function toWords(bytes: PDQHash): Uint32Array {
+  const words = new Uint32Array(8);
+  for (let i = 0; i < 8; i++) {
+    words[i] = ((bytes[i * 4] << 24) | (bytes[i * 4 + 1] << 16) | (bytes[i * 4 + 2] << 8) | bytes[i * 4 + 3]) >>> 0;
+  }
+  return words;
+}
+
+/**
+ * Multi-index hash table for exact range and top-k Hamming queries over PDQ hashes
+ *
+ * @typeParam T Type of the payload carried by each entry
+ *
+ * @example
+ * ```typescript
+ * const index = new PDQIndex<{ url: string }>();
+ * index.add(hashHex, { url: '/images/1.jpg' });
+ *
+ * // All stored hashes within the PDQ duplicate threshold
+ * const matches = index.search(queryHash, 31);
+ *
+ * // The 5 closest stored hashes
+ * const nearest = index.nearest(queryHash, 5);
+ * ```
+ */
+export class PDQIndex<T = undefined> {
+  private readonly substringCount: number;
+  private readonly substringBits: number;
+  private readonly substringBytes: number;
+  private readonly tables: Map<number, Set<number>>[];
+  private readonly entries = new Map<number, StoredEntry<T>>();
+  private nextId = 0;
+
+  constructor(options: PDQIndexOptions = {}) {
+    const substringCount = options.substringCount ?? 16;
+    if (substringCount !== 8 && substringCount !== 16 && substringCount !== 32) {
+      throw new Error(`Invalid substringCount: ${substringCount}. Must be 8, 16 or 32`);
+    }
+
+    this.substringCount = substringCount;
+    this.substringBits = 256 / substringCount;
+    this.substringBytes = this.substringBits / 8;
+    this.tables = Array.from({ length: substringCount }, () => new Map<number, Set<number>>());
+  }
+
+  /**
+   * Number of entries in the index
+   */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Add a hash to the index
+   *
+   * @param hash PDQ hash bytes or 64-character hex string
+   * @param payload Optional data returned with matches for this entry
+   * @returns Identifier of the new entry, used by {@link PDQIndex.remove}
+   */
+  add(hash: PDQHash | string, payload?: T): number {
+    const bytes = toHashBytes(hash);
+    const id = this.nextId++;
+    const keys = this.substringKeys(bytes);
+
+    this.entries.set(id, {
+      id,
+      hash: bytes,
+      payload: payload as T,
+      words: toWords(bytes),
+      keys,
+    });
+
+    keys.forEach((key, table) => {
+      let bucket = this.tables[table].get(key);
+      if (!bucket) {
+        bucket = new Set();
+        this.tables[table].set(key, bucket);
+      }
+      bucket.add(id);
+    });
+
+    return id;
+  }
+
+  /**
+   * Remove an entry from the index
+   *
+   * @param id Identifier returned by {@link PDQIndex.add}
+   * @returns True if the entry existed and was removed
+   */
+  remove(id: number): boolean {
+    const entry = this.entries.get(id);
+    if (!entry) {
+      return false;
+    }
+
+    entry.keys.forEach((key, table) => {
+      const bucket = this.tables[table].get(key);
+      if (bucket) {
+        bucket.delete(id);
+        if (bucket.size === 0) {
+          this.tables[table].delete(key);
+        }
+      }
+    });
+
+    this.entries.delete(id);
+    return true;
+  }
+
+  /**
+   * Get an entry by identifier
+   */
+  get(id: number): PDQIndexEntry<T> | undefined {
+    const entry = this.entries.get(id);
+    return entry ? { id: entry.id, hash: entry.hash, payload: entry.payload } : undefined;
+  }
+
+  /**
+   * Check whether an entry exists
+   */
+  has(id: number): boolean {
+    return this.entries.has(id);
+  }
+
+  /**
+   * Remove all entries
+   */
+  clear(): void {
+    this.entries.clear();
+    for (const table of this.tables) {
+      table.clear();
+    }
+  }
+
+  /**
+   * Find every stored hash within a Hamming distance of the query
+   * Results are exact (no false negatives) and sorted by distance, then insertion order.
+   *
+   * @param hash Query hash bytes or 64-character hex string
+   * @param maxDistance Maximum Hamming distance to include (default: 31)
+   * @returns Matching entries with their distances
+   */
+  search(hash: PDQHash | string, maxDistance: number = 31): PDQIndexMatch<T>[] {
+    const bytes = toHashBytes(hash);
+    const words = toWords(bytes);
+
+    if (maxDistance < 0) {
+      return [];
+    }
+
+    const radius = Math.floor(maxDistance / this.substringCount);
+    const matches: PDQIndexMatch<T>[] = [];
+
+    if (this.probeCost(radius) >= this.entries.size) {
+      // Probing would visit more keys than there are entries, so scan instead
+      for (const entry of this.entries.values()) {
+        const distance = this.distance(words, entry.words);
+        if (distance <= maxDistance) {
+          matches.push(this.toMatch(entry, distance));
+        }
+      }
+    } else {
+      const seen = new Set<number>();
+      const keys = this.substringKeys(bytes);
+      for (let r = 0; r <= radius; r++) {
+        this.probe(keys, r, (entry) => {
+          if (seen.has(entry.id)) return;
+          seen.add(entry.id);
+          const distance = this.distance(words, entry.words);
+          if (distance <= maxDistance) {
+            matches.push(this.toMatch(entry, distance));
+          }
+        });
+      }
+    }
+
+    return matches.sort(compareMatches);
+  }
+
+  /**
+   * Find the `k` stored hashes closest to the query
+   * The search radius grows until `k` results are guaranteed to be the true nearest.
+   *
+   * @param hash Query hash bytes or 64-character hex string
+   * @param k Maximum number of results
+   * @param maxDistance Maximum Hamming distance to include (default: 256)
+   * @returns Up to `k` entries sorted by distance, then insertion order
+   */
+  nearest(hash: PDQHash | string, k: number, maxDistance: number = 256): PDQIndexMatch<T>[] {
+    const bytes = toHashBytes(hash);
+    const words = toWords(bytes);
+
+    if (k <= 0 || maxDistance < 0) {
+      return [];
+    }
+
+    const keys = this.substringKeys(bytes);
+    const candidates = new Map<number, PDQIndexMatch<T>>();
+
+    for (let r = 0; r <= this.substringBits; r++) {
+      if (this.probeCost(r) - this.probeCost(r - 1) >= this.entries.size) {
+        // Widening further costs more than a scan, so finish with one
+        for (const entry of this.entries.values()) {
+          if (!candidates.has(entry.id)) {
+            candidates.set(entry.id, this.toMatch(entry, this.distance(words, entry.words)));
+          }
+        }
+        break;
+      }
+
+      this.probe(keys, r, (entry) => {
+        if (!candidates.has(entry.id)) {
+          candidates.set(entry.id, this.toMatch(entry, this.distance(words, entry.words)));
+        }
+      });
+
+      // Every hash within this distance has now been seen
+      const guaranteed = Math.min(this.substringCount * (r + 1) - 1, maxDistance);
+      if (guaranteed === maxDistance) {
+        break;
+      }
+      let found = 0;
+      for (const match of candidates.values()) {
+        if (match.distance <= guaranteed && ++found >= k) break;
+      }
+      if (found >= k) {
+        break;
+      }
+    }
+
+    return Array.from(candidates.values())
+      .filter(match => match.distance <= maxDistance)
+      .sort(compareMatches)
+      .slice(0, k);
+  }
+
+  /**
+   * Iterate over all entries in insertion order
+   */
+  *[Symbol.iterator](): IterableIterator<PDQIndexEntry<T>> {
+    for (const entry of this.entries.values()) {
+      yield { id: entry.id, hash: entry.hash, payload: entry.payload };
+    }
+  }
+
+  /**
+   * Split hash bytes into substring keys
+   */
+  private substringKeys(bytes: PDQHash): number[] {
+    const keys: number[] = [];
+    for (let i = 0; i < this.substringCount; i++) {
+      let key = 0;
+      for (let j = 0; j < this.substringBytes; j++) {
+        key = (key * 256) + bytes[i * this.substringBytes + j];
+      }
+      keys.push(key);
+    }
+    return keys;
+  }
+
+  /**
+   * Total number of table lookups needed to probe every table up to a substring radius
+   */
+  private probeCost(radius: number): number {
+    let perTable = 0;
+    for (let r = 0; r <= radius; r++) {
+      perTable += binomial(this.substringBits, r);
+    }
+    return perTable * this.substringCount;
+  }
+
+  /**
+   * Visit every entry whose substring differs from the query in exactly `radius` bits
+   * in at least one table (entries may be visited more than once)
+   */
+  private probe(keys: number[], radius: number, visit: (entry: StoredEntry<T>) => void): void {
+    keys.forEach((key, table) => {
+      forEachNeighbour(key, this.substringBits, radius, (neighbour) => {
+        const bucket = this.tables[table].get(neighbour);
+        if (bucket) {
+          for (const id of bucket) {
+            visit(this.entries.get(id)!);
+          }
+        }
+      });
+    });
+  }
+
+  private distance(a: Uint32Array, b: Uint32Array): number {
+    let distance = 0;
+    for (let i = 0; i < 8; i++) {
+      distance += popcount32(a[i] ^ b[i]);
+    }
+    return distance;
+  }
+
+  private toMatch(entry: StoredEntry<T>, distance: number): PDQIndexMatch<T> {
+    return { id: entry.id, hash: entry.hash, payload: entry.payload, distance };
+  }
+}
+
+/**
+ * Enumerate every key that differs from `key` in exactly `radius` of its `bits` low bits
+ * @internal
+ */
+function forEachNeighbour(
+  key: number,
+  bits: number,
+  radius: number,
+  visit: (neighbour: number) => void,
+  start: number = 0
+): void {
+  if (radius === 0) {
+    visit(key);
+    return;
+  }
+  for (let bit = start; bit <= bits - radius; bit++) {
+    // Coerce back to unsigned so 32-bit substring keys match the stored keys
+    const flipped = (key ^ (1 << bit)) >>> 0;
+    forEachNeighbour(flipped, bits, radius - 1, visit, bit + 1);
+  }
+}
+
+/**
+ * Order matches by distance, then by insertion order
+ * @internal
+ */
+function compareMatches<T>(a: PDQIndexMatch<T>, b: PDQIndexMatch<T>): number {
+  return a.distance - b.distance || a.id - b.id;
+}
@@ -0,0 +1,530 @@
+/**
+ * `.pdqs` binary hash set files
+ *
+ * A compact, versioned container for large hash lists. All integers are
+ * little-endian:
+ *
+ * | Offset | Size | Field |
+ * |--------|------|-------|
+ * | 0 | 4 | Magic `PDQS` |
+ * | 4 | 1 | Format version (1) |
+ * | 5 | 1 | Flags: 1 = quality section, 2 = metadata section |
+ * | 6 | 2 | Reserved (0) |
+ * | 8 | 4 | Entry count `n` |
+ * | 12 | 4 | Reserved (0) |
+ * | 16 | 32n | Packed hashes |
+ * | 16 + 32n | n | Quality bytes (if flag 1) |
+ * | ... | 4 + m | Metadata: byte length `m`, then a UTF-8 JSON array of `n` values (if flag 2) |
+ *
+ * Hashes come first and start 16 bytes in, so a loaded file can be handed to
+ * `PDQ.hammingDistanceBatch()` without copying.
+ */
+
+import type { PDQHash } from './types';
+import { isValidHex, hexToHash, hashToHex, PDQ_HASH_BYTES } from './hash-utils';
+import { PDQIndex, type PDQIndexOptions } from './pdq-index';
+
+/** Current `.pdqs` format version */
+export const PDQ_SET_VERSION = 1;
+
+/** Size of the `.pdqs` header in bytes */
+export const PDQ_SET_HEADER_BYTES = 16;
+
+/** "PDQS" */
+const MAGIC = [0x50, 0x44, 0x51, 0x53];
+const FLAG_QUALITY = 1;
+const FLAG_METADATA = 2;
+
+/**
+ * An entry written to or read from a `.pdqs` file
+ */
+export interface PDQSetEntry<M = unknown> {
+  /** Hash bytes or 64-character hex */
+  hash: PDQHash | string;
+  /** Quality score (0-100); written when the set has a quality section */
+  quality?: number;
+  /** JSON-serializable data; written when the set has a metadata section */
+  metadata?: M;
+}
+
+/**
+ * Options for writing `.pdqs` files
+ */
+export interface PDQSetWriteOptions {
+  /** Write a quality byte per entry (missing qualities are written as 0) */
+  quality?: boolean;
+  /** Write a metadata value per entry (missing values are written as null) */
+  metadata?: boolean;
+}
+
+/**
+ * Options for {@link PDQSetWriter}
+ */
+export interface PDQSetWriterOptions extends PDQSetWriteOptions {
+  /**
+   * Number of entries that will be written, recorded in the header
+   * Without it, the header is only known after {@link PDQSetWriter.finish}.
+   */
+  count?: number;
+}
+
+/**
+ * Options for {@link encodePDQSetStream}
+ */
+export interface PDQSetStreamOptions extends PDQSetWriteOptions {
+  /** Number of entries that will be written, recorded in the header */
+  count: number;
+}
+
+/**
+ * Progress reported by {@link readPDQSet}
+ */
+export interface PDQSetReadProgress {
+  /** Bytes read so far */
+  loaded: number;
+  /** Total file size, once the header has been read */
+  total: number | null;
+}
+
+/**
+ * Options for {@link readPDQSet}
+ */
+export interface PDQSetReadOptions {
+  /** Called after each chunk */
+  onProgress?: (progress: PDQSetReadProgress) => void;
+}
+
+/**
+ * Parsed `.pdqs` header
+ * @internal
+ */
+interface PDQSetHeader {
+  count: number;
+  flags: number;
+}
+
+/**
+ * A loaded `.pdqs` hash set
+ *
+ * `hashes` and `qualities` are views into the bytes the set was decoded from,
+ * not copies.
+ *
+ * @example
+ * ```typescript
+ * const set = decodePDQSet(bytes);
+ * const distances = PDQ.hammingDistanceBatch(probe, set.hashes);
+ * const closest = distances.indexOf(Math.min(...distances));
+ * console.log(set.hex(closest), set.metadata?.[closest]);
+ * ```
+ */
+export class PDQSet<M = unknown> {
+  /** Format version of the file */
+  readonly version: number;
+  /** Number of entries */
+  readonly count: number;
+  /** Packed 32-byte hashes (`count * 32` bytes) */
+  readonly hashes: Uint8Array;
+  /** One quality byte per entry, or null if the file has no quality section */
+  readonly qualities: Uint8Array | null;
+  /** One metadata value per entry, or null if the file has no metadata section */
+  readonly metadata: M[] | null;
+
+  /** @internal */
+  constructor(version: number, hashes: Uint8Array, qualities: Uint8Array | null, metadata: M[] | null) {
+    this.version = version;
+    this.count = hashes.length / PDQ_HASH_BYTES;
+    this.hashes = hashes;
+    this.qualities = qualities;
+    this.metadata = metadata;
+  }
+
+  /**
+   * Hash of an entry, as a view into {@link hashes}
+   * @param index Entry position
+   */
+  hash(index: number): PDQHash {
+    this.checkIndex(index);
+    return this.hashes.subarray(index * PDQ_HASH_BYTES, (index + 1) * PDQ_HASH_BYTES);
+  }
+
+  /**
+   * Hash of an entry as lowercase hex
+   * @param index Entry position
+   */
+  hex(index: number): string {
+    return hashToHex(this.hash(index));
+  }
+
+  /**
+   * Entry at a position, with quality and metadata when present
+   * @param index Entry position
+   */
+  entry(index: number): PDQSetEntry<M> & { hash: PDQHash } {
+    const entry: PDQSetEntry<M> & { hash: PDQHash } = { hash: this.hash(index) };
+    if (this.qualities) entry.quality = this.qualities[index];
+    if (this.metadata) entry.metadata = this.metadata[index];
+    return entry;
+  }
+
+  *[Symbol.iterator](): IterableIterator<PDQSetEntry<M> & { hash: PDQHash }> {
+    for (let i = 0; i < this.count; i++) {
+      yield this.entry(i);
+    }
+  }
+
+  /**
+   * Build a {@link PDQIndex} over the set
+   * Payloads are entry positions; look up metadata with `set.metadata[payload]`.
+   *
+   * @param options Index options
+   * @returns Index with one entry per hash
+   */
+  toIndex(options?: PDQIndexOptions): PDQIndex<number> {
+    const index = new PDQIndex<number>(options);
+    for (let i = 0; i < this.count; i++) {
+      index.add(this.hash(i), i);
+    }
+    return index;
+  }
+
+  /** @internal */
+  private checkIndex(index: number): void {
+    if (!Number.isInteger(index) || index < 0 || index >= this.count) {
+      throw new Error(`Invalid entry index: ${index}. Must be an integer from 0 to ${this.count - 1}`);
+    }
+  }
+}
+
+/**
+ * Normalize an entry's hash to 32 bytes
+ * @internal
+ */
+function entryHash(hash: PDQHash | string, position: number): PDQHash {
+  if (typeof hash === 'string') {
+    if (!isValidHex(hash)) {
+      throw new Error(`Invalid PDQ hash at entry ${position}: must be 64 hexadecimal characters`);
+    }
+    return hexToHash(hash)!;
+  }
+  if (hash.length !== PDQ_HASH_BYTES) {
+    throw new Error(`Invalid hash length at entry ${position}. Expected 32 bytes, got ${hash.length}`);
+  }
+  return hash;
+}
+
+/**
+ * Read and validate the 16-byte header
+ * @internal
+ */
+function readHeader(bytes: Uint8Array): PDQSetHeader {
+  if (bytes.length < PDQ_SET_HEADER_BYTES) {
+    throw new Error(`Invalid PDQ set: expected at least ${PDQ_SET_HEADER_BYTES} bytes, got ${bytes.length}`);
+  }
+  if (MAGIC.some((byte, i) => bytes[i] !== byte)) {
+    throw new Error('Invalid PDQ set: missing PDQS header');
+  }
+  const view = new DataView(bytes.buffer, bytes.byteOffset, PDQ_SET_HEADER_BYTES);
+  const version = view.getUint8(4);
+  const flags = view.getUint8(5);
+  if (version !== PDQ_SET_VERSION) {
+    throw new Error(`Unsupported PDQ set version: ${version}`);
+  }
+  if (flags & ~(FLAG_QUALITY | FLAG_METADATA)) {
+    throw new Error(`Invalid PDQ set: unknown flags 0x${flags.toString(16)}`);
+  }
+  return { count: view.getUint32(8, true), flags };
+}
+
+/**
+ * Size of the header, hash and quality sections
+ * @internal
+ */
+function fixedSize({ count, flags }: PDQSetHeader): number {
+  return PDQ_SET_HEADER_BYTES + count * PDQ_HASH_BYTES + (flags & FLAG_QUALITY ? count : 0);
+}
+
+/**
+ * Write a quality value as a byte
+ * @internal
+ */
+function qualityByte(quality: number | undefined, position: number): number {
+  if (quality === undefined) return 0;
+  if (!Number.isInteger(quality) || quality < 0 || quality > 100) {
+    throw new Error(`Invalid quality at entry ${position}: ${quality}. Must be an integer from 0 to 100`);
+  }
+  return quality;
+}
+
+/**
+ * Incremental `.pdqs` encoder
+ *
+ * Emits the header and each hash as soon as they are written, so large sets
+ * can be streamed without holding the hash section in memory. Quality bytes
+ * and metadata are kept until {@link finish}, since they follow the hashes.
+ *
+ * If `count` is not known up front, write a placeholder for the header, and
+ * overwrite the first 16 bytes with {@link header} after {@link finish}.
+ *
+ * @example
+ * ```typescript
+ * const writer = new PDQSetWriter({ count: rows.length, quality: true });
+ * out.write(writer.header());
+ * for (const row of rows) out.write(writer.write({ hash: row.hash, quality: row.quality }));
+ * out.write(writer.finish());
+ * ```
+ */
+export class PDQSetWriter<M = unknown> {
+  private readonly count: number | undefined;
+  private readonly flags: number;
+  private readonly qualities: number[] | null;
+  private readonly metadata: unknown[] | null;
+  private written = 0;
+
+  /**
+   * @param options Entry count and optional sections
+   * @throws Error if the count is invalid
+   */
+  constructor(options: PDQSetWriterOptions = {}) {
+    const count = options.count;
+    if (count !== undefined && (!Number.isInteger(count) || count < 0 || count > 0xffffffff)) {
+      throw new Error(`Invalid count: ${count}. Must be a non-negative 32-bit integer`);
+    }
+    this.count = count;
+    this.flags = (options.quality ? FLAG_QUALITY : 0) | (options.metadata ? FLAG_METADATA : 0);
+    this.qualities = options.quality ? [] : null;
+    this.metadata = options.metadata ? [] : null;
+  }
+
+  /** Number of entries written so far */
+  get size(): number {
+    return this.written;
+  }
+
+  /**
+   * The 16-byte header; emit it first
+   * Without a `count` option it records the entries written so far.
+   */
+  header(): Uint8Array {
+    const header = new Uint8Array(PDQ_SET_HEADER_BYTES);
+    header.set(MAGIC);
+    header[4] = PDQ_SET_VERSION;
+    header[5] = this.flags;
+    new DataView(header.buffer).setUint32(8, this.count ?? this.written, true);
+    return header;
+  }
+
+  /**
+   * Add an entry
+   * @param entry Hash with optional quality and metadata
+   * @returns The 32 hash bytes to emit
+   * @throws Error if the hash or quality is invalid, or more than `count` entries are written
+   */
+  write(entry: PDQSetEntry<M>): Uint8Array {
+    const position = this.written;
+    if (position >= (this.count ?? 0xffffffff)) {
+      throw new Error(`PDQ set already has ${position} entries`);
+    }
+    const hash = entryHash(entry.hash, position);
+    if (this.qualities) this.qualities.push(qualityByte(entry.quality, position));
+    if (this.metadata) this.metadata.push(entry.metadata ?? null);
+    this.written++;
+    return hash;
+  }
+
+  /**
+   * Finish the set
+   * @returns The quality and metadata sections to emit last (may be empty)
+   * @throws Error if fewer than `count` entries were written
+   */
+  finish(): Uint8Array {
+    if (this.count !== undefined && this.written !== this.count) {
+      throw new Error(`PDQ set header promised ${this.count} entries, but ${this.written} were written`);
+    }
+
+    const metadata = this.metadata ? new TextEncoder().encode(JSON.stringify(this.metadata)) : null;
+    const qualityBytes = this.qualities?.length ?? 0;
+    const tail = new Uint8Array(qualityBytes + (metadata ? 4 + metadata.length : 0));
+    if (this.qualities) tail.set(this.qualities);
+    if (metadata) {
+      new DataView(tail.buffer).setUint32(qualityBytes, metadata.length, true);
+      tail.set(metadata, qualityBytes + 4);
+    }
+    return tail;
+  }
+}
+
+/**
+ * Encode entries as a `.pdqs` file in memory
+ *
+ * @param entries Entries to write
+ * @param options Optional quality and metadata sections
+ * @returns File bytes
+ * @throws Error if a hash or quality is invalid
+ *
+ * @example
+ * ```typescript
+ * const bytes = encodePDQSet(signals.map(s => ({ hash: s.hash, quality: s.quality, metadata: { id: s.id } })), {
+ *   quality: true,
+ *   metadata: true
+ * });
+ * ```
+ */
+export function encodePDQSet<M>(entries: Iterable<PDQSetEntry<M>>, options: PDQSetWriteOptions = {}): Uint8Array {
+  const list = Array.from(entries);
+  const writer = new PDQSetWriter<M>({ ...options, count: list.length });
+  const header = writer.header();
+  const out = new Uint8Array(PDQ_SET_HEADER_BYTES + list.length * PDQ_HASH_BYTES);
+  out.set(header);
+  list.forEach((entry, i) => out.set(writer.write(entry), PDQ_SET_HEADER_BYTES + i * PDQ_HASH_BYTES));
+
+  const tail = writer.finish();
+  if (tail.length === 0) return out;
+  const file = new Uint8Array(out.length + tail.length);
+  file.set(out);
+  file.set(tail, out.length);
+  return file;
+}
+
+/**
+ * Encode entries as a stream of `.pdqs` chunks
+ *
+ * Works with any (async) iterable, e.g. a database cursor. In Node.js, pipe it
+ * with `stream.pipeline(encodePDQSetStream(...), fs.createWriteStream(path))`,
+ * or use `writePDQSetFile()` from `pdq-wasm/node`, which does not need `count`.
+ *
+ * @param entries Entries to write
+ * @param options Entry count and optional sections
+ * @returns Async iterable of file chunks
+ */
+export async function* encodePDQSetStream<M>(
+  entries: Iterable<PDQSetEntry<M>> | AsyncIterable<PDQSetEntry<M>>,
+  options: PDQSetStreamOptions
+): AsyncGenerator<Uint8Array> {
+  const writer = new PDQSetWriter<M>(options);
+  yield writer.header();
+  for await (const entry of entries) {
+    yield writer.write(entry);
+  }
+  const tail = writer.finish();
+  if (tail.length > 0) yield tail;
+}
+
+/**
+ * Decode a `.pdqs` file held in memory without copying the hash section
+ *
+ * @param bytes File bytes (a Node.js Buffer works)
+ * @returns The hash set; `hashes` and `qualities` are views into `bytes`
+ * @throws Error if the file is not a valid `.pdqs` file
+ */
+export function decodePDQSet<M = unknown>(bytes: Uint8Array): PDQSet<M> {
+  const header = readHeader(bytes);
+  const hashesEnd = PDQ_SET_HEADER_BYTES + header.count * PDQ_HASH_BYTES;
+  let offset = fixedSize(header);
+  if (bytes.length < offset) {
+    throw new Error(`Invalid PDQ set: expected at least ${offset} bytes for ${header.count} entries, got ${bytes.length}`);
+  }
+
+  const hashes = bytes.subarray(PDQ_SET_HEADER_BYTES, hashesEnd);
+  const qualities = header.flags & FLAG_QUALITY ? bytes.subarray(hashesEnd, offset) : null;
+
+  let metadata: M[] | null = null;
+  if (header.flags & FLAG_METADATA) {
+    if (bytes.length < offset + 4) {
+      throw new Error('Invalid PDQ set: truncated metadata section');
+    }
+    const length = new DataView(bytes.buffer, bytes.byteOffset + offset, 4).getUint32(0, true);
+    offset += 4;
+    if (bytes.length < offset + length) {
+      throw new Error('Invalid PDQ set: truncated metadata section');
+    }
+    const parsed = JSON.parse(new TextDecoder().decode(bytes.subarray(offset, offset + length)));
+    if (!Array.isArray(parsed) || parsed.length !== header.count) {
+      throw new Error(`Invalid PDQ set: metadata must be an array of ${header.count} values`);
+    }
+    metadata = parsed;
+  }
+
+  return new PDQSet<M>(PDQ_SET_VERSION, hashes, qualities, metadata);
+}
+
+/**
+ * Iterate the chunks of a ReadableStream or async iterable
+ * @internal
+ */
+async function* chunksOf(source: ReadableStream<Uint8Array> | AsyncIterable<Uint8Array>): AsyncGenerator<Uint8Array> {
+  if (Symbol.asyncIterator in source) {
+    yield* source as AsyncIterable<Uint8Array>;
+    return;
+  }
+  const reader = (source as ReadableStream<Uint8Array>).getReader();
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) return;
+      yield value;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Read a `.pdqs` file from a stream
+ *
+ * Chunks are copied into a buffer that doubles as bytes arrive, never past the
+ * size the header promises. Memory follows the data actually received, so a
+ * short response whose header claims billions of entries fails on the missing
+ * bytes instead of allocating for them.
+ * Accepts a `fetch()` response body, a Node.js read stream or any async
+ * iterable of bytes.
+ *
+ * @param source Stream of file bytes
+ * @param options Progress callback
+ * @returns The hash set
+ * @throws Error if the stream is not a valid `.pdqs` file
+ *
+ * @example
+ * ```typescript
+ * const response = await fetch('/blocklist.pdqs');
+ * const set = await readPDQSet(response.body!, {
+ *   onProgress: ({ loaded, total }) => console.log(`${loaded} / ${total ?? '?'} bytes`)
+ * });
+ * const checkUpload = createSimilarityChecker({ hashes: set.toIndex() });
+ * ```
+ */
+export async function readPDQSet<M = unknown>(
+  source: ReadableStream<Uint8Array> | AsyncIterable<Uint8Array>,
+  options: PDQSetReadOptions = {}
+): Promise<PDQSet<M>> {
+  let buffer = new Uint8Array(PDQ_SET_HEADER_BYTES);
+  let loaded = 0;
+  let total: number | null = null;
+  // Offset of the metadata length prefix, until that prefix has been read
+  let metadataAt: number | null = null;
+
+  for await (const chunk of chunksOf(source)) {
+    if (loaded + chunk.length > buffer.length) {
+      const grown = new Uint8Array(Math.max(loaded + chunk.length, Math.min(buffer.length * 2, total ?? Infinity)));
+      grown.set(buffer.subarray(0, loaded));
+      buffer = grown;
+    }
+    buffer.set(chunk, loaded);
+    loaded += chunk.length;
+
+    if (total === null && loaded >= PDQ_SET_HEADER_BYTES) {
+      const header = readHeader(buffer);
+      total = fixedSize(header);
+      if (header.flags & FLAG_METADATA) {
+        metadataAt = total;
+        total += 4;
+      }
+    }
+    if (metadataAt !== null && loaded >= metadataAt + 4) {
+      total! += new DataView(buffer.buffer, metadataAt, 4).getUint32(0, true);
+      metadataAt = null;
+    }
+    options.onProgress?.({ loaded, total });
+  }
+
+  return decodePDQSet<M>(buffer.subarray(0, loaded));
+}
@@ -8,13 +8,31 @@
 import type {
   PDQHash,
   PDQHashResult,
+  PDQFloatHashResult,
+  PDQDihedralHashResult,
+  PDQDihedralTransform,
+  DihedralMatch,
   ImageData,
+  PixelFormat,
   PDQWasmModule,
   PDQOptions,
   PDQWorkerOptions,
   SimilarityMatch,
+  SimilarityCandidate,
+  FindNearestOptions,
   LoggerFunction,
+  ParsedPDQHash,
 } from './types';
+import {
+  hashHammingDistance,
+  hammingDistanceBatchBytes,
+  distanceMatrixBytes,
+  hashToHex,
+  hexToHash,
+  hashToBase64,
+  base64ToHash,
+} from './hash-utils';
+import { WasmScratch, SCRATCH_INPUT, SCRATCH_OUTPUT } from './wasm-scratch';
 
 // Type for the Emscripten module factory function
 type PDQModuleFactory = (options?: any) => Promise<PDQWasmModule>;
@@ -75,65 +93,433 @@ function isBrowserEnvironment(): boolean {
   return typeof window !== 'undefined' && !isWorkerEnvironment();
 }
 
+/** Prefix and current version of self-describing hash strings (`pdq:1:<hex>:q87`) */
+const HASH_STRING_PREFIX = 'pdq';
+const HASH_STRING_VERSION = 1;
+
+/**
+ * The 8 dihedral transforms in the order the WASM module writes them
+ */
+export const DIHEDRAL_TRANSFORMS: readonly PDQDihedralTransform[] = [
+  'original',
+  'rotate90',
+  'rotate180',
+  'rotate270',
+  'flipX',
+  'flipY',
+  'flipPlus1',
+  'flipMinus1',
+];
+
+/**
+ * Byte offsets of the red, green and blue channels within a 4-byte pixel
+ */
+const PIXEL_FORMAT_OFFSETS: Record<PixelFormat, [number, number, number]> = {
+  rgba: [0, 1, 2],
+  bgra: [2, 1, 0],
+  argb: [1, 2, 3],
+};
+
+/**
+ * Interleaved pixel layout passed to the `*_from_pixels` WASM exports
+ * @internal
+ */
+interface PixelLayout {
+  /** Bytes from the first pixel to the end of the last row */
+  bytes: Uint8Array | Uint8ClampedArray;
+  rowStride: number;
+  pixelStride: number;
+  offsets: [number, number, number];
+}
+
+/**
+ * Order matches by distance, then by their index in the input
+ * @internal
+ */
+function compareSimilarityMatches(a: SimilarityMatch<unknown>, b: SimilarityMatch<unknown>): number {
+  return a.distance - b.distance || (a.index ?? 0) - (b.index ?? 0);
+}
+
+/**
+ * Restore the max-heap order of `findNearest()` after appending at `i`
+ * @internal
+ */
+function siftUp(heap: SimilarityMatch<unknown>[], i: number): void {
+  while (i > 0) {
+    const parent = (i - 1) >> 1;
+    if (compareSimilarityMatches(heap[i], heap[parent]) <= 0) break;
+    [heap[i], heap[parent]] = [heap[parent], heap[i]];
+    i = parent;
+  }
+}
+
+/**
+ * Restore the max-heap order of `findNearest()` after replacing the entry at `i`
+ * @internal
+ */
+function siftDown(heap: SimilarityMatch<unknown>[], i: number): void {
+  for (;;) {
+    let largest = i;
+    for (const child of [2 * i + 1, 2 * i + 2]) {
+      if (child < heap.length && compareSimilarityMatches(heap[child], heap[largest]) > 0) {
+        largest = child;
+      }
+    }
+    if (largest === i) break;
+    [heap[i], heap[largest]] = [heap[largest], heap[i]];
+    i = largest;
+  }
+}
+
 /**
  * PDQ WebAssembly implementation
+ *
+ * Use the static methods (`PDQ.init()`, `PDQ.hash()`, ...) for a shared default
+ * instance, or {@link PDQ.create} for an independent instance with its own
+ * WASM module, logger and error policy.
  */
 export class PDQ {
-  private static module: PDQWasmModule | null = null;
-  private static initPromise: Promise<void> | null = null;
-  private static loggerFn: LoggerFunction | null = null;
-  private static ignoreInvalidFlag: boolean = false;
+  /** Instance used by the static API */
+  private static defaultInstance: PDQ | null = null;
+
+  private module: PDQWasmModule | null = null;
+  private initPromise: Promise<void> | null = null;
+  private loggerFn: LoggerFunction | null = null;
+  private ignoreInvalidFlag: boolean = false;
+  private scratch: WasmScratch | null = null;
+
+  /**
+   * Create a PDQ instance with its own WASM module, logger and error policy
+   * The instance must be initialized with {@link PDQ#init} or {@link PDQ#initWorker}
+   * before hashing; prefer {@link PDQ.create}, which does both.
+   *
+   * @param options Instance options (logger and error policy)
+   */
+  constructor(options: Pick<PDQOptions, 'logger' | 'ignoreInvalid'> = {}) {
+    if (options.logger) {
+      this.loggerFn = options.logger;
+    }
+    if (options.ignoreInvalid) {
+      this.ignoreInvalidFlag = true;
+    }
+  }
+
+  /**
+   * Create and initialize an independent PDQ instance
+   *
+   * Each instance owns its WASM module, logger and error policy, so libraries
+   * sharing a bundle don't affect each other. The static methods keep working
+   * against a separate default instance.
+   *
+   * @param options Configuration options, including `logger` and `ignoreInvalid`
+   * @returns Initialized PDQ instance
+   *
+   * @example
+   * const pdq = await PDQ.create({ logger: (msg) => console.log('[mylib]', msg) });
+   * const { hash } = pdq.hash(imageData);
+   */
+  static async create(options: PDQOptions = {}): Promise<PDQ> {
+    const instance = new PDQ(options);
+    await instance.init(options);
+    return instance;
+  }
+
+  /**
+   * Get the default instance used by the static API, creating it on first use
+   */
+  private static getDefault(): PDQ {
+    if (!this.defaultInstance) {
+      this.defaultInstance = new PDQ();
+    }
+    return this.defaultInstance;
+  }
+
+  /**
+   * Set a custom logger function on the default instance
+   * @returns PDQ class for method chaining
+   * @see PDQ#setLogger
+   */
+  static setLogger(logger: LoggerFunction): typeof PDQ {
+    this.getDefault().setLogger(logger);
+    return this;
+  }
+
+  /**
+   * Enable console logging on the default instance
+   * @returns PDQ class for method chaining
+   * @see PDQ#consoleLog
+   */
+  static consoleLog(): typeof PDQ {
+    this.getDefault().consoleLog();
+    return this;
+  }
+
+  /**
+   * Disable logging on the default instance
+   * @returns PDQ class for method chaining
+   * @see PDQ#disableLogging
+   */
+  static disableLogging(): typeof PDQ {
+    this.getDefault().disableLogging();
+    return this;
+  }
+
+  /**
+   * Enable ignore invalid mode on the default instance
+   * @returns PDQ class for method chaining
+   * @see PDQ#ignoreInvalid
+   */
+  static ignoreInvalid(): typeof PDQ {
+    this.getDefault().ignoreInvalid();
+    return this;
+  }
+
+  /**
+   * Disable ignore invalid mode on the default instance
+   * @returns PDQ class for method chaining
+   * @see PDQ#throwOnInvalid
+   */
+  static throwOnInvalid(): typeof PDQ {
+    this.getDefault().throwOnInvalid();
+    return this;
+  }
+
+  /**
+   * Free the default instance's reusable WASM buffers
+   * @returns PDQ class for method chaining
+   * @see PDQ#releaseScratch
+   */
+  static releaseScratch(): typeof PDQ {
+    this.getDefault().releaseScratch();
+    return this;
+  }
+
+  /**
+   * Initialize the default instance's WASM module
+   * @see PDQ#init
+   */
+  static async init(options: PDQOptions = {}): Promise<void> {
+    return this.getDefault().init(options);
+  }
+
+  /**
+   * Initialize the default instance's WASM module in a Web Worker
+   * @see PDQ#initWorker
+   */
+  static async initWorker(options: PDQWorkerOptions): Promise<void> {
+    return this.getDefault().initWorker(options);
+  }
+
+  /**
+   * Hash image data using the default instance
+   * @see PDQ#hash
+   */
+  static hash(imageData: ImageData): PDQHashResult {
+    return this.getDefault().hash(imageData);
+  }
+
+  /**
+   * Compute the unquantized PDQF float hash using the default instance
+   * @see PDQ#hashFloat
+   */
+  static hashFloat(imageData: ImageData): PDQFloatHashResult {
+    return this.getDefault().hashFloat(imageData);
+  }
+
+  /**
+   * Hash image data in all 8 dihedral orientations using the default instance
+   * @see PDQ#hashDihedral
+   */
+  static hashDihedral(imageData: ImageData): PDQDihedralHashResult {
+    return this.getDefault().hashDihedral(imageData);
+  }
+
+  /**
+   * Find the smallest distance across dihedral variants using the default instance
+   * @see PDQ#minDistanceDihedral
+   */
+  static minDistanceDihedral(dihedral: PDQDihedralHashResult, hash: PDQHash): DihedralMatch {
+    return this.getDefault().minDistanceDihedral(dihedral, hash);
+  }
+
+  /**
+   * Calculate Hamming distance between two PDQ hashes using the default instance
+   * @see PDQ#hammingDistance
+   */
+  static hammingDistance(hash1: PDQHash, hash2: PDQHash): number {
+    return this.getDefault().hammingDistance(hash1, hash2);
+  }
+
+  /**
+   * Calculate distances from one hash to many packed hashes using the default instance
+   * @see PDQ#hammingDistanceBatch
+   */
+  static hammingDistanceBatch(reference: PDQHash, packedHashes: Uint8Array): Uint16Array {
+    return this.getDefault().hammingDistanceBatch(reference, packedHashes);
+  }
+
+  /**
+   * Calculate the pairwise distance matrix using the default instance
+   * @see PDQ#distanceMatrix
+   */
+  static distanceMatrix(hashes: PDQHash[] | Uint8Array): Uint16Array {
+    return this.getDefault().distanceMatrix(hashes);
+  }
+
+  /**
+   * Convert a PDQ hash to hex using the default instance
+   * @see PDQ#toHex
+   */
+  static toHex(hash: PDQHash): string {
+    return this.getDefault().toHex(hash);
+  }
+
+  /**
+   * Convert a hex string to PDQ hash bytes using the default instance
+   * @see PDQ#fromHex
+   */
+  static fromHex(hex: string): PDQHash {
+    return this.getDefault().fromHex(hex);
+  }
+
+  /**
+   * Convert a PDQ hash to base64 using the default instance
+   * @see PDQ#toBase64
+   */
+  static toBase64(hash: PDQHash, urlSafe: boolean = false): string {
+    return this.getDefault().toBase64(hash, urlSafe);
+  }
+
+  /**
+   * Convert a base64 string to PDQ hash bytes using the default instance
+   * @see PDQ#fromBase64
+   */
+  static fromBase64(base64: string): PDQHash {
+    return this.getDefault().fromBase64(base64);
+  }
+
+  /**
+   * Format a self-describing hash string using the default instance
+   * @see PDQ#toHashString
+   */
+  static toHashString(hash: PDQHash, quality?: number): string {
+    return this.getDefault().toHashString(hash, quality);
+  }
+
+  /**
+   * Decode a hash in any supported format using the default instance
+   * @see PDQ#parse
+   */
+  static parse(input: string | Uint8Array): ParsedPDQHash {
+    return this.getDefault().parse(input);
+  }
+
+  /**
+   * Pack hashes into one buffer using the default instance
+   * @see PDQ#packHashes
+   */
+  static packHashes(hashes: PDQHash[]): Uint8Array {
+    return this.getDefault().packHashes(hashes);
+  }
+
+  /**
+   * Split a packed buffer into hashes using the default instance
+   * @see PDQ#unpackHashes
+   */
+  static unpackHashes(packed: Uint8Array): PDQHash[] {
+    return this.getDefault().unpackHashes(packed);
+  }
+
+  /**
+   * Check if two hashes are similar using the default instance
+   * @see PDQ#areSimilar
+   */
+  static areSimilar(hash1: PDQHash, hash2: PDQHash, threshold: number = 31): boolean {
+    return this.getDefault().areSimilar(hash1, hash2, threshold);
+  }
+
+  /**
+   * Get similarity percentage between two hashes using the default instance
+   * @see PDQ#similarity
+   */
+  static similarity(hash1: PDQHash, hash2: PDQHash): number {
+    return this.getDefault().similarity(hash1, hash2);
+  }
+
+  /**
+   * Order hashes by similarity to a reference hash using the default instance
+   * @see PDQ#orderBySimilarity
+   */
+  static orderBySimilarity(
+    referenceHash: PDQHash,
+    hashes: PDQHash[],
+    includeIndex: boolean = false
+  ): SimilarityMatch[] {
+    return this.getDefault().orderBySimilarity(referenceHash, hashes, includeIndex);
+  }
+
+  /**
+   * Find the `k` candidates closest to a reference hash using the default instance
+   * @see PDQ#findNearest
+   */
+  static findNearest<T = unknown>(
+    referenceHash: PDQHash | string,
+    candidates: Iterable<SimilarityCandidate<T>>,
+    options: FindNearestOptions
+  ): SimilarityMatch<T>[] {
+    return this.getDefault().findNearest(referenceHash, candidates, options);
+  }
 
   /**
    * Set a custom logger function to log PDQ operations
    * @param logger Function that receives log messages
-   * @returns PDQ class for method chaining
+   * @returns This instance for method chaining
    *
    * @example
-   * PDQ.logger((msg) => console.log('[PDQ]', msg));
+   * pdq.setLogger((msg) => console.log('[PDQ]', msg));
    */
-  static setLogger(logger: LoggerFunction): typeof PDQ {
+  setLogger(logger: LoggerFunction): this {
     this.loggerFn = logger;
     return this;
   }
 
   /**
    * Enable console logging (convenience method)
-   * @returns PDQ class for method chaining
+   * @returns This instance for method chaining
    *
    * @example
-   * PDQ.consoleLog();
+   * pdq.consoleLog();
    */
-  static consoleLog(): typeof PDQ {
+  consoleLog(): this {
     return this.setLogger(console.log);
   }
 
   /**
    * Disable logging
-   * @returns PDQ class for method chaining
+   * @returns This instance for method chaining
    */
-  static disableLogging(): typeof PDQ {
+  disableLogging(): this {
     this.loggerFn = null;
     return this;
   }
 
   /**
    * Enable ignore invalid mode - log errors instead of throwing
-   * @returns PDQ class for method chaining
+   * @returns This instance for method chaining
    *
    * @example
-   * PDQ.ignoreInvalid().consoleLog();
+   * pdq.ignoreInvalid().consoleLog();
    */
-  static ignoreInvalid(): typeof PDQ {
+  ignoreInvalid(): this {
     this.ignoreInvalidFlag = true;
     return this;
   }
 
   /**
    * Disable ignore invalid mode - throw errors normally
-   * @returns PDQ class for method chaining
+   * @returns This instance for method chaining
    */
-  static throwOnInvalid(): typeof PDQ {
+  throwOnInvalid(): this {
     this.ignoreInvalidFlag = false;
     return this;
   }
@@ -141,7 +527,7 @@ export class PDQ {
   /**
    * Internal logging method
    */
-  private static log(message: string): void {
+  private log(message: string): void {
     if (this.loggerFn) {
       this.loggerFn(message);
     }
@@ -151,7 +537,7 @@ export class PDQ {
    * Internal error handling method
    * Either throws or logs based on ignoreInvalidFlag
    */
-  private static handleError(errorMsg: string): void {
+  private handleError(errorMsg: string): void {
     this.log(`ERROR: ${errorMsg}`);
     if (!this.ignoreInvalidFlag) {
       throw new Error(errorMsg);
@@ -179,7 +565,7 @@ export class PDQ {
    *   wasmUrl: '/assets/pdq.wasm'
    * });
    */
-  static async init(options: PDQOptions = {}): Promise<void> {
+  async init(options: PDQOptions = {}): Promise<void> {
     if (this.initPromise) {
       return this.initPromise;
     }
@@ -216,24 +602,28 @@ export class PDQ {
             );
           }
 
-          // Use script.src for better security and CSP compliance
-          const script = document.createElement('script');
-          script.src = wasmJsUrl;
-          script.async = false; // Ensure synchronous execution order
-
-          // Load script and wait for createPDQModule to be available
-          await new Promise<void>((resolve, reject) => {
-            script.onload = () => {
-              // Verify the factory function is available after load
-              if (typeof (window as any).createPDQModule === 'function') {
-                resolve();
-              } else {
-                reject(new Error('createPDQModule function not found after script load'));
-              }
-            };
-            script.onerror = () => reject(new Error(`Failed to load WASM module script from ${wasmJsUrl}`));
-            document.head.appendChild(script);
-          });
+          // Another instance may already have loaded the glue code; each
+          // instance still gets its own module from the shared factory
+          if (typeof (window as any).createPDQModule !== 'function') {
+            // Use script.src for better security and CSP compliance
+            const script = document.createElement('script');
+            script.src = wasmJsUrl;
+            script.async = false; // Ensure synchronous execution order
+
+            // Load script and wait for createPDQModule to be available
+            await new Promise<void>((resolve, reject) => {
+              script.onload = () => {
+                // Verify the factory function is available after load
+                if (typeof (window as any).createPDQModule === 'function') {
+                  resolve();
+                } else {
+                  reject(new Error('createPDQModule function not found after script load'));
+                }
+              };
+              script.onerror = () => reject(new Error(`Failed to load WASM module script from ${wasmJsUrl}`));
+              document.head.appendChild(script);
+            });
+          }
 
           const factory = (window as any).createPDQModule;
 
@@ -300,7 +690,7 @@ export class PDQ {
    *   wasmJsUrl: '/wasm/pdq.js'
    * });
    */
-  static async initWorker(options: PDQWorkerOptions): Promise<void> {
+  async initWorker(options: PDQWorkerOptions): Promise<void> {
     if (this.initPromise) {
       return this.initPromise;
     }
@@ -358,7 +748,7 @@ export class PDQ {
   /**
    * Try loading WASM factory using importScripts (for classic workers)
    */
-  private static tryLoadViaImportScripts(wasmJsUrl: string): PDQModuleFactory | null {
+  private tryLoadViaImportScripts(wasmJsUrl: string): PDQModuleFactory | null {
     // @ts-ignore - importScripts is only available in workers
     if (typeof importScripts !== 'function') {
       return null;
@@ -399,7 +789,7 @@ export class PDQ {
   /**
    * Try loading WASM factory using dynamic import (for ES module workers)
    */
-  private static async tryLoadViaDynamicImport(wasmJsUrl: string): Promise<PDQModuleFactory> {
+  private async tryLoadViaDynamicImport(wasmJsUrl: string): Promise<PDQModuleFactory> {
     this.log('Using dynamic import for ES module worker...');
 
     const module = await import(/* webpackIgnore: true */ wasmJsUrl);
@@ -431,7 +821,7 @@ export class PDQ {
   /**
    * Load WASM factory using appropriate method for the worker environment
    */
-  private static async loadWorkerFactory(wasmJsUrl: string): Promise<PDQModuleFactory> {
+  private async loadWorkerFactory(wasmJsUrl: string): Promise<PDQModuleFactory> {
     // Try importScripts first (most reliable for Emscripten UMD output)
     const importScriptsFactory = this.tryLoadViaImportScripts(wasmJsUrl);
     if (importScriptsFactory) {
@@ -453,7 +843,7 @@ export class PDQ {
   /**
    * Ensure the module is initialized
    */
-  private static ensureInit(): PDQWasmModule {
+  private ensureInit(): PDQWasmModule {
     if (!this.module) {
       const errorMsg = 'PDQ module not initialized. Call PDQ.init() first.';
       this.log(`ERROR: ${errorMsg}`);
@@ -462,165 +852,473 @@ export class PDQ {
     return this.module;
   }
 
+  /**
+   * Get the scratch buffers for a module, creating them on first use
+   */
+  private getScratch(mod: PDQWasmModule): WasmScratch {
+    if (!this.scratch) {
+      this.scratch = new WasmScratch(mod);
+    }
+    return this.scratch;
+  }
+
+  /**
+   * Free the WASM buffers kept between calls
+   *
+   * Hashing and batch distance calls reuse their input and output buffers, and
+   * the WASM module keeps its luma working buffers, growing them to the largest
+   * image seen. After hashing large images, call this to return that memory;
+   * the next call allocates again. Safe to call before {@link PDQ#init}.
+   *
+   * @returns This instance for method chaining
+   *
+   * @example
+   * for (const image of images) results.push(pdq.hash(image));
+   * pdq.releaseScratch();
+   */
+  releaseScratch(): this {
+    if (this.scratch) {
+      this.log(`Releasing ${this.scratch.size} bytes of scratch memory`);
+      this.scratch.release();
+      this.scratch = null;
+    }
+    this.module?._pdq_release_scratch();
+    return this;
+  }
+
+  /**
+   * Validate image data and describe its pixel layout
+   * Returns null if the input is invalid and ignoreInvalid is enabled.
+   */
+  private pixelLayout(imageData: ImageData): PixelLayout | null {
+    const { data, width, height, channels, pixelFormat, stride, byteOffset } = imageData;
+
+    if (channels !== 1 && channels !== 3 && channels !== 4) {
+      this.handleError(`Invalid channel count: ${channels}. Expected 1, 3 or 4`);
+      return null;
+    }
+    if (pixelFormat !== undefined && (channels !== 4 || !Object.prototype.hasOwnProperty.call(PIXEL_FORMAT_OFFSETS, pixelFormat))) {
+      this.handleError(`Invalid pixelFormat: ${pixelFormat}. Use 'rgba', 'bgra' or 'argb' with channels: 4`);
+      return null;
+    }
+
+    const rowBytes = width * channels;
+    const rowStride = stride ?? rowBytes;
+    const offset = byteOffset ?? 0;
+    if (!Number.isInteger(rowStride) || rowStride < rowBytes) {
+      this.handleError(`Invalid stride: ${rowStride}. Must be an integer of at least width * channels (${rowBytes})`);
+      return null;
+    }
+    if (!Number.isInteger(offset) || offset < 0) {
+      this.handleError(`Invalid byteOffset: ${offset}. Must be a non-negative integer`);
+      return null;
+    }
+
+    // Packed input must match exactly; strided input may carry trailing bytes
+    const end = height > 0 ? offset + rowStride * (height - 1) + rowBytes : offset;
+    if (stride === undefined && byteOffset === undefined) {
+      if (data.length !== end) {
+        this.handleError(`Invalid image data size. Expected ${end} bytes, got ${data.length}`);
+        return null;
+      }
+    } else if (data.length < end) {
+      this.handleError(`Invalid image data size. Expected at least ${end} bytes, got ${data.length}`);
+      return null;
+    }
+
+    const offsets: [number, number, number] = channels === 4
+      ? PIXEL_FORMAT_OFFSETS[pixelFormat ?? 'rgba']
+      : channels === 3 ? [0, 1, 2] : [0, 0, 0];
+
+    return { bytes: data.subarray(offset, end), rowStride, pixelStride: channels, offsets };
+  }
+
   /**
    * Hash image data and return PDQ hash with quality score
    *
-   * @param imageData Image pixel data (RGB or grayscale)
+   * 4-channel input is read in place by the WASM module, so canvas pixels need
+   * no RGB conversion. `stride` and `byteOffset` select a region of a larger
+   * buffer, e.g. padded video rows.
+   *
+   * @param imageData Image pixel data (RGB, grayscale or 4-channel, optionally strided)
    * @returns PDQ hash and quality score
+   *
+   * @example
+   * const { data, width, height } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+   * const { hash, quality } = PDQ.hash({ data, width, height, channels: 4 });
    */
-  static hash(imageData: ImageData): PDQHashResult {
+  hash(imageData: ImageData): PDQHashResult {
     const mod = this.ensureInit();
 
     this.log(`Hashing image: ${imageData.width}x${imageData.height}, ${imageData.channels} channels`);
 
     // Validate input
-    const expectedSize = imageData.width * imageData.height * imageData.channels;
-    if (imageData.data.length !== expectedSize) {
-      const errorMsg = `Invalid image data size. Expected ${expectedSize} bytes, got ${imageData.data.length}`;
-      this.handleError(errorMsg);
-      if (this.ignoreInvalidFlag) return { hash: new Uint8Array(32), quality: 0 };
+    const layout = this.pixelLayout(imageData);
+    if (!layout) return { hash: new Uint8Array(32), quality: 0 };
+
+    // Reuse WASM buffers across calls; see releaseScratch()
+    const scratch = this.getScratch(mod);
+    const imagePtr = scratch.get(SCRATCH_INPUT, layout.bytes.length);
+    const hashPtr = scratch.get(SCRATCH_OUTPUT, 36); // 32-byte hash + int32 quality
+    const qualityPtr = hashPtr + 32;
+
+    // Copy image data to WASM memory; channels are read in place by stride
+    mod.HEAPU8.set(layout.bytes, imagePtr);
+
+    const result = mod._pdq_hash_from_pixels(
+      imagePtr,
+      imageData.width,
+      imageData.height,
+      layout.rowStride,
+      layout.pixelStride,
+      ...layout.offsets,
+      hashPtr,
+      qualityPtr
+    );
+
+    if (result !== 0) {
+      const errorMsg = `PDQ hashing failed with code: ${result}`;
+      this.log(`ERROR: ${errorMsg}`);
+      throw new Error(errorMsg);
     }
 
-    // Allocate memory in WASM
-    const imagePtr = mod._malloc(imageData.data.length);
-    const hashPtr = mod._malloc(32); // 256 bits = 32 bytes
-    const qualityPtr = mod._malloc(4); // int32
+    // Read results from WASM memory
+    const hash = new Uint8Array(32);
+    hash.set(mod.HEAPU8.subarray(hashPtr, hashPtr + 32));
+    const quality = mod.HEAP32[qualityPtr >> 2];
 
-    try {
-      // Copy image data to WASM memory
-      mod.HEAPU8.set(imageData.data, imagePtr);
-
-      let result: number;
-
-      if (imageData.channels === 3) {
-        // RGB image
-        result = mod._pdq_hash_from_rgb(
-          imagePtr,
-          imageData.width,
-          imageData.height,
-          hashPtr,
-          qualityPtr
-        );
-      } else {
-        // Grayscale image
-        result = mod._pdq_hash_from_gray(
-          imagePtr,
-          imageData.width,
-          imageData.height,
-          hashPtr,
-          qualityPtr
-        );
-      }
+    this.log(`Hash generated successfully. Quality: ${quality}`);
 
-      if (result !== 0) {
-        const errorMsg = `PDQ hashing failed with code: ${result}`;
-        this.log(`ERROR: ${errorMsg}`);
-        throw new Error(errorMsg);
+    return { hash, quality };
+  }
+
+  /**
+   * Compute the PDQF float hash: the 256 DCT coefficients before quantization
+   *
+   * `PDQ.hash` sets each bit by comparing a coefficient to the median of all 256.
+   * Keeping the magnitudes lets {@link maskedHammingDistance} and
+   * {@link weightedHammingDistance} discount bits that sit near the median and
+   * flip easily, and {@link floatHashToHash} recovers the regular hash.
+   *
+   * @param imageData Image pixel data (RGB, grayscale or 4-channel, optionally strided)
+   * @returns 256 coefficients (coefficient `k` corresponds to hash bit `k`) and quality score
+   *
+   * @example
+   * const { values, quality } = PDQ.hashFloat(imageData);
+   * const distance = weightedHammingDistance(values, storedHash);
+   */
+  hashFloat(imageData: ImageData): PDQFloatHashResult {
+    const mod = this.ensureInit();
+
+    this.log(`Hashing image (float): ${imageData.width}x${imageData.height}, ${imageData.channels} channels`);
+
+    const layout = this.pixelLayout(imageData);
+    if (!layout) return { values: new Float32Array(256), quality: 0 };
+
+    const scratch = this.getScratch(mod);
+    const imagePtr = scratch.get(SCRATCH_INPUT, layout.bytes.length);
+    const floatsPtr = scratch.get(SCRATCH_OUTPUT, 256 * 4 + 4); // 256 float32 + int32 quality
+    const qualityPtr = floatsPtr + 256 * 4;
+
+    mod.HEAPU8.set(layout.bytes, imagePtr);
+
+    const result = mod._pdq_float_hash_from_pixels(
+      imagePtr,
+      imageData.width,
+      imageData.height,
+      layout.rowStride,
+      layout.pixelStride,
+      ...layout.offsets,
+      floatsPtr,
+      qualityPtr
+    );
+
+    if (result !== 0) {
+      const errorMsg = `PDQ float hashing failed with code: ${result}`;
+      this.log(`ERROR: ${errorMsg}`);
+      throw new Error(errorMsg);
+    }
+
+    const values = new Float32Array(mod.HEAPF32.subarray(floatsPtr >> 2, (floatsPtr >> 2) + 256));
+    const quality = mod.HEAP32[qualityPtr >> 2];
+
+    this.log(`Float hash generated successfully. Quality: ${quality}`);
+
+    return { values, quality };
+  }
+
+  /**
+   * Hash image data in all 8 dihedral orientations (rotations and mirrors)
+   *
+   * The reference implementation computes the rotated and flipped hashes from a
+   * single DCT pass, so this costs about the same as a single {@link PDQ.hash} call.
+   * Use with {@link PDQ.minDistanceDihedral} to match images that were rotated
+   * or mirrored before being re-uploaded.
+   *
+   * @param imageData Image pixel data (RGB, grayscale or 4-channel, optionally strided)
+   * @returns PDQ hashes keyed by transform, and the shared quality score
+   *
+   * @example
+   * const { hashes, quality } = PDQ.hashDihedral(imageData);
+   * console.log(PDQ.toHex(hashes.rotate180));
+   */
+  hashDihedral(imageData: ImageData): PDQDihedralHashResult {
+    const mod = this.ensureInit();
+
+    this.log(`Hashing image (dihedral): ${imageData.width}x${imageData.height}, ${imageData.channels} channels`);
+
+    const layout = this.pixelLayout(imageData);
+    if (!layout) {
+      const hashes = {} as Record<PDQDihedralTransform, PDQHash>;
+      for (const transform of DIHEDRAL_TRANSFORMS) {
+        hashes[transform] = new Uint8Array(32);
       }
+      return { hashes, quality: 0 };
+    }
+
+    const scratch = this.getScratch(mod);
+    const imagePtr = scratch.get(SCRATCH_INPUT, layout.bytes.length);
+    const hashesPtr = scratch.get(SCRATCH_OUTPUT, 32 * DIHEDRAL_TRANSFORMS.length + 4); // hashes + int32 quality
+    const qualityPtr = hashesPtr + 32 * DIHEDRAL_TRANSFORMS.length;
+
+    mod.HEAPU8.set(layout.bytes, imagePtr);
+
+    const result = mod._pdq_dihedral_hash_from_pixels(
+      imagePtr,
+      imageData.width,
+      imageData.height,
+      layout.rowStride,
+      layout.pixelStride,
+      ...layout.offsets,
+      hashesPtr,
+      qualityPtr
+    );
+
+    if (result !== 0) {
+      const errorMsg = `PDQ dihedral hashing failed with code: ${result}`;
+      this.log(`ERROR: ${errorMsg}`);
+      throw new Error(errorMsg);
+    }
 
-      // Read results from WASM memory
+    const hashes = {} as Record<PDQDihedralTransform, PDQHash>;
+    DIHEDRAL_TRANSFORMS.forEach((transform, i) => {
+      const offset = hashesPtr + i * 32;
       const hash = new Uint8Array(32);
-      hash.set(mod.HEAPU8.subarray(hashPtr, hashPtr + 32));
-      const quality = mod.HEAP32[qualityPtr >> 2];
+      hash.set(mod.HEAPU8.subarray(offset, offset + 32));
+      hashes[transform] = hash;
+    });
+    const quality = mod.HEAP32[qualityPtr >> 2];
 
-      this.log(`Hash generated successfully. Quality: ${quality}`);
+    this.log(`Dihedral hashes generated successfully. Quality: ${quality}`);
 
-      return { hash, quality };
-    } finally {
-      // Free WASM memory
-      mod._free(imagePtr);
-      mod._free(hashPtr);
-      mod._free(qualityPtr);
+    return { hashes, quality };
+  }
+
+  /**
+   * Find the smallest Hamming distance between a hash and any of the
+   * dihedral variants of another image
+   *
+   * Ties are resolved in favour of the transform listed first in
+   * {@link DIHEDRAL_TRANSFORMS}, so an unrotated match reports `original`.
+   *
+   * @param dihedral Result of {@link PDQ.hashDihedral}
+   * @param hash PDQ hash to compare against every variant
+   * @returns Smallest distance and the transform that produced it
+   *
+   * @example
+   * const dihedral = PDQ.hashDihedral(original);
+   * const { distance, transform } = PDQ.minDistanceDihedral(dihedral, PDQ.hash(upload).hash);
+   * if (distance <= 31) console.log(`Match (${transform})`);
+   */
+  minDistanceDihedral(dihedral: PDQDihedralHashResult, hash: PDQHash): DihedralMatch {
+    let best: DihedralMatch = { distance: 257, transform: 'original' };
+
+    for (const transform of DIHEDRAL_TRANSFORMS) {
+      const distance = this.hammingDistance(dihedral.hashes[transform], hash);
+      if (distance < best.distance) {
+        best = { distance, transform };
+      }
     }
+
+    this.log(`Best dihedral match: ${best.transform} at distance ${best.distance}`);
+
+    return best;
   }
 
   /**
    * Calculate Hamming distance between two PDQ hashes
    * Returns a value from 0 (identical) to 256 (completely different)
    *
+   * Implemented in TypeScript - does not require {@link PDQ.init}.
+   *
    * @param hash1 First PDQ hash
    * @param hash2 Second PDQ hash
    * @returns Hamming distance (0-256)
    */
-  static hammingDistance(hash1: PDQHash, hash2: PDQHash): number {
-    const mod = this.ensureInit();
-
+  hammingDistance(hash1: PDQHash, hash2: PDQHash): number {
     if (hash1.length !== 32 || hash2.length !== 32) {
       const errorMsg = `Invalid hash length. PDQ hashes must be 32 bytes (got ${hash1.length} and ${hash2.length})`;
       this.handleError(errorMsg);
       if (this.ignoreInvalidFlag) return 256; // Return maximum distance for invalid hashes
     }
 
-    const hash1Ptr = mod._malloc(32);
-    const hash2Ptr = mod._malloc(32);
+    const distance = hashHammingDistance(hash1, hash2);
 
-    try {
-      mod.HEAPU8.set(hash1, hash1Ptr);
-      mod.HEAPU8.set(hash2, hash2Ptr);
+    this.log(`Hamming distance calculated: ${distance}`);
 
-      const distance = mod._pdq_hamming_distance(hash1Ptr, hash2Ptr);
+    return distance;
+  }
 
-      if (distance < 0) {
-        const errorMsg = 'Failed to calculate Hamming distance';
-        this.log(`ERROR: ${errorMsg}`);
-        throw new Error(errorMsg);
+  /**
+   * Calculate Hamming distances from one reference hash to many hashes in a single WASM call
+   *
+   * The hashes are passed as one contiguous buffer so the whole batch costs a single
+   * copy into WASM memory, instead of two allocations and a boundary crossing per pair.
+   * Falls back to the TypeScript implementation if {@link PDQ.init} has not been called.
+   *
+   * @param reference Reference PDQ hash (32 bytes)
+   * @param packedHashes Concatenated 32-byte hashes (length must be a multiple of 32)
+   * @returns Distance from the reference to each packed hash, in order
+   *
+   * @example
+   * const distances = PDQ.hammingDistanceBatch(probe, storedHashes);
+   * const matches = distances.reduce<number[]>((acc, d, i) => (d <= 31 ? [...acc, i] : acc), []);
+   */
+  hammingDistanceBatch(reference: PDQHash, packedHashes: Uint8Array): Uint16Array {
+
+    if (reference.length !== 32) {
+      const errorMsg = `Invalid reference hash length. PDQ hashes must be 32 bytes (got ${reference.length})`;
+      this.handleError(errorMsg);
+      if (this.ignoreInvalidFlag) return new Uint16Array(0);
+    }
+
+    if (packedHashes.length % 32 !== 0) {
+      const errorMsg = `Invalid packed hashes length. Must be a multiple of 32 bytes (got ${packedHashes.length})`;
+      this.handleError(errorMsg);
+      if (this.ignoreInvalidFlag) return new Uint16Array(0);
+    }
+
+    const count = Math.floor(packedHashes.length / 32);
+    this.log(`Calculating ${count} Hamming distances in batch`);
+
+    const mod = this.module;
+    if (!mod) {
+      return hammingDistanceBatchBytes(reference, packedHashes);
+    }
+
+    const scratch = this.getScratch(mod);
+    const referencePtr = scratch.get(SCRATCH_INPUT, 32 + packedHashes.length);
+    const packedPtr = referencePtr + 32;
+    const distancesPtr = scratch.get(SCRATCH_OUTPUT, count * 2);
+
+    mod.HEAPU8.set(reference, referencePtr);
+    mod.HEAPU8.set(packedHashes, packedPtr);
+
+    const result = mod._pdq_hamming_distance_batch(referencePtr, packedPtr, count, distancesPtr);
+
+    if (result !== 0) {
+      const errorMsg = 'Failed to calculate batch Hamming distances';
+      this.log(`ERROR: ${errorMsg}`);
+      throw new Error(errorMsg);
+    }
+
+    return new Uint16Array(mod.HEAPU16.subarray(distancesPtr >> 1, (distancesPtr >> 1) + count));
+  }
+
+  /**
+   * Calculate the full pairwise Hamming distance matrix in a single WASM call
+   *
+   * The result is an `n * n` row-major matrix: the distance between hashes `i` and `j`
+   * is at index `i * n + j`. Memory grows quadratically (10,000 hashes need 200 MB),
+   * so prefer {@link PDQIndex} for large collections; the WASM copy is kept for reuse
+   * until {@link PDQ#releaseScratch}. Falls back to the TypeScript implementation if
+   * {@link PDQ.init} has not been called.
+   *
+   * @param hashes Array of PDQ hashes, or concatenated 32-byte hashes
+   * @returns Symmetric distance matrix with a zero diagonal
+   *
+   * @example
+   * const matrix = PDQ.distanceMatrix(hashes);
+   * const n = hashes.length;
+   * console.log(`Distance 0 <-> 1: ${matrix[0 * n + 1]}`);
+   */
+  distanceMatrix(hashes: PDQHash[] | Uint8Array): Uint16Array {
+    let packed: Uint8Array;
+    if (hashes instanceof Uint8Array) {
+      if (hashes.length % 32 !== 0) {
+        const errorMsg = `Invalid packed hashes length. Must be a multiple of 32 bytes (got ${hashes.length})`;
+        this.handleError(errorMsg);
+        if (this.ignoreInvalidFlag) return new Uint16Array(0);
       }
+      packed = hashes;
+    } else {
+      packed = new Uint8Array(hashes.length * 32);
+      for (let i = 0; i < hashes.length; i++) {
+        if (hashes[i].length !== 32) {
+          const errorMsg = `Invalid hash length at index ${i}. Expected 32 bytes, got ${hashes[i].length}`;
+          this.handleError(errorMsg);
+          if (this.ignoreInvalidFlag) return new Uint16Array(0);
+        }
+        packed.set(hashes[i], i * 32);
+      }
+    }
 
-      this.log(`Hamming distance calculated: ${distance}`);
+    const count = Math.floor(packed.length / 32);
+    this.log(`Calculating ${count}x${count} distance matrix`);
 
-      return distance;
-    } finally {
-      mod._free(hash1Ptr);
-      mod._free(hash2Ptr);
+    const mod = this.module;
+    if (!mod) {
+      return distanceMatrixBytes(packed);
     }
+
+    const scratch = this.getScratch(mod);
+    const packedPtr = scratch.get(SCRATCH_INPUT, packed.length);
+    const matrixPtr = scratch.get(SCRATCH_OUTPUT, count * count * 2);
+
+    mod.HEAPU8.set(packed, packedPtr);
+
+    const result = mod._pdq_distance_matrix(packedPtr, count, matrixPtr);
+
+    if (result !== 0) {
+      const errorMsg = 'Failed to calculate distance matrix';
+      this.log(`ERROR: ${errorMsg}`);
+      throw new Error(errorMsg);
+    }
+
+    return new Uint16Array(mod.HEAPU16.subarray(matrixPtr >> 1, (matrixPtr >> 1) + count * count));
   }
 
   /**
    * Convert a PDQ hash to hexadecimal string representation
    *
+   * Implemented in TypeScript - does not require {@link PDQ.init}.
+   *
    * @param hash PDQ hash bytes
    * @returns Hexadecimal string (64 characters)
    */
-  static toHex(hash: PDQHash): string {
-    const mod = this.ensureInit();
-
+  toHex(hash: PDQHash): string {
     if (hash.length !== 32) {
       const errorMsg = `Invalid hash length. PDQ hashes must be 32 bytes (got ${hash.length})`;
       this.handleError(errorMsg);
       if (this.ignoreInvalidFlag) return '0'.repeat(64); // Return zero hash
     }
 
-    const hashPtr = mod._malloc(32);
-    const hexPtr = mod._malloc(65); // 64 chars + null terminator
+    const hex = hashToHex(hash);
 
-    try {
-      mod.HEAPU8.set(hash, hashPtr);
-      mod._pdq_hash_to_hex(hashPtr, hexPtr);
-
-      // Read hex string from WASM memory
-      let hex = '';
-      for (let i = 0; i < 64; i++) {
-        hex += String.fromCharCode(mod.HEAPU8[hexPtr + i]);
-      }
+    this.log(`Hash converted to hex: ${hex}`);
 
-      this.log(`Hash converted to hex: ${hex}`);
-
-      return hex;
-    } finally {
-      mod._free(hashPtr);
-      mod._free(hexPtr);
-    }
+    return hex;
   }
 
   /**
    * Convert a hexadecimal string to PDQ hash bytes
    *
+   * Implemented in TypeScript - does not require {@link PDQ.init}.
+   *
    * @param hex Hexadecimal string (64 characters)
    * @returns PDQ hash bytes
    */
-  static fromHex(hex: string): PDQHash {
-    const mod = this.ensureInit();
-
+  fromHex(hex: string): PDQHash {
     this.log(`Converting hex to hash: ${hex}`);
 
     if (hex.length !== 64) {
@@ -629,36 +1327,197 @@ export class PDQ {
       if (this.ignoreInvalidFlag) return new Uint8Array(32); // Return zero hash
     }
 
-    const hexPtr = mod._malloc(65);
-    const hashPtr = mod._malloc(32);
+    const hash = hexToHash(hex);
 
-    try {
-      // Copy hex string to WASM memory
-      for (let i = 0; i < 64; i++) {
-        mod.HEAPU8[hexPtr + i] = hex.charCodeAt(i);
+    if (!hash) {
+      const errorMsg = 'Invalid hex string format';
+      this.handleError(errorMsg);
+      return new Uint8Array(32); // Return zero hash
+    }
+
+    this.log('Hex converted to hash successfully');
+
+    return hash;
+  }
+
+  /**
+   * Convert a PDQ hash to base64
+   *
+   * Base64 takes 44 characters per hash (43 URL-safe) instead of 64 for hex.
+   * Implemented in TypeScript - does not require {@link PDQ.init}.
+   *
+   * @param hash PDQ hash bytes
+   * @param urlSafe Use the URL-safe alphabet (`-`, `_`) without `=` padding (default: false)
+   * @returns Base64 string
+   *
+   * @example
+   * await kv.put(key, PDQ.toBase64(hash));
+   * const cursor = `/hashes/${PDQ.toBase64(hash, true)}`;
+   */
+  toBase64(hash: PDQHash, urlSafe: boolean = false): string {
+    if (hash.length !== 32) {
+      const errorMsg = `Invalid hash length. PDQ hashes must be 32 bytes (got ${hash.length})`;
+      this.handleError(errorMsg);
+      if (this.ignoreInvalidFlag) return hashToBase64(new Uint8Array(32), urlSafe); // Return zero hash
+    }
+
+    return hashToBase64(hash, urlSafe);
+  }
+
+  /**
+   * Convert a base64 string to PDQ hash bytes
+   *
+   * Accepts the standard and URL-safe alphabets, with or without padding.
+   * Implemented in TypeScript - does not require {@link PDQ.init}.
+   *
+   * @param base64 Base64 string encoding 32 bytes
+   * @returns PDQ hash bytes
+   */
+  fromBase64(base64: string): PDQHash {
+    const hash = base64ToHash(base64);
+
+    if (!hash || hash.length !== 32) {
+      const errorMsg = hash
+        ? `Invalid base64 hash length. Must decode to 32 bytes (got ${hash.length})`
+        : 'Invalid base64 string format';
+      this.handleError(errorMsg);
+      return new Uint8Array(32); // Return zero hash
+    }
+
+    return hash;
+  }
+
+  /**
+   * Format a self-describing hash string: `pdq:1:<hex>:q<quality>`
+   *
+   * The string carries the format version and, optionally, the quality score,
+   * so stored hashes can be told apart from other hash types and filtered by
+   * quality without a separate column. {@link PDQ#parse} reads it back.
+   *
+   * @param hash PDQ hash bytes
+   * @param quality Quality score (0-100) to include (default: omitted)
+   * @returns Hash string, e.g. `pdq:1:f8f8...0e0e:q87`
+   *
+   * @example
+   * const { hash, quality } = PDQ.hash(imageData);
+   * const id = PDQ.toHashString(hash, quality); // "pdq:1:...:q87"
+   */
+  toHashString(hash: PDQHash, quality?: number): string {
+    if (quality !== undefined && !(Number.isInteger(quality) && quality >= 0 && quality <= 100)) {
+      const errorMsg = `Invalid quality: ${quality}. Must be an integer from 0 to 100`;
+      this.handleError(errorMsg);
+      quality = undefined;
+    }
+
+    const prefix = `${HASH_STRING_PREFIX}:${HASH_STRING_VERSION}:${this.toHex(hash)}`;
+    return quality === undefined ? prefix : `${prefix}:q${quality}`;
+  }
+
+  /**
+   * Decode a PDQ hash, detecting its format
+   *
+   * Accepts 64-character hex, base64 (standard or URL-safe), `pdq:1:<hex>[:q<quality>]`
+   * strings from {@link PDQ#toHashString}, and 32-byte arrays. Surrounding
+   * whitespace is ignored. Implemented in TypeScript - does not require {@link PDQ.init}.
+   *
+   * @param input Encoded hash
+   * @returns The hash bytes, the detected format, and the quality/version when present
+   *
+   * @example
+   * PDQ.parse('pdq:1:f8f8...0e0e:q87'); // { hash, format: 'pdq', version: 1, quality: 87 }
+   * PDQ.parse('+Pj4...Dg4=');           // { hash, format: 'base64' }
+   */
+  parse(input: string | Uint8Array): ParsedPDQHash {
+    if (input instanceof Uint8Array) {
+      if (input.length !== 32) {
+        this.handleError(`Invalid hash length. PDQ hashes must be 32 bytes (got ${input.length})`);
+        return { hash: new Uint8Array(32), format: 'bytes' };
       }
-      mod.HEAPU8[hexPtr + 64] = 0; // null terminator
+      return { hash: input, format: 'bytes' };
+    }
 
-      const result = mod._pdq_hex_to_hash(hexPtr, hashPtr);
+    const text = String(input).trim();
 
-      if (result !== 0) {
-        const errorMsg = 'Invalid hex string format';
-        this.handleError(errorMsg);
-        if (this.ignoreInvalidFlag) {
-          return new Uint8Array(32); // Return zero hash
-        }
+    if (text.startsWith(`${HASH_STRING_PREFIX}:`)) {
+      const match = /^pdq:(\d+):([0-9a-fA-F]{64})(?::q(\d{1,3}))?$/.exec(text);
+      const version = match ? Number(match[1]) : NaN;
+      const quality = match?.[3] === undefined ? undefined : Number(match[3]);
+
+      if (!match || (quality !== undefined && quality > 100)) {
+        this.handleError(`Invalid PDQ hash string: ${text}. Expected pdq:${HASH_STRING_VERSION}:<64 hex chars>[:q<0-100>]`);
+        return { hash: new Uint8Array(32), format: 'pdq' };
+      }
+      if (version !== HASH_STRING_VERSION) {
+        this.handleError(`Unsupported PDQ hash string version: ${version}`);
+        return { hash: new Uint8Array(32), format: 'pdq', version };
       }
 
-      const hash = new Uint8Array(32);
-      hash.set(mod.HEAPU8.subarray(hashPtr, hashPtr + 32));
+      const parsed: ParsedPDQHash = { hash: hexToHash(match[2])!, format: 'pdq', version };
+      if (quality !== undefined) {
+        parsed.quality = quality;
+      }
+      return parsed;
+    }
+
+    if (text.length === 64) {
+      return { hash: this.fromHex(text), format: 'hex' };
+    }
+
+    if (text.length === 43 || text.length === 44) {
+      const format = /[-_]/.test(text) || !text.endsWith('=') ? 'base64url' : 'base64';
+      return { hash: this.fromBase64(text), format };
+    }
+
+    this.handleError(`Unrecognized PDQ hash format: expected hex, base64 or ${HASH_STRING_PREFIX}:${HASH_STRING_VERSION}:<hex> (got ${text.length} characters)`);
+    return { hash: new Uint8Array(32), format: 'hex' };
+  }
+
+  /**
+   * Pack hashes into one contiguous buffer (32 bytes per hash)
+   *
+   * The result stores hashes in half the size of hex strings and can be passed
+   * straight to {@link PDQ#hammingDistanceBatch} and {@link PDQ#distanceMatrix}.
+   *
+   * @param hashes PDQ hashes
+   * @returns Concatenated hashes
+   *
+   * @example
+   * const packed = PDQ.packHashes(hashes);
+   * await fs.writeFile('hashes.bin', packed);
+   */
+  packHashes(hashes: PDQHash[]): Uint8Array {
+    const packed = new Uint8Array(hashes.length * 32);
+    for (let i = 0; i < hashes.length; i++) {
+      if (hashes[i].length !== 32) {
+        const errorMsg = `Invalid hash length at index ${i}. Expected 32 bytes, got ${hashes[i].length}`;
+        this.handleError(errorMsg);
+        continue; // Leave a zero hash
+      }
+      packed.set(hashes[i], i * 32);
+    }
+    return packed;
+  }
 
-      this.log('Hex converted to hash successfully');
+  /**
+   * Split a packed buffer into hashes
+   *
+   * The returned hashes are views into `packed`, not copies; copy them with
+   * `slice()` if the buffer will be reused.
+   *
+   * @param packed Concatenated 32-byte hashes
+   * @returns One hash per 32 bytes
+   */
+  unpackHashes(packed: Uint8Array): PDQHash[] {
+    if (packed.length % 32 !== 0) {
+      const errorMsg = `Invalid packed hashes length. Must be a multiple of 32 bytes (got ${packed.length})`;
+      this.handleError(errorMsg);
+    }
 
-      return hash;
-    } finally {
-      mod._free(hexPtr);
-      mod._free(hashPtr);
+    const hashes: PDQHash[] = [];
+    for (let offset = 0; offset + 32 <= packed.length; offset += 32) {
+      hashes.push(packed.subarray(offset, offset + 32));
     }
+    return hashes;
   }
 
   /**
@@ -669,7 +1528,7 @@ export class PDQ {
    * @param threshold Maximum Hamming distance to consider similar (default: 31)
    * @returns True if hashes are similar
    */
-  static areSimilar(
+  areSimilar(
     hash1: PDQHash,
     hash2: PDQHash,
     threshold: number = 31
@@ -685,7 +1544,7 @@ export class PDQ {
    * @param hash2 Second PDQ hash
    * @returns Similarity percentage (0 = completely different, 100 = identical)
    */
-  static similarity(hash1: PDQHash, hash2: PDQHash): number {
+  similarity(hash1: PDQHash, hash2: PDQHash): number {
     const distance = this.hammingDistance(hash1, hash2);
     const maxBits = hash1.length * 8; // Total bits in hash
     return ((maxBits - distance) / maxBits) * 100;
@@ -700,7 +1559,7 @@ export class PDQ {
    * @param includeIndex Whether to include original array index (default: false)
    * @returns Array of SimilarityMatch objects ordered by distance (ascending)
    */
-  static orderBySimilarity(
+  orderBySimilarity(
     referenceHash: PDQHash,
     hashes: PDQHash[],
     includeIndex: boolean = false
@@ -732,32 +1591,116 @@ export class PDQ {
           hash,
           distance,
           similarity,
+          index,
         };
 
-        if (includeIndex) {
-          match.index = index;
-        }
-
         return match;
       })
       .filter((match): match is SimilarityMatch => match !== null);
 
     // Sort by distance (ascending - most similar first)
-    // Use secondary sort by original index for stable ordering
-    matches.sort((a, b) => {
-      if (a.distance !== b.distance) {
-        return a.distance - b.distance;
+    // When distances are equal, maintain original order
+    matches.sort(compareSimilarityMatches);
+
+    if (!includeIndex) {
+      for (const match of matches) {
+        delete match.index;
       }
-      // When distances are equal, maintain original order
-      const indexA = includeIndex ? (a.index ?? 0) : hashes.indexOf(a.hash);
-      const indexB = includeIndex ? (b.index ?? 0) : hashes.indexOf(b.hash);
-      return indexA - indexB;
-    });
+    }
 
     this.log(`Ordered ${matches.length} hashes. Best match has distance ${matches[0]?.distance ?? 'N/A'}`);
 
     return matches;
   }
+
+  /**
+   * Find the `k` candidates closest to a reference hash
+   * Keeps only the best `k` matches while scanning, so memory stays O(k) and
+   * selection costs O(n log k) instead of sorting every distance.
+   *
+   * @param referenceHash The reference hash (bytes or 64-character hex string)
+   * @param candidates Hashes, hex strings or `{ hash, payload }` records to search
+   * @param options `k` and an optional `maxDistance` (default: 256)
+   * @returns Up to `k` matches sorted by distance, then candidate index; record payloads are returned on each match
+   * @throws {Error} If `k`, `maxDistance` or any hash is invalid (unless ignoreInvalid is set, which skips invalid candidates)
+   *
+   * @example
+   * const matches = PDQ.findNearest(queryHash, [
+   *   { hash: 'f8f8...', payload: { id: 1 } },
+   *   { hash: 'a1b2...', payload: { id: 2 } },
+   * ], { k: 1, maxDistance: 31 });
+   * // matches[0].payload -> { id: 1 }
+   */
+  findNearest<T = unknown>(
+    referenceHash: PDQHash | string,
+    candidates: Iterable<SimilarityCandidate<T>>,
+    options: FindNearestOptions
+  ): SimilarityMatch<T>[] {
+    const { k } = options;
+    const maxDistance = options.maxDistance ?? 256;
+
+    if (!Number.isInteger(k) || k <= 0) {
+      this.handleError(`Invalid k: ${k}. Must be a positive integer`);
+      return [];
+    }
+    if (!Number.isInteger(maxDistance) || maxDistance < 0 || maxDistance > 256) {
+      this.handleError(`Invalid maxDistance: ${maxDistance}. Must be an integer between 0 and 256`);
+      return [];
+    }
+
+    const reference = typeof referenceHash === 'string' ? hexToHash(referenceHash) : referenceHash;
+    if (!reference || reference.length !== 32) {
+      this.handleError('Invalid reference hash. Expected 32 bytes or a 64-character hex string');
+      return [];
+    }
+
+    // Max-heap of the best matches so far; heap[0] is the worst one kept
+    const heap: SimilarityMatch<T>[] = [];
+    let bound = maxDistance;
+    let index = 0;
+
+    for (const candidate of candidates) {
+      const position = index++;
+      const isRecord = typeof candidate !== 'string' && !(candidate instanceof Uint8Array);
+      const value = isRecord ? candidate.hash : candidate;
+      const hash = typeof value === 'string' ? hexToHash(value) : value;
+
+      if (!hash || hash.length !== 32) {
+        this.handleError(`Invalid hash at index ${position}. Expected 32 bytes or a 64-character hex string`);
+        continue;
+      }
+
+      const distance = hashHammingDistance(reference, hash);
+      if (distance > bound) {
+        continue;
+      }
+
+      const match: SimilarityMatch<T> = {
+        hash,
+        distance,
+        similarity: ((256 - distance) / 256) * 100,
+        index: position,
+      };
+      if (isRecord) {
+        match.payload = candidate.payload;
+      }
+
+      if (heap.length < k) {
+        heap.push(match);
+        siftUp(heap, heap.length - 1);
+      } else if (compareSimilarityMatches(match, heap[0]) < 0) {
+        heap[0] = match;
+        siftDown(heap, 0);
+      }
+      if (heap.length === k) {
+        bound = heap[0].distance;
+      }
+    }
+
+    this.log(`Found ${heap.length} nearest of ${index} candidates`);
+
+    return heap.sort(compareSimilarityMatches);
+  }
 }
 
 // Default export
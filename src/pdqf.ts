@@ -0,0 +1,200 @@
+/**
+ * PDQF (float) hash utilities
+ *
+ * A PDQ hash sets bit `k` when DCT coefficient `k` is above the median of all
+ * 256 coefficients. Coefficients that sit close to the median flip easily
+ * under re-encoding, so a bit mismatch there says little about whether two
+ * images differ. These helpers keep the coefficient magnitudes around and use
+ * them to ignore or down-weight those unreliable bits.
+ *
+ * All functions here are pure TypeScript and do not require PDQ.init().
+ */
+
+import type { PDQHash, PDQFloatHash } from './types';
+import { PDQ_HASH_BITS, PDQ_HASH_BYTES } from './hash-utils';
+
+/**
+ * Result of a masked Hamming distance
+ */
+export interface MaskedDistance {
+  /** Number of mismatched bits among the compared bits */
+  distance: number;
+  /** Number of bits that were compared (256 minus the masked bits) */
+  comparedBits: number;
+}
+
+/**
+ * Options for {@link maskedHammingDistance}
+ */
+export interface MaskedDistanceOptions {
+  /** Fraction of bits closest to the median to ignore (0-1, default: 0.1) */
+  ignoreFraction?: number;
+}
+
+/**
+ * Options for {@link weightedHammingDistance}
+ */
+export interface WeightedDistanceOptions {
+  /**
+   * Distance from the median at which a bit counts fully
+   * Defaults to the median absolute deviation of the query coefficients.
+   */
+  scale?: number;
+}
+
+/**
+ * Byte index and mask for hash bit `k`
+ * Matches the WASM byte layout: 16 big-endian 16-bit words, bit `k` in word `k >> 4`.
+ * @internal
+ */
+function bitPosition(k: number): [number, number] {
+  const word = k >> 4;
+  const bit = k & 15;
+  return [word * 2 + (bit < 8 ? 1 : 0), 1 << (bit & 7)];
+}
+
+/**
+ * Read hash bit `k`
+ * @internal
+ */
+function getBit(hash: PDQHash, k: number): boolean {
+  const [byte, mask] = bitPosition(k);
+  return (hash[byte] & mask) !== 0;
+}
+
+/**
+ * Validate a float hash length
+ * @internal
+ */
+function assertFloatHash(values: PDQFloatHash): void {
+  if (values.length !== PDQ_HASH_BITS) {
+    throw new Error(`Invalid float hash length. PDQF hashes must have 256 values (got ${values.length})`);
+  }
+}
+
+/**
+ * Median used by the reference implementation to quantize coefficients
+ * For 256 values this is the lower median (the 128th smallest).
+ *
+ * @param values PDQF coefficients
+ * @returns Median coefficient
+ */
+export function floatHashMedian(values: PDQFloatHash): number {
+  assertFloatHash(values);
+  const sorted = Float32Array.from(values).sort();
+  return sorted[(sorted.length - 1) >> 1];
+}
+
+/**
+ * Quantize a PDQF float hash into a 256-bit PDQ hash
+ * Produces the same bits as PDQ.hash for the same image.
+ *
+ * @param values PDQF coefficients
+ * @returns 32-byte PDQ hash
+ */
+export function floatHashToHash(values: PDQFloatHash): PDQHash {
+  const median = floatHashMedian(values);
+  const hash = new Uint8Array(PDQ_HASH_BYTES);
+  for (let k = 0; k < PDQ_HASH_BITS; k++) {
+    if (values[k] > median) {
+      const [byte, mask] = bitPosition(k);
+      hash[byte] |= mask;
+    }
+  }
+  return hash;
+}
+
+/**
+ * Normalize a comparison candidate to hash bits
+ * @internal
+ */
+function toBits(candidate: PDQHash | PDQFloatHash): PDQHash {
+  if (candidate instanceof Float32Array) {
+    return floatHashToHash(candidate);
+  }
+  if (candidate.length !== PDQ_HASH_BYTES) {
+    throw new Error(`Invalid hash length. PDQ hashes must be 32 bytes (got ${candidate.length})`);
+  }
+  return candidate;
+}
+
+/**
+ * Hamming distance that ignores the query bits whose coefficients are closest to the median
+ *
+ * @param query PDQF coefficients of the query image
+ * @param candidate PDQ hash (or PDQF coefficients) to compare against
+ * @param options Masking options
+ * @returns Mismatched bit count and the number of bits compared
+ *
+ * @example
+ * ```typescript
+ * const { values } = PDQ.hashFloat(upload);
+ * const { distance, comparedBits } = maskedHammingDistance(values, storedHash, { ignoreFraction: 0.15 });
+ * const normalized = (distance / comparedBits) * 256;
+ * ```
+ */
+export function maskedHammingDistance(
+  query: PDQFloatHash,
+  candidate: PDQHash | PDQFloatHash,
+  options: MaskedDistanceOptions = {}
+): MaskedDistance {
+  const ignoreFraction = options.ignoreFraction ?? 0.1;
+  if (ignoreFraction < 0 || ignoreFraction >= 1) {
+    throw new Error(`Invalid ignoreFraction: ${ignoreFraction}. Must be in [0, 1)`);
+  }
+
+  const queryBits = floatHashToHash(query);
+  const candidateBits = toBits(candidate);
+  const median = floatHashMedian(query);
+
+  // Rank bits by how far their coefficient sits from the median
+  const order = Array.from({ length: PDQ_HASH_BITS }, (_, k) => k)
+    .sort((a, b) => Math.abs(query[a] - median) - Math.abs(query[b] - median));
+  const masked = new Set(order.slice(0, Math.floor(PDQ_HASH_BITS * ignoreFraction)));
+
+  let distance = 0;
+  for (let k = 0; k < PDQ_HASH_BITS; k++) {
+    if (!masked.has(k) && getBit(queryBits, k) !== getBit(candidateBits, k)) {
+      distance++;
+    }
+  }
+
+  return { distance, comparedBits: PDQ_HASH_BITS - masked.size };
+}
+
+/**
+ * Hamming distance where each mismatched bit is weighted by its coefficient's distance from the median
+ *
+ * A mismatch counts `min(1, |value - median| / scale)`, so bits far from the
+ * median count fully and near-threshold bits count very little. The result is
+ * on the same 0-256 scale as the plain Hamming distance and never exceeds it.
+ *
+ * @param query PDQF coefficients of the query image
+ * @param candidate PDQ hash (or PDQF coefficients) to compare against
+ * @param options Weighting options
+ * @returns Weighted distance (0-256, fractional)
+ */
+export function weightedHammingDistance(
+  query: PDQFloatHash,
+  candidate: PDQHash | PDQFloatHash,
+  options: WeightedDistanceOptions = {}
+): number {
+  const queryBits = floatHashToHash(query);
+  const candidateBits = toBits(candidate);
+  const median = floatHashMedian(query);
+
+  let scale = options.scale;
+  if (scale === undefined) {
+    const deviations = Float32Array.from(query, v => Math.abs(v - median)).sort();
+    scale = deviations[(deviations.length - 1) >> 1];
+  }
+
+  let distance = 0;
+  for (let k = 0; k < PDQ_HASH_BITS; k++) {
+    if (getBit(queryBits, k) !== getBit(candidateBits, k)) {
+      distance += scale > 0 ? Math.min(1, Math.abs(query[k] - median) / scale) : 1;
+    }
+  }
+
+  return distance;
+}
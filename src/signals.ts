@@ -0,0 +1,424 @@
+/**
+ * ThreatExchange and Hasher-Matcher-Actioner (HMA) PDQ signal lists
+ *
+ * Readers and writers for the hash list formats trust & safety teams exchange,
+ * and a matcher that reports which listed signal a hash matched.
+ */
+
+import { PDQ } from './pdq';
+import type { PDQHash, PDQHashResult } from './types';
+import { isValidHex } from './hash-utils';
+import { csvField, parseCsv } from './csv';
+
+/**
+ * A PDQ hash shared on a signal list, with its metadata
+ */
+export interface PDQSignal {
+  /** PDQ hash as lowercase hex */
+  hash: string;
+  /** Quality score of the hash (0-100), when the list carries it */
+  quality?: number;
+  /** Tags (ThreatExchange) or labels (HMA) */
+  tags: string[];
+  /** Descriptor, indicator or content ID on the source list */
+  id?: string;
+  /** When the signal was first added */
+  createdAt?: Date;
+  /** When the signal was last updated */
+  updatedAt?: Date;
+  /** Free-text description */
+  description?: string;
+}
+
+/**
+ * A signal matched by {@link SignalMatcher}
+ */
+export interface SignalMatch {
+  /** The matched signal */
+  signal: PDQSignal;
+  /** Hamming distance between the query and the signal's hash (0-256) */
+  distance: number;
+}
+
+/**
+ * Options for {@link SignalMatcher}
+ */
+export interface SignalMatcherOptions {
+  /** Maximum Hamming distance for a match (default: 31) */
+  maxDistance?: number;
+  /**
+   * Queries with a lower quality never match (default: 0)
+   * ThreatExchange recommends ignoring PDQ hashes with quality below 50.
+   */
+  minQuality?: number;
+  /**
+   * PDQ instance for hex decoding and distances (default: the static PDQ API)
+   * Neither needs WASM, so the matcher works without PDQ.init().
+   */
+  pdq?: PDQ;
+}
+
+/** ThreatExchange indicator type of PDQ hashes */
+const THREATEXCHANGE_PDQ_TYPE = 'HASH_PDQ';
+
+/** HMA signal type name of PDQ hashes */
+const HMA_PDQ_TYPE = 'pdq';
+
+/** Columns written by {@link formatHMASignals} */
+const HMA_COLUMNS = ['signal_type', 'signal', 'quality', 'id', 'tags', 'added_on', 'updated_on', 'description'];
+
+/**
+ * Header names accepted for each field when reading HMA CSV
+ * @internal
+ */
+const HMA_HEADER_NAMES = {
+  type: ['signal_type'],
+  hash: ['signal', 'signal_value', 'hash', 'pdq_hash', 'pdq'],
+  quality: ['quality'],
+  id: ['id', 'content_id', 'descriptor_id', 'first_descriptor_id'],
+  tags: ['tags', 'labels'],
+  createdAt: ['added_on', 'created_at', 'first_seen'],
+  updatedAt: ['updated_on', 'updated_at', 'last_updated'],
+  description: ['description']
+};
+
+/**
+ * Parse a list timestamp: ISO 8601 (including ThreatExchange's `+0000` offsets)
+ * or Unix time in seconds
+ * @internal
+ */
+function parseTimestamp(value: unknown): Date | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+
+  let date: Date;
+  if (typeof value === 'number' || /^\d+(\.\d+)?$/.test(String(value))) {
+    date = new Date(Number(value) * 1000);
+  } else {
+    // "2021-04-15T19:05:11+0000" -> "2021-04-15T19:05:11+00:00"
+    date = new Date(String(value).trim().replace(/([+-]\d\d)(\d\d)$/, '$1:$2'));
+  }
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+/**
+ * Parse an optional 0-100 quality score
+ * @internal
+ */
+function parseQuality(value: unknown, where: string): number | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  const quality = Number(value);
+  if (!Number.isInteger(quality) || quality < 0 || quality > 100) {
+    throw new Error(`Invalid quality in ${where}: ${value}. Must be an integer from 0 to 100`);
+  }
+  return quality;
+}
+
+/**
+ * Validate and normalize a hex hash
+ * @internal
+ */
+function parseHash(value: unknown, where: string): string {
+  const hex = typeof value === 'string' ? value.trim() : '';
+  if (!isValidHex(hex)) {
+    throw new Error(`Invalid PDQ hash in ${where}: ${String(value)}. Must be 64 hex characters`);
+  }
+  return hex.toLowerCase();
+}
+
+/**
+ * Fields read from a ThreatExchange threat descriptor
+ * Exports come from outside, so every field may be missing or of another type.
+ * @internal
+ */
+interface ThreatExchangeDescriptor {
+  id?: unknown;
+  type?: unknown;
+  raw_indicator?: unknown;
+  indicator?: { type?: unknown; indicator?: unknown } | null;
+  tags?: unknown;
+  quality?: unknown;
+  added_on?: unknown;
+  last_updated?: unknown;
+  description?: unknown;
+}
+
+/**
+ * Read ThreatExchange tags: strings, `{ text }` objects, or a `{ data: [...] }` edge
+ * @internal
+ */
+function parseTags(value: unknown): string[] {
+  const list = Array.isArray(value) ? value : (value as { data?: unknown[] } | null)?.data;
+  if (!Array.isArray(list)) return [];
+  return list
+    .map(tag => (typeof tag === 'string' ? tag : (tag as { text?: unknown } | null)?.text))
+    .filter((tag): tag is string => typeof tag === 'string' && tag !== '');
+}
+
+/**
+ * Read PDQ signals from a ThreatExchange threat descriptor export
+ *
+ * Accepts a Graph API response (`{ data: [...] }`), a plain array of
+ * descriptors, or JSON text of either. Descriptors whose type is not
+ * `HASH_PDQ` are skipped. For each PDQ descriptor:
+ *
+ * - `raw_indicator` (or `indicator.indicator`) is the hash
+ * - `tags` may be strings, `{ text }` objects or a `{ data: [...] }` edge
+ * - `added_on` and `last_updated` become `createdAt` and `updatedAt`
+ * - `quality`, `id` and `description` are kept when present
+ *
+ * @param input Descriptor export
+ * @returns Signals in list order
+ * @throws Error if the JSON is malformed or a PDQ descriptor has an invalid hash
+ *
+ * @example
+ * ```typescript
+ * const signals = parseThreatExchangeSignals(await fs.readFile('descriptors.json', 'utf8'));
+ * ```
+ */
+export function parseThreatExchangeSignals(input: string | unknown): PDQSignal[] {
+  const json = typeof input === 'string' ? JSON.parse(input) : input;
+  const descriptors = Array.isArray(json) ? json : (json as { data?: unknown[] } | null)?.data;
+  if (!Array.isArray(descriptors)) {
+    throw new Error('Invalid ThreatExchange export: expected an array of descriptors or { data: [...] }');
+  }
+
+  const signals: PDQSignal[] = [];
+  descriptors.forEach((value: unknown, i) => {
+    const descriptor = value as ThreatExchangeDescriptor | null;
+    if (!descriptor || (descriptor.type ?? descriptor.indicator?.type) !== THREATEXCHANGE_PDQ_TYPE) return;
+
+    const where = `descriptor ${i}`;
+    const signal: PDQSignal = {
+      hash: parseHash(descriptor.raw_indicator ?? descriptor.indicator?.indicator, where),
+      tags: parseTags(descriptor.tags)
+    };
+    const quality = parseQuality(descriptor.quality, where);
+    if (quality !== undefined) signal.quality = quality;
+    if (descriptor.id !== undefined) signal.id = String(descriptor.id);
+    const createdAt = parseTimestamp(descriptor.added_on);
+    if (createdAt) signal.createdAt = createdAt;
+    const updatedAt = parseTimestamp(descriptor.last_updated);
+    if (updatedAt) signal.updatedAt = updatedAt;
+    if (typeof descriptor.description === 'string' && descriptor.description !== '') {
+      signal.description = descriptor.description;
+    }
+    signals.push(signal);
+  });
+  return signals;
+}
+
+/**
+ * Write PDQ signals as a ThreatExchange descriptor export (`{ data: [...] }`)
+ * Timestamps are written as ISO 8601; {@link parseThreatExchangeSignals} reads the output back.
+ *
+ * @param signals Signals to write
+ * @returns JSON text
+ */
+export function formatThreatExchangeSignals(signals: Iterable<PDQSignal>): string {
+  const data = Array.from(signals, signal => {
+    const descriptor: Record<string, unknown> = {};
+    if (signal.id !== undefined) descriptor.id = signal.id;
+    descriptor.type = THREATEXCHANGE_PDQ_TYPE;
+    descriptor.raw_indicator = signal.hash;
+    if (signal.quality !== undefined) descriptor.quality = signal.quality;
+    descriptor.tags = signal.tags;
+    if (signal.createdAt) descriptor.added_on = signal.createdAt.toISOString();
+    if (signal.updatedAt) descriptor.last_updated = signal.updatedAt.toISOString();
+    if (signal.description !== undefined) descriptor.description = signal.description;
+    return descriptor;
+  });
+  return JSON.stringify({ data }, null, 2) + '\n';
+}
+
+/**
+ * Read PDQ signals from an HMA hash list CSV
+ *
+ * Two layouts are accepted:
+ *
+ * - With a header row, columns are found by name: `signal` (or `hash`,
+ *   `pdq_hash`), `quality`, `id` (or `content_id`, `descriptor_id`),
+ *   `tags` (or `labels`), `added_on`, `updated_on` and `description`. When a
+ *   `signal_type` column is present, rows of other types are skipped.
+ * - Without a header, the HMA / python-threatexchange rollup layout
+ *   `hash,descriptor_id,added_on,labels` is assumed.
+ *
+ * Tags are separated by spaces (or semicolons).
+ *
+ * @param csv CSV text
+ * @returns Signals in list order
+ * @throws Error if a row has an invalid hash or quality
+ */
+export function parseHMASignals(csv: string): PDQSignal[] {
+  const rows = parseCsv(csv);
+  const header = rows[0]?.map(field => field.trim().toLowerCase()) ?? [];
+  const hasHeader = !isValidHex(rows[0]?.[0]?.trim() ?? '') &&
+    HMA_HEADER_NAMES.hash.some(name => header.includes(name));
+
+  const column = (names: string[]) => header.findIndex(name => names.includes(name));
+  const columns = hasHeader
+    ? {
+        type: column(HMA_HEADER_NAMES.type),
+        hash: column(HMA_HEADER_NAMES.hash),
+        quality: column(HMA_HEADER_NAMES.quality),
+        id: column(HMA_HEADER_NAMES.id),
+        tags: column(HMA_HEADER_NAMES.tags),
+        createdAt: column(HMA_HEADER_NAMES.createdAt),
+        updatedAt: column(HMA_HEADER_NAMES.updatedAt),
+        description: column(HMA_HEADER_NAMES.description)
+      }
+    : { type: -1, hash: 0, quality: -1, id: 1, tags: 3, createdAt: 2, updatedAt: -1, description: -1 };
+
+  const signals: PDQSignal[] = [];
+  rows.slice(hasHeader ? 1 : 0).forEach((row, r) => {
+    const field = (index: number) => (index >= 0 ? row[index]?.trim() ?? '' : '');
+    if (columns.type >= 0 && field(columns.type).toLowerCase() !== HMA_PDQ_TYPE) return;
+
+    const where = `row ${r + (hasHeader ? 2 : 1)}`;
+    const signal: PDQSignal = {
+      hash: parseHash(field(columns.hash), where),
+      tags: field(columns.tags).split(/[\s;]+/).filter(tag => tag !== '')
+    };
+    const quality = parseQuality(field(columns.quality), where);
+    if (quality !== undefined) signal.quality = quality;
+    if (field(columns.id) !== '') signal.id = field(columns.id);
+    const createdAt = parseTimestamp(field(columns.createdAt));
+    if (createdAt) signal.createdAt = createdAt;
+    const updatedAt = parseTimestamp(field(columns.updatedAt));
+    if (updatedAt) signal.updatedAt = updatedAt;
+    if (field(columns.description) !== '') signal.description = field(columns.description);
+    signals.push(signal);
+  });
+  return signals;
+}
+
+/**
+ * Write PDQ signals as HMA CSV
+ * The header is `signal_type,signal,quality,id,tags,added_on,updated_on,description`,
+ * with space-separated tags and ISO 8601 timestamps.
+ * {@link parseHMASignals} reads the output back, including descriptions.
+ *
+ * @param signals Signals to write
+ * @returns CSV text
+ */
+export function formatHMASignals(signals: Iterable<PDQSignal>): string {
+  let csv = HMA_COLUMNS.join(',') + '\n';
+  for (const signal of signals) {
+    csv += [
+      HMA_PDQ_TYPE,
+      signal.hash,
+      signal.quality ?? '',
+      csvField(signal.id ?? ''),
+      csvField(signal.tags.join(' ')),
+      signal.createdAt?.toISOString() ?? '',
+      signal.updatedAt?.toISOString() ?? '',
+      csvField(signal.description ?? '')
+    ].join(',') + '\n';
+  }
+  return csv;
+}
+
+/**
+ * Read a signal list in either format
+ * JSON text is read as a ThreatExchange export, anything else as HMA CSV.
+ *
+ * @param text List contents
+ * @returns Signals in list order
+ */
+export function parseSignals(text: string): PDQSignal[] {
+  const start = text.trimStart()[0];
+  return start === '{' || start === '[' ? parseThreatExchangeSignals(text) : parseHMASignals(text);
+}
+
+/**
+ * Matches PDQ hashes against a signal list
+ *
+ * Signal hashes are decoded once with `PDQ.fromHex`; each query is compared
+ * with `PDQ.hammingDistance` against every signal, so this suits lists of up
+ * to a few hundred thousand hashes. Use {@link PDQIndex} for larger lists.
+ *
+ * @example
+ * ```typescript
+ * const matcher = new SignalMatcher(parseSignals(await fs.readFile('signals.csv', 'utf8')), {
+ *   maxDistance: 31,
+ *   minQuality: 50
+ * });
+ *
+ * const [best] = matcher.match(PDQ.hash(imageData));
+ * if (best) {
+ *   console.log(`Matched ${best.signal.id} (${best.signal.tags.join(', ')}) at distance ${best.distance}`);
+ * }
+ * ```
+ */
+export class SignalMatcher {
+  private readonly signals: Array<{ hash: PDQHash; signal: PDQSignal }> = [];
+  private readonly maxDistance: number;
+  private readonly minQuality: number;
+  private readonly pdq: PDQ | typeof PDQ;
+
+  /**
+   * @param signals Signals to match against
+   * @param options Match threshold, query quality cutoff and PDQ instance
+   * @throws Error if an option or a signal hash is invalid
+   */
+  constructor(signals: Iterable<PDQSignal> = [], options: SignalMatcherOptions = {}) {
+    this.maxDistance = options.maxDistance ?? 31;
+    this.minQuality = options.minQuality ?? 0;
+    this.pdq = options.pdq ?? PDQ;
+
+    if (!Number.isInteger(this.maxDistance) || this.maxDistance < 0 || this.maxDistance > 256) {
+      throw new Error(`Invalid maxDistance: ${this.maxDistance}. Must be an integer from 0 to 256`);
+    }
+    if (!(this.minQuality >= 0 && this.minQuality <= 100)) {
+      throw new Error(`Invalid minQuality: ${this.minQuality}. Must be from 0 to 100`);
+    }
+
+    this.add(signals);
+  }
+
+  /** Number of signals loaded */
+  get size(): number {
+    return this.signals.length;
+  }
+
+  /**
+   * Load more signals
+   * @param signals Signals to add
+   * @throws Error if a signal hash is invalid
+   */
+  add(signals: Iterable<PDQSignal>): void {
+    for (const signal of signals) {
+      if (!isValidHex(signal.hash)) {
+        throw new Error(`Invalid PDQ hash in signal ${signal.id ?? signal.hash}. Must be 64 hex characters`);
+      }
+      this.signals.push({ hash: this.pdq.fromHex(signal.hash), signal });
+    }
+  }
+
+  /**
+   * Find the signals within `maxDistance` of a hash, closest first
+   *
+   * @param query A hash result (its quality is checked against `minQuality`), hash bytes or hex
+   * @returns Matches sorted by distance; empty if the query's quality is too low
+   */
+  match(query: PDQHashResult | PDQHash | string): SignalMatch[] {
+    let hash: PDQHash;
+    if (typeof query === 'string') {
+      hash = this.pdq.fromHex(query);
+    } else if (query instanceof Uint8Array) {
+      hash = query;
+    } else {
+      if (query.quality < this.minQuality) return [];
+      hash = query.hash;
+    }
+
+    const matches: SignalMatch[] = [];
+    for (const entry of this.signals) {
+      const distance = this.pdq.hammingDistance(hash, entry.hash);
+      if (distance <= this.maxDistance) {
+        matches.push({ signal: entry.signal, distance });
+      }
+    }
+    // Stable sort keeps list order for equal distances
+    return matches.sort((a, b) => a.distance - b.distance);
+  }
+}
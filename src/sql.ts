@@ -0,0 +1,400 @@
+/**
+ * PostgreSQL helpers for storing and querying PDQ hashes
+ *
+ * Generates schema DDL and parameterized queries that compute Hamming
+ * distances in the database with `bit_count(a # b)` (PostgreSQL 14+), and
+ * converts hashes to and from the column values of each storage layout.
+ * Nothing here talks to a database: queries are `{ text, values }` objects
+ * that `pg`'s `client.query()` (and most other drivers) accept directly.
+ */
+
+import type { PDQHash } from './types';
+import { isValidHex, hexToHash, hashToHex, PDQ_HASH_BYTES } from './hash-utils';
+
+/**
+ * How a hash is stored
+ * - `hex`: one `CHAR(64)` column
+ * - `bytea`: one `BYTEA` column holding the 32 bytes
+ * - `bit`: one `BIT(256)` column
+ * - `split`: four `BIGINT` columns (`<column>_0` .. `<column>_3`), each holding
+ *   64 bits as a signed integer; XOR and popcount stay in 64-bit arithmetic
+ */
+export type PDQSqlLayout = 'hex' | 'bytea' | 'bit' | 'split';
+
+/**
+ * Table and column names shared by all helpers
+ */
+export interface PDQSqlOptions {
+  /** Table name, optionally schema-qualified */
+  table: string;
+  /** Hash column, or column prefix for the `split` layout (default: 'pdq_hash') */
+  column?: string;
+  /** Storage layout (default: 'hex') */
+  layout?: PDQSqlLayout;
+}
+
+/**
+ * Options for {@link createTableSql}
+ */
+export interface PDQSqlSchemaOptions extends PDQSqlOptions {
+  /** Primary key column, created as `BIGSERIAL` (default: 'id') */
+  idColumn?: string;
+  /** Add a `SMALLINT` quality column with this name (default: none) */
+  qualityColumn?: string;
+  /** Extra column definitions, e.g. `['filename TEXT NOT NULL']` */
+  extraColumns?: string[];
+  /** Use `IF NOT EXISTS` (default: true) */
+  ifNotExists?: boolean;
+}
+
+/**
+ * Options for {@link rangeQuery} and {@link nearestQuery}
+ */
+export interface PDQSqlQueryOptions extends PDQSqlOptions {
+  /** Columns to select besides `distance` (default: ['*']) */
+  columns?: string[];
+}
+
+/**
+ * Options for {@link rangeQuery}
+ */
+export interface PDQSqlRangeOptions extends PDQSqlQueryOptions {
+  /** Maximum Hamming distance (default: 31) */
+  maxDistance?: number;
+}
+
+/**
+ * Options for {@link nearestQuery}
+ */
+export interface PDQSqlNearestOptions extends PDQSqlQueryOptions {
+  /** Maximum number of rows */
+  k: number;
+  /** Maximum Hamming distance (default: 256, i.e. no limit) */
+  maxDistance?: number;
+}
+
+/**
+ * A parameterized query, as accepted by `pg`'s `client.query()`
+ */
+export interface SqlQuery {
+  /** SQL text with `$1`, `$2`, ... placeholders */
+  text: string;
+  /** Parameter values */
+  values: unknown[];
+}
+
+/** The four 64-bit parts of a hash in the `split` layout */
+export type PDQSplitHash = [bigint, bigint, bigint, bigint];
+
+const IDENTIFIER = /^[A-Za-z_][A-Za-z0-9_]*(\.[A-Za-z_][A-Za-z0-9_]*)?$/;
+
+/**
+ * Validate a table or column name; identifiers are emitted unquoted
+ * @internal
+ */
+function identifier(name: string): string {
+  if (typeof name !== 'string' || !IDENTIFIER.test(name)) {
+    throw new Error(`Invalid SQL identifier: ${String(name)}. Use letters, digits and underscores`);
+  }
+  return name;
+}
+
+/**
+ * Resolve defaults and validate names
+ * @internal
+ */
+function resolve(options: PDQSqlOptions): { table: string; column: string; layout: PDQSqlLayout } {
+  const layout = options.layout ?? 'hex';
+  if (!['hex', 'bytea', 'bit', 'split'].includes(layout)) {
+    throw new Error(`Invalid layout: ${layout}. Must be hex, bytea, bit or split`);
+  }
+  return { table: identifier(options.table), column: identifier(options.column ?? 'pdq_hash'), layout };
+}
+
+/**
+ * Normalize a hash argument to 32 bytes
+ * @internal
+ */
+function toBytes(hash: PDQHash | string): PDQHash {
+  if (typeof hash === 'string') {
+    if (!isValidHex(hash)) {
+      throw new Error('Invalid PDQ hash: must be 64 hexadecimal characters');
+    }
+    return hexToHash(hash)!;
+  }
+  if (hash.length !== PDQ_HASH_BYTES) {
+    throw new Error(`Invalid hash length. PDQ hashes must be 32 bytes (got ${hash.length})`);
+  }
+  return hash;
+}
+
+/**
+ * Names of the columns holding a hash
+ *
+ * @param options Column name and layout
+ * @returns One name, or four for the `split` layout
+ */
+export function hashColumns(options: Omit<PDQSqlOptions, 'table'>): string[] {
+  const { column, layout } = resolve({ ...options, table: 't' });
+  return layout === 'split' ? [0, 1, 2, 3].map(i => `${column}_${i}`) : [column];
+}
+
+/**
+ * Split a hash into four signed 64-bit integers for the `split` layout
+ *
+ * @param hash Hash bytes or hex
+ * @returns Parts in big-endian order (bytes 0-7 first)
+ *
+ * @example
+ * ```typescript
+ * const [a, b, c, d] = hashToSplit(result.hash);
+ * ```
+ */
+export function hashToSplit(hash: PDQHash | string): PDQSplitHash {
+  const hex = hashToHex(toBytes(hash));
+  return [0, 1, 2, 3].map(i => BigInt.asIntN(64, BigInt('0x' + hex.slice(i * 16, i * 16 + 16)))) as PDQSplitHash;
+}
+
+/**
+ * Join four 64-bit integers from the `split` layout back into a hash
+ *
+ * @param parts Column values; drivers usually return BIGINT as strings
+ * @returns Hash bytes
+ * @throws Error if there are not four 64-bit integers
+ */
+export function splitToHash(parts: ReadonlyArray<bigint | string | number>): PDQHash {
+  if (!Array.isArray(parts) || parts.length !== 4) {
+    throw new Error(`Invalid split hash: expected 4 parts, got ${Array.isArray(parts) ? parts.length : typeof parts}`);
+  }
+  const hex = parts.map(part => {
+    let value: bigint;
+    try {
+      value = BigInt(part);
+    } catch {
+      throw new Error(`Invalid split hash part: ${part}. Must be a 64-bit integer`);
+    }
+    if (value < -(1n << 63n) || value >= 1n << 64n) {
+      throw new Error(`Invalid split hash part: ${part}. Must be a 64-bit integer`);
+    }
+    return BigInt.asUintN(64, value).toString(16).padStart(16, '0');
+  }).join('');
+  return hexToHash(hex)!;
+}
+
+/**
+ * Column values for a hash, in the order of {@link hashColumns}
+ *
+ * `hex` gives a hex string, `bytea` a byte array, `bit` a string of 256
+ * binary digits, and `split` four BIGINTs as decimal strings (which every
+ * driver can bind).
+ *
+ * @param hash Hash bytes or hex
+ * @param layout Storage layout (default: 'hex')
+ * @returns Parameter values
+ */
+export function hashToColumns(hash: PDQHash | string, layout: PDQSqlLayout = 'hex'): unknown[] {
+  const bytes = toBytes(hash);
+  switch (layout) {
+    case 'hex':
+      return [hashToHex(bytes)];
+    case 'bytea':
+      return [new Uint8Array(bytes)];
+    case 'bit':
+      return [Array.from(bytes, byte => byte.toString(2).padStart(8, '0')).join('')];
+    case 'split':
+      return hashToSplit(bytes).map(part => part.toString());
+    default:
+      throw new Error(`Invalid layout: ${layout}. Must be hex, bytea, bit or split`);
+  }
+}
+
+/**
+ * Read a hash from a result row
+ *
+ * @param row Row object from the driver
+ * @param options Column name and layout
+ * @returns Hash bytes
+ * @throws Error if the columns are missing or malformed
+ */
+export function hashFromRow(row: Record<string, unknown>, options: Omit<PDQSqlOptions, 'table'> = {}): PDQHash {
+  const { layout } = resolve({ ...options, table: 't' });
+  const columns = hashColumns(options);
+  if (layout === 'split') {
+    return splitToHash(columns.map(name => row[name] as bigint | string | number));
+  }
+
+  const value = row[columns[0]];
+  if (layout === 'bytea' && value instanceof Uint8Array && value.length === PDQ_HASH_BYTES) {
+    return new Uint8Array(value);
+  }
+  if (layout === 'bit' && typeof value === 'string' && /^[01]{256}$/.test(value)) {
+    const bytes = new Uint8Array(PDQ_HASH_BYTES);
+    for (let i = 0; i < PDQ_HASH_BYTES; i++) {
+      bytes[i] = parseInt(value.slice(i * 8, i * 8 + 8), 2);
+    }
+    return bytes;
+  }
+  if (layout === 'hex' && typeof value === 'string' && isValidHex(value.trim())) {
+    return hexToHash(value.trim())!;
+  }
+  throw new Error(`Invalid ${layout} hash in column ${columns[0]}`);
+}
+
+/**
+ * SQL expression for the distance between the stored hash and the query parameters
+ * @internal
+ */
+function distanceExpression(column: string, layout: PDQSqlLayout, firstParam: number): string {
+  const param = `('x' || $${firstParam}::text)::bit(256)`;
+  switch (layout) {
+    case 'hex':
+      return `bit_count(('x' || ${column})::bit(256) # ${param})`;
+    case 'bytea':
+      return `bit_count(('x' || encode(${column}, 'hex'))::bit(256) # ${param})`;
+    case 'bit':
+      return `bit_count(${column} # ${param})`;
+    case 'split':
+      return [0, 1, 2, 3]
+        .map(i => `bit_count((${column}_${i} # $${firstParam + i}::bigint)::bit(64))`)
+        .join(' + ');
+  }
+}
+
+/**
+ * Parameter values for a distance query
+ * @internal
+ */
+function distanceValues(hash: PDQHash | string, layout: PDQSqlLayout): unknown[] {
+  // Non-split layouts compare against the hex string, cast to BIT(256) in SQL
+  return layout === 'split' ? hashToColumns(hash, 'split') : [hashToHex(toBytes(hash))];
+}
+
+/**
+ * Build the shared SELECT for range and top-k queries
+ * @internal
+ */
+function distanceQuery(
+  hash: PDQHash | string,
+  maxDistance: number,
+  limit: number | null,
+  options: PDQSqlQueryOptions
+): SqlQuery {
+  if (!Number.isInteger(maxDistance) || maxDistance < 0 || maxDistance > 256) {
+    throw new Error(`Invalid maxDistance: ${maxDistance}. Must be an integer from 0 to 256`);
+  }
+  const { table, column, layout } = resolve(options);
+  const columns = (options.columns ?? ['*']).map(name => (name === '*' ? name : identifier(name)));
+
+  const values = distanceValues(hash, layout);
+  const distance = distanceExpression(column, layout, 1);
+  values.push(maxDistance);
+  let text =
+    `SELECT * FROM (SELECT ${columns.join(', ')}, ${distance} AS distance FROM ${table}) AS candidates\n` +
+    `WHERE distance <= $${values.length}\n` +
+    `ORDER BY distance`;
+  if (limit !== null) {
+    values.push(limit);
+    text += `\nLIMIT $${values.length}`;
+  }
+  return { text, values };
+}
+
+/**
+ * Query rows whose hash is within `maxDistance` of a hash, closest first
+ *
+ * @param hash Query hash (bytes or hex)
+ * @param options Table, column, layout, selected columns and `maxDistance`
+ * @returns Parameterized query; each row gets a `distance` column
+ *
+ * @example
+ * ```typescript
+ * import { rangeQuery } from 'pdq-wasm/sql';
+ *
+ * const { rows } = await client.query(rangeQuery(result.hash, { table: 'images', maxDistance: 31 }));
+ * ```
+ */
+export function rangeQuery(hash: PDQHash | string, options: PDQSqlRangeOptions): SqlQuery {
+  return distanceQuery(hash, options.maxDistance ?? 31, null, options);
+}
+
+/**
+ * Query the `k` rows closest to a hash
+ *
+ * @param hash Query hash (bytes or hex)
+ * @param options Table, column, layout, selected columns, `k` and an optional `maxDistance`
+ * @returns Parameterized query; each row gets a `distance` column
+ *
+ * @example
+ * ```typescript
+ * const { rows } = await client.query(
+ *   nearestQuery(result.hash, { table: 'images', layout: 'split', columns: ['id', 'filename'], k: 10, maxDistance: 64 })
+ * );
+ * ```
+ */
+export function nearestQuery(hash: PDQHash | string, options: PDQSqlNearestOptions): SqlQuery {
+  if (!Number.isInteger(options.k) || options.k < 1) {
+    throw new Error(`Invalid k: ${options.k}. Must be a positive integer`);
+  }
+  return distanceQuery(hash, options.maxDistance ?? 256, options.k, options);
+}
+
+/**
+ * Query to insert a hash, with optional extra column values
+ *
+ * @param hash Hash bytes or hex
+ * @param options Table, column and layout
+ * @param values Extra column values, e.g. `{ filename: 'a.jpg', pdq_quality: 87 }`
+ * @returns Parameterized INSERT
+ */
+export function insertQuery(
+  hash: PDQHash | string,
+  options: PDQSqlOptions,
+  values: Record<string, unknown> = {}
+): SqlQuery {
+  const { table, layout } = resolve(options);
+  const names = [...hashColumns(options), ...Object.keys(values).map(identifier)];
+  const params = [...hashToColumns(hash, layout), ...Object.values(values)];
+  const placeholders = params.map((_, i) => (layout === 'bit' && i === 0 ? `$1::bit(256)` : `$${i + 1}`));
+  return {
+    text: `INSERT INTO ${table} (${names.join(', ')}) VALUES (${placeholders.join(', ')})`,
+    values: params
+  };
+}
+
+/**
+ * CREATE TABLE and CREATE INDEX statements for a hash table
+ *
+ * The hash columns get B-tree indexes for exact lookups; for `split` each part
+ * is indexed, so rows sharing any 64-bit part with a query can be found quickly.
+ *
+ * @param options Table, layout and extra columns
+ * @returns SQL statements separated by blank lines
+ *
+ * @example
+ * ```typescript
+ * await client.query(createTableSql({ table: 'images', layout: 'split', extraColumns: ['filename TEXT NOT NULL'] }));
+ * ```
+ */
+export function createTableSql(options: PDQSqlSchemaOptions): string {
+  const { table, column, layout } = resolve(options);
+  const ifNotExists = (options.ifNotExists ?? true) ? 'IF NOT EXISTS ' : '';
+  const type = { hex: 'CHAR(64)', bytea: 'BYTEA', bit: 'BIT(256)', split: 'BIGINT' }[layout];
+  const hashCols = hashColumns(options);
+
+  const definitions = [`${identifier(options.idColumn ?? 'id')} BIGSERIAL PRIMARY KEY`];
+  definitions.push(...hashCols.map(name => `${name} ${type} NOT NULL`));
+  if (options.qualityColumn) {
+    definitions.push(`${identifier(options.qualityColumn)} SMALLINT CHECK (${options.qualityColumn} BETWEEN 0 AND 100)`);
+  }
+  definitions.push(...(options.extraColumns ?? []));
+  if (layout === 'bytea') {
+    definitions.push(`CHECK (octet_length(${column}) = 32)`);
+  }
+
+  const baseName = table.replace('.', '_');
+  const statements = [`CREATE TABLE ${ifNotExists}${table} (\n  ${definitions.join(',\n  ')}\n);`];
+  for (const name of hashCols) {
+    statements.push(`CREATE INDEX ${ifNotExists}${baseName}_${name}_idx ON ${table} (${name});`);
+  }
+  return statements.join('\n\n') + '\n';
+}
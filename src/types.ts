@@ -13,18 +13,84 @@ export interface PDQHashResult {
   quality: number;
 }
 
+/**
+ * PDQF float hash: the 256 DCT coefficients before quantization to bits
+ * Coefficient `k` corresponds to hash bit `k`.
+ */
+export type PDQFloatHash = Float32Array;
+
+/**
+ * PDQF float hash result including the coefficients and quality score
+ */
+export interface PDQFloatHashResult {
+  /** The 256 unquantized DCT coefficients */
+  values: PDQFloatHash;
+  /** Quality score of the hash (0-100) */
+  quality: number;
+}
+
+/**
+ * One of the 8 dihedral transforms (rotations and mirrors) of an image
+ *
+ * Names follow the reference PDQ implementation: `flipX` mirrors across the
+ * horizontal axis, `flipY` across the vertical axis, and `flipPlus1`/`flipMinus1`
+ * transpose across the main and anti-diagonals respectively.
+ */
+export type PDQDihedralTransform =
+  | 'original'
+  | 'rotate90'
+  | 'rotate180'
+  | 'rotate270'
+  | 'flipX'
+  | 'flipY'
+  | 'flipPlus1'
+  | 'flipMinus1';
+
+/**
+ * PDQ hashes for all 8 dihedral transforms of an image
+ */
+export interface PDQDihedralHashResult {
+  /** The 256-bit PDQ hash for each transform */
+  hashes: Record<PDQDihedralTransform, PDQHash>;
+  /** Quality score of the hash (0-100), shared by all transforms */
+  quality: number;
+}
+
+/**
+ * Best match found when comparing a hash against all dihedral variants
+ */
+export interface DihedralMatch {
+  /** Smallest Hamming distance across the 8 transforms (0-256) */
+  distance: number;
+  /** Transform of the dihedral hash that produced the smallest distance */
+  transform: PDQDihedralTransform;
+}
+
+/**
+ * Byte order of 4-channel pixels
+ * `rgba` matches canvas `ImageData`; `bgra` and `argb` are common for video
+ * frames and native bitmaps. The alpha channel is ignored.
+ */
+export type PixelFormat = 'rgba' | 'bgra' | 'argb';
+
 /**
  * Image data input for hashing
  */
 export interface ImageData {
-  /** Pixel data buffer */
-  data: Uint8Array;
+  /** Pixel data buffer (canvas `ImageData.data` can be passed directly) */
+  data: Uint8Array | Uint8ClampedArray;
   /** Image width in pixels */
   width: number;
   /** Image height in pixels */
   height: number;
-  /** Number of channels (3 for RGB, 1 for grayscale) */
-  channels: 3 | 1;
+  /** Number of channels (4 for RGBA/BGRA/ARGB, 3 for RGB, 1 for grayscale) */
+  channels: 4 | 3 | 1;
+  /** Channel order when `channels` is 4 (default: 'rgba') */
+  pixelFormat?: PixelFormat;
+  /** Bytes from the start of one row to the next (default: width * channels) */
+  stride?: number;
+  /** Offset of the first pixel in `data`, in bytes (default: 0) */
+  byteOffset?: number;
 }
 
 /**
@@ -34,7 +100,9 @@ export interface PDQWasmModule {
   _malloc(size: number): number;
   _free(ptr: number): void;
   HEAPU8: Uint8Array;
+  HEAPU16: Uint16Array;
   HEAP32: Int32Array;
+  HEAPF32: Float32Array;
   _pdq_hash_from_rgb(
     rgbBuffer: number,
     width: number,
@@ -49,7 +117,79 @@ export interface PDQWasmModule {
     hashOut: number,
     qualityOut: number
   ): number;
+  _pdq_hash_from_pixels(
+    pixels: number,
+    width: number,
+    height: number,
+    rowStride: number,
+    pixelStride: number,
+    rOffset: number,
+    gOffset: number,
+    bOffset: number,
+    hashOut: number,
+    qualityOut: number
+  ): number;
+  _pdq_dihedral_hash_from_rgb(
+    rgbBuffer: number,
+    width: number,
+    height: number,
+    hashesOut: number,
+    qualityOut: number
+  ): number;
+  _pdq_dihedral_hash_from_gray(
+    grayBuffer: number,
+    width: number,
+    height: number,
+    hashesOut: number,
+    qualityOut: number
+  ): number;
+  _pdq_dihedral_hash_from_pixels(
+    pixels: number,
+    width: number,
+    height: number,
+    rowStride: number,
+    pixelStride: number,
+    rOffset: number,
+    gOffset: number,
+    bOffset: number,
+    hashesOut: number,
+    qualityOut: number
+  ): number;
+  _pdq_float_hash_from_rgb(
+    rgbBuffer: number,
+    width: number,
+    height: number,
+    floatsOut: number,
+    qualityOut: number
+  ): number;
+  _pdq_float_hash_from_gray(
+    grayBuffer: number,
+    width: number,
+    height: number,
+    floatsOut: number,
+    qualityOut: number
+  ): number;
+  _pdq_float_hash_from_pixels(
+    pixels: number,
+    width: number,
+    height: number,
+    rowStride: number,
+    pixelStride: number,
+    rOffset: number,
+    gOffset: number,
+    bOffset: number,
+    floatsOut: number,
+    qualityOut: number
+  ): number;
+  _pdq_release_scratch(): void;
   _pdq_hamming_distance(hash1: number, hash2: number): number;
+  _pdq_hamming_distance_batch(
+    reference: number,
+    packedHashes: number,
+    count: number,
+    distancesOut: number
+  ): number;
+  _pdq_distance_matrix(packedHashes: number, count: number, matrixOut: number): number;
   _pdq_hash_to_hex(hashBytes: number, hexOut: number): void;
   _pdq_hex_to_hash(hexStr: number, hashOut: number): number;
 }
@@ -67,6 +207,8 @@ export interface PDQOptions {
   wasmUrl?: string;
   /** Logger function to log PDQ operations (optional) */
   logger?: LoggerFunction;
+  /** Log invalid input instead of throwing (used by PDQ.create, default: false) */
+  ignoreInvalid?: boolean;
 }
 
 /**
@@ -82,9 +224,10 @@ export interface PDQWorkerOptions {
 }
 
 /**
- * Similarity match result for ordering operations
+ * Similarity match result for ordering and nearest-neighbour operations
+ * @template T Payload type of `{ hash, payload }` candidates passed to `PDQ.findNearest()`
  */
-export interface SimilarityMatch {
+export interface SimilarityMatch<T = unknown> {
   /** The hash being compared */
   hash: PDQHash;
   /** Hamming distance from reference hash (0-256) */
@@ -93,4 +236,48 @@ export interface SimilarityMatch {
   similarity: number;
   /** Optional index of the hash in the original array */
   index?: number;
+  /** Payload of the matched candidate, when it was given as a `{ hash, payload }` record */
+  payload?: T;
+}
+
+/**
+ * Candidate accepted by `PDQ.findNearest()`: hash bytes, a 64-character hex string,
+ * or a record carrying a payload that is returned with the match
+ */
+export type SimilarityCandidate<T = unknown> =
+  | PDQHash
+  | string
+  | { hash: PDQHash | string; payload: T };
+
+/**
+ * Options for `PDQ.findNearest()`
+ */
+export interface FindNearestOptions {
+  /** Maximum number of matches to return */
+  k: number;
+  /** Maximum Hamming distance to include (default: 256) */
+  maxDistance?: number;
+}
+
+/**
+ * Encoding detected by `PDQ.parse()`
+ * - `hex`: 64 hex characters
+ * - `base64` / `base64url`: 32 bytes in base64 (standard or URL-safe alphabet)
+ * - `pdq`: self-describing `pdq:<version>:<hex>[:q<quality>]` string
+ * - `bytes`: a 32-byte Uint8Array
+ */
+export type PDQHashFormat = 'hex' | 'base64' | 'base64url' | 'pdq' | 'bytes';
+
+/**
+ * Hash decoded by `PDQ.parse()`
+ */
+export interface ParsedPDQHash {
+  /** The 256-bit PDQ hash */
+  hash: PDQHash;
+  /** Encoding the input was in */
+  format: PDQHashFormat;
+  /** Quality score, when the input carried one (`pdq` strings) */
+  quality?: number;
+  /** Hash string format version, when the input carried one (`pdq` strings) */
+  version?: number;
 }
@@ -0,0 +1,264 @@
+/**
+ * vPDQ video hashing
+ *
+ * Follows the ThreatExchange vPDQ approach: a video is represented by the PDQ
+ * hashes of frames sampled at a fixed rate, with consecutive repeats removed.
+ * Two videos are compared by counting how many unique frame hashes of each
+ * side have a match on the other side, giving a query and a target match
+ * percentage.
+ *
+ * Frames are supplied by the caller, so no video decoder is bundled. In the
+ * browser, {@link extractVideoFrames} in `pdq-wasm/browser` produces frames by
+ * seeking an HTMLVideoElement.
+ */
+
+import { PDQ } from './pdq';
+import type { ImageData, PDQHash, PDQHashResult } from './types';
+import { hashHammingDistance, hashToHex } from './hash-utils';
+
+/**
+ * RGBA pixels as returned by `CanvasRenderingContext2D.getImageData()`
+ */
+export interface RGBAFrameData {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+/**
+ * A single video frame with its presentation time
+ */
+export interface VPDQFrame {
+  /** Frame pixels: PDQ image data, canvas RGBA data or a WebCodecs VideoFrame */
+  image: ImageData | RGBAFrameData | VideoFrame;
+  /** Presentation time in seconds */
+  timestamp: number;
+}
+
+/**
+ * Hash of one sampled video frame
+ */
+export interface VPDQFeature {
+  /** PDQ hash of the frame */
+  hash: PDQHash;
+  /** PDQ quality of the frame (0-100) */
+  quality: number;
+  /** Index of the frame in the input sequence */
+  frameNumber: number;
+  /** Presentation time in seconds */
+  timestamp: number;
+}
+
+/**
+ * Options for {@link hashVideoFrames}
+ */
+export interface VPDQHashOptions {
+  /** Frames per second to hash (default: every input frame) */
+  fps?: number;
+  /**
+   * Drop a frame when it is within this distance of the previous kept frame (default: 0)
+   * Use -1 to keep every sampled frame.
+   */
+  dedupeDistance?: number;
+  /** PDQ instance used for hashing (default: the static PDQ API) */
+  pdq?: { hash(imageData: ImageData): PDQHashResult };
+}
+
+/**
+ * Options for {@link matchVideoHashes}
+ */
+export interface VPDQMatchOptions {
+  /** Maximum Hamming distance for two frames to match (default: 31) */
+  distanceTolerance?: number;
+  /** Frames below this quality are ignored (default: 50) */
+  qualityTolerance?: number;
+}
+
+/**
+ * Result of comparing two videos
+ */
+export interface VPDQMatchResult {
+  /** Percentage of unique query frames with a match in the target (0-100) */
+  queryMatchPercent: number;
+  /** Percentage of unique target frames with a match in the query (0-100) */
+  targetMatchPercent: number;
+}
+
+/**
+ * Allowed slack when comparing timestamps against the sampling grid
+ * @internal
+ */
+const TIMESTAMP_EPSILON = 1e-6;
+
+/**
+ * Convert a frame image to PDQ image data
+ * @internal
+ */
+function toPDQImage(image: VPDQFrame['image']): ImageData {
+  if ('channels' in image) {
+    return image;
+  }
+
+  let rgba: RGBAFrameData;
+  if ('displayWidth' in image) {
+    if (typeof OffscreenCanvas === 'undefined') {
+      throw new Error('Hashing VideoFrame input requires OffscreenCanvas');
+    }
+    const canvas = new OffscreenCanvas(image.displayWidth, image.displayHeight);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      throw new Error('Could not get 2D context from OffscreenCanvas');
+    }
+    ctx.drawImage(image, 0, 0);
+    rgba = ctx.getImageData(0, 0, image.displayWidth, image.displayHeight);
+  } else {
+    rgba = image;
+  }
+
+  // The WASM module reads RGBA directly; alpha is ignored
+  return { data: rgba.data, width: rgba.width, height: rgba.height, channels: 4, pixelFormat: 'rgba' };
+}
+
+/**
+ * Remove consecutive near-identical frames
+ * Each frame is compared with the last frame that was kept.
+ *
+ * @param features Frame hashes in presentation order
+ * @param maxDistance Frames within this distance of the previous kept frame are dropped (default: 0)
+ * @returns Deduplicated frame hashes
+ */
+export function dedupeVideoFrames(features: VPDQFeature[], maxDistance: number = 0): VPDQFeature[] {
+  const kept: VPDQFeature[] = [];
+  for (const feature of features) {
+    const previous = kept[kept.length - 1];
+    if (!previous || hashHammingDistance(previous.hash, feature.hash) > maxDistance) {
+      kept.push(feature);
+    }
+  }
+  return kept;
+}
+
+/**
+ * Hash a sequence of video frames
+ *
+ * Frames are sampled on a fixed grid of `1 / fps` seconds, so the first frame
+ * at or after each grid point is hashed. Consecutive near-identical frames are
+ * then removed (see {@link dedupeVideoFrames}). VideoFrame inputs are not
+ * closed; the caller keeps ownership.
+ *
+ * Requires PDQ.init() (or a `pdq` instance) for hashing.
+ *
+ * @param frames Frames in presentation order (sync or async iterable)
+ * @param options Sampling and dedupe options
+ * @returns Hashes of the sampled frames
+ *
+ * @example
+ * ```typescript
+ * const frames = decodedFrames.map((image, i) => ({ image, timestamp: i / 30 }));
+ * const features = await hashVideoFrames(frames, { fps: 1 });
+ * ```
+ */
+export async function hashVideoFrames(
+  frames: Iterable<VPDQFrame> | AsyncIterable<VPDQFrame>,
+  options: VPDQHashOptions = {}
+): Promise<VPDQFeature[]> {
+  const { fps, dedupeDistance = 0 } = options;
+  const pdq = options.pdq ?? PDQ;
+
+  if (fps !== undefined && !(fps > 0)) {
+    throw new Error(`Invalid fps: ${fps}. Must be greater than 0`);
+  }
+
+  const interval = fps ? 1 / fps : 0;
+  let nextSample = -Infinity;
+  let frameNumber = -1;
+  const features: VPDQFeature[] = [];
+
+  for await (const frame of frames) {
+    frameNumber++;
+    if (frame.timestamp + TIMESTAMP_EPSILON < nextSample) {
+      continue;
+    }
+    if (interval > 0) {
+      nextSample = (Math.floor((frame.timestamp + TIMESTAMP_EPSILON) / interval) + 1) * interval;
+    }
+
+    const { hash, quality } = pdq.hash(toPDQImage(frame.image));
+    features.push({ hash, quality, frameNumber, timestamp: frame.timestamp });
+  }
+
+  return dedupeDistance < 0 ? features : dedupeVideoFrames(features, dedupeDistance);
+}
+
+/**
+ * Drop low-quality frames and repeated hashes before matching
+ * @internal
+ */
+function uniqueFrameHashes(features: VPDQFeature[], qualityTolerance: number): PDQHash[] {
+  const seen = new Set<string>();
+  const hashes: PDQHash[] = [];
+  for (const feature of features) {
+    if (feature.quality < qualityTolerance) continue;
+    const key = hashToHex(feature.hash);
+    if (!seen.has(key)) {
+      seen.add(key);
+      hashes.push(feature.hash);
+    }
+  }
+  return hashes;
+}
+
+/**
+ * Count hashes in `from` that are within `distanceTolerance` of any hash in `to`
+ * @internal
+ */
+function countMatched(from: PDQHash[], to: PDQHash[], distanceTolerance: number): number {
+  let matched = 0;
+  for (const a of from) {
+    if (to.some(b => hashHammingDistance(a, b) <= distanceTolerance)) {
+      matched++;
+    }
+  }
+  return matched;
+}
+
+/**
+ * Compare two videos using vPDQ match percentages
+ *
+ * Frames below `qualityTolerance` are ignored and repeated hashes are counted
+ * once. A query frame matches if any target frame is within
+ * `distanceTolerance`, and vice versa. A side with no usable frames scores 0.
+ *
+ * @param query Frame hashes of the query video
+ * @param target Frame hashes of the target video
+ * @param options Match tolerances
+ * @returns Query and target match percentages
+ *
+ * @example
+ * ```typescript
+ * const { queryMatchPercent, targetMatchPercent } = matchVideoHashes(upload, known);
+ * if (queryMatchPercent >= 80 && targetMatchPercent >= 80) {
+ *   console.log('Same video');
+ * } else if (queryMatchPercent >= 80) {
+ *   console.log('Upload is a clip of the known video');
+ * }
+ * ```
+ */
+export function matchVideoHashes(
+  query: VPDQFeature[],
+  target: VPDQFeature[],
+  options: VPDQMatchOptions = {}
+): VPDQMatchResult {
+  const distanceTolerance = options.distanceTolerance ?? 31;
+  const qualityTolerance = options.qualityTolerance ?? 50;
+
+  const queryHashes = uniqueFrameHashes(query, qualityTolerance);
+  const targetHashes = uniqueFrameHashes(target, qualityTolerance);
+
+  const percent = (matched: number, total: number) => (total > 0 ? (matched * 100) / total : 0);
+
+  return {
+    queryMatchPercent: percent(countMatched(queryHashes, targetHashes, distanceTolerance), queryHashes.length),
+    targetMatchPercent: percent(countMatched(targetHashes, queryHashes, distanceTolerance), targetHashes.length),
+  };
+}
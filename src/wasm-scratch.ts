@@ -0,0 +1,68 @@
+/**
+ * Growable scratch buffers in WASM memory
+ */
+
+import type { PDQWasmModule } from './types';
+
+/** Slot for pixel data and packed hash input */
+export const SCRATCH_INPUT = 0;
+/** Slot for hashes, coefficients, quality scores and distances written by WASM */
+export const SCRATCH_OUTPUT = 1;
+
+/**
+ * Reusable WASM allocations, one per slot
+ *
+ * Each slot keeps its allocation across calls and only reallocates when a
+ * request exceeds its capacity, at least doubling it, so hashing many images
+ * in a loop does not `_malloc`/`_free` the pixel buffer every time. Contents
+ * are not preserved when a slot grows.
+ * @internal
+ */
+export class WasmScratch {
+  private readonly slots: Array<{ ptr: number; capacity: number }> = [];
+
+  constructor(private readonly mod: PDQWasmModule) {}
+
+  /**
+   * Get a pointer to at least `size` bytes in a slot
+   * @param slot Slot index ({@link SCRATCH_INPUT} or {@link SCRATCH_OUTPUT})
+   * @param size Minimum size in bytes
+   */
+  get(slot: number, size: number): number {
+    const current = this.slots[slot];
+    if (current && current.capacity >= size) {
+      return current.ptr;
+    }
+
+    const capacity = Math.max(size, 64, (current?.capacity ?? 0) * 2);
+    if (current) {
+      this.mod._free(current.ptr);
+    }
+    const ptr = this.mod._malloc(capacity);
+    if (!ptr) {
+      delete this.slots[slot];
+      throw new Error(`Failed to allocate ${capacity} bytes of WASM memory`);
+    }
+    this.slots[slot] = { ptr, capacity };
+    return ptr;
+  }
+
+  /**
+   * Total bytes currently held across all slots
+   */
+  get size(): number {
+    return this.slots.reduce((total, slot) => total + (slot ? slot.capacity : 0), 0);
+  }
+
+  /**
+   * Free every slot; later calls to {@link WasmScratch.get} allocate again
+   */
+  release(): void {
+    for (const slot of this.slots) {
+      if (slot) {
+        this.mod._free(slot.ptr);
+      }
+    }
+    this.slots.length = 0;
+  }
+}
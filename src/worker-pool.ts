@@ -0,0 +1,543 @@
+/**
+ * Pool of Web Workers for hashing image Blobs off the main thread
+ *
+ * Each worker runs a script that calls {@link servePDQWorker}; the pool sends
+ * it the WASM URLs so the worker initializes itself with PDQ.initWorker().
+ */
+
+import type { ImageHashResult } from './browser';
+
+/**
+ * Message sent from the pool to a worker
+ * @internal
+ */
+export type PDQWorkerRequest =
+  | { type: 'init'; wasmUrl: string; wasmJsUrl?: string }
+  | { type: 'hash'; id: number; blob: Blob };
+
+/**
+ * Message posted back from a worker to the pool
+ * @internal
+ */
+export type PDQWorkerResponse =
+  | { type: 'ready' }
+  | { type: 'init-error'; error: string }
+  | { type: 'hash-result'; id: number; result: ImageHashResult }
+  | { type: 'hash-error'; id: number; error: string };
+
+/**
+ * Lifecycle state of a pool worker
+ *
+ * - `initializing`: loading WASM (also after a crash, while the replacement starts)
+ * - `idle` / `busy`: ready, without or with a file in progress
+ * - `failed`: the worker could not initialize and takes no work
+ * - `terminated`: the pool was shut down
+ */
+export type PDQWorkerStatus = 'initializing' | 'idle' | 'busy' | 'failed' | 'terminated';
+
+/**
+ * Per-worker counters returned by {@link PDQWorkerPool#stats}
+ */
+export interface PDQWorkerStats {
+  /** Worker slot index (kept when a crashed worker is replaced) */
+  id: number;
+  /** Current state */
+  status: PDQWorkerStatus;
+  /** Name of the file being hashed, if busy */
+  currentFile: string | null;
+  /** Files hashed successfully */
+  processed: number;
+  /** Files that failed (decode errors, or crashes after the last retry) */
+  errors: number;
+  /** Times the worker in this slot crashed and was replaced */
+  crashes: number;
+  /** Total milliseconds spent on successfully hashed files */
+  totalTime: number;
+  /** Average milliseconds per successfully hashed file (0 before the first) */
+  averageTime: number;
+}
+
+/**
+ * Options for {@link PDQWorkerPool}
+ */
+export interface PDQWorkerPoolOptions {
+  /** URL of the worker script calling servePDQWorker() (not needed with `createWorker`) */
+  workerUrl?: string | URL;
+  /** URL to the WASM file, passed to PDQ.initWorker() in each worker */
+  wasmUrl: string;
+  /** URL to the WASM JavaScript glue code (optional, see PDQ.initWorker()) */
+  wasmJsUrl?: string;
+  /** Number of workers (default: navigator.hardwareConcurrency, or 4) */
+  size?: number;
+  /** Worker script type for `workerUrl` (default: 'module') */
+  type?: WorkerType;
+  /** How many times a file is retried on a fresh worker after its worker crashes (default: 2) */
+  maxRetries?: number;
+  /** Custom worker factory, e.g. for bundler-specific worker imports */
+  createWorker?: (id: number) => Worker;
+}
+
+/**
+ * Options for {@link PDQWorkerPool#hash}
+ */
+export interface PoolHashOptions {
+  /** Files with a higher priority are started first (default: 0) */
+  priority?: number;
+  /** Name used in stats and error messages (default: File.name, or 'blob') */
+  name?: string;
+}
+
+/**
+ * Progress reported by {@link PDQWorkerPool#hashAll} after each file settles
+ */
+export interface HashAllProgress {
+  /** Number of files passed to hashAll() */
+  total: number;
+  /** Files settled so far, successful or not */
+  completed: number;
+  /** Files that failed so far */
+  failed: number;
+  /** Name of the file that just settled */
+  currentFile: string;
+}
+
+/**
+ * Options for {@link PDQWorkerPool#hashAll}
+ */
+export interface HashAllOptions {
+  /** Priority for every file of this call (default: 0) */
+  priority?: number;
+  /** Called after each file settles */
+  onProgress?: (progress: HashAllProgress) => void;
+}
+
+/**
+ * Outcome for one file of {@link PDQWorkerPool#hashAll}
+ */
+export interface PoolHashOutcome {
+  /** The input Blob or File */
+  file: Blob;
+  /** File name (File.name, or 'blob') */
+  name: string;
+  /** Hash result, or null if hashing failed */
+  result: ImageHashResult | null;
+  /** Error message if hashing failed */
+  error?: string;
+}
+
+/**
+ * Queued or running hash request
+ * @internal
+ */
+interface PoolTask {
+  id: number;
+  seq: number;
+  blob: Blob;
+  name: string;
+  priority: number;
+  attempts: number;
+  resolve: (result: ImageHashResult) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * One worker and its bookkeeping; replaced wholesale when the worker crashes
+ * @internal
+ */
+interface WorkerSlot {
+  worker: Worker;
+  stats: PDQWorkerStats;
+  ready: boolean;
+  task: PoolTask | null;
+  startedAt: number;
+}
+
+/**
+ * Name of a Blob for stats and error messages
+ * @internal
+ */
+function blobName(blob: Blob): string {
+  const name = (blob as File).name;
+  return typeof name === 'string' && name ? name : 'blob';
+}
+
+/**
+ * Fixed-size pool of PDQ Web Workers
+ *
+ * Files are queued by priority (FIFO within a priority) and handed to idle
+ * workers. A file that fails to decode rejects at once; if a worker crashes
+ * (an uncaught error or a WASM trap), it is replaced and its file is retried
+ * on the new worker up to `maxRetries` times.
+ *
+ * @example
+ * ```typescript
+ * // pdq-worker.js (module worker)
+ * import { servePDQWorker } from 'pdq-wasm/browser';
+ * servePDQWorker();
+ * ```
+ *
+ * @example
+ * ```typescript
+ * import { PDQWorkerPool } from 'pdq-wasm/browser';
+ *
+ * const pool = new PDQWorkerPool({
+ *   workerUrl: new URL('./pdq-worker.js', import.meta.url),
+ *   wasmUrl: 'https://unpkg.com/pdq-wasm@0.3.7/wasm/pdq.wasm',
+ *   size: 4
+ * });
+ *
+ * const outcomes = await pool.hashAll([...input.files], {
+ *   onProgress: ({ completed, total }) => updateProgressBar(completed / total)
+ * });
+ * outcomes.forEach(({ name, result, error }) => console.log(name, result?.hex ?? error));
+ *
+ * // Jump the queue for the file the user is looking at
+ * const { hex } = await pool.hash(selectedFile, { priority: 10 });
+ *
+ * pool.terminate();
+ * ```
+ */
+export class PDQWorkerPool {
+  private readonly options: PDQWorkerPoolOptions;
+  private readonly maxRetries: number;
+  private readonly slots: WorkerSlot[] = [];
+  private readonly queue: PoolTask[] = [];
+  private readyWaiters: Array<{ resolve: () => void; reject: (error: Error) => void }> = [];
+  private nextId = 0;
+  private terminated = false;
+  private lastInitError = '';
+
+  /**
+   * Create the workers and start initializing them
+   * @throws {Error} If neither `workerUrl` nor `createWorker` is given, or `size`/`maxRetries` is invalid
+   */
+  constructor(options: PDQWorkerPoolOptions) {
+    if (!options.workerUrl && !options.createWorker) {
+      throw new Error('PDQWorkerPool requires workerUrl or createWorker');
+    }
+
+    const size = options.size ??
+      ((typeof navigator !== 'undefined' && navigator.hardwareConcurrency) || 4);
+    if (!Number.isInteger(size) || size < 1) {
+      throw new Error(`Invalid pool size: ${size}. Must be a positive integer`);
+    }
+
+    const maxRetries = options.maxRetries ?? 2;
+    if (!Number.isInteger(maxRetries) || maxRetries < 0) {
+      throw new Error(`Invalid maxRetries: ${maxRetries}. Must be a non-negative integer`);
+    }
+
+    this.options = options;
+    this.maxRetries = maxRetries;
+
+    for (let id = 0; id < size; id++) {
+      this.slots.push(this.spawn({
+        id,
+        status: 'initializing',
+        currentFile: null,
+        processed: 0,
+        errors: 0,
+        crashes: 0,
+        totalTime: 0,
+        averageTime: 0
+      }));
+    }
+  }
+
+  /** Number of worker slots */
+  get size(): number {
+    return this.slots.length;
+  }
+
+  /** Number of files waiting for a worker */
+  get pending(): number {
+    return this.queue.length;
+  }
+
+  /**
+   * Wait until every worker has finished initializing
+   * Resolves once each worker is ready or has failed; rejects if all of them failed.
+   */
+  ready(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.readyWaiters.push({ resolve, reject });
+      this.settleReadyWaiters();
+    });
+  }
+
+  /**
+   * Hash one Blob or File on the next free worker
+   *
+   * @param blob Image to hash
+   * @param options Priority and display name
+   * @returns Promise resolving to the detailed hash result
+   * @throws {Error} If the image cannot be decoded, its worker crashed more than
+   *   `maxRetries` times, no worker could initialize, or the pool is terminated
+   */
+  hash(blob: Blob, options: PoolHashOptions = {}): Promise<ImageHashResult> {
+    if (this.terminated) {
+      return Promise.reject(new Error('PDQWorkerPool has been terminated'));
+    }
+    if (this.allFailed()) {
+      return Promise.reject(new Error(`No PDQ workers available: ${this.lastInitError}`));
+    }
+
+    return new Promise((resolve, reject) => {
+      const id = this.nextId++;
+      this.enqueue({
+        id,
+        seq: id,
+        blob,
+        name: options.name ?? blobName(blob),
+        priority: options.priority ?? 0,
+        attempts: 0,
+        resolve,
+        reject
+      });
+      this.dispatch();
+    });
+  }
+
+  /**
+   * Hash many Blobs or Files, reporting progress as each one settles
+   *
+   * Never rejects for individual files: failures are reported in the outcome's
+   * `error` so one corrupt file does not lose the rest of the batch.
+   *
+   * @param files Images to hash
+   * @param options Priority and progress callback
+   * @returns Promise resolving to one outcome per file, in input order
+   */
+  async hashAll(files: Blob[], options: HashAllOptions = {}): Promise<PoolHashOutcome[]> {
+    const total = files.length;
+    let completed = 0;
+    let failed = 0;
+
+    return Promise.all(files.map(async (file): Promise<PoolHashOutcome> => {
+      const name = blobName(file);
+      let outcome: PoolHashOutcome;
+      try {
+        outcome = { file, name, result: await this.hash(file, { priority: options.priority, name }) };
+      } catch (error) {
+        failed++;
+        outcome = { file, name, result: null, error: error instanceof Error ? error.message : String(error) };
+      }
+
+      completed++;
+      options.onProgress?.({ total, completed, failed, currentFile: name });
+      return outcome;
+    }));
+  }
+
+  /**
+   * Snapshot of per-worker counters
+   */
+  stats(): PDQWorkerStats[] {
+    return this.slots.map(slot => ({ ...slot.stats }));
+  }
+
+  /**
+   * Terminate every worker and reject queued and running files
+   */
+  terminate(): void {
+    if (this.terminated) return;
+    this.terminated = true;
+
+    const error = new Error('PDQWorkerPool has been terminated');
+    for (const slot of this.slots) {
+      slot.worker.terminate();
+      slot.stats.status = 'terminated';
+      slot.stats.currentFile = null;
+      slot.task?.reject(error);
+      slot.task = null;
+    }
+    for (const task of this.queue.splice(0)) {
+      task.reject(error);
+    }
+    for (const waiter of this.readyWaiters.splice(0)) {
+      waiter.reject(error);
+    }
+  }
+
+  /**
+   * Start a worker for a slot and send it the init message
+   * @internal
+   */
+  private spawn(stats: PDQWorkerStats): WorkerSlot {
+    const { workerUrl, createWorker, type, wasmUrl, wasmJsUrl } = this.options;
+    const worker = createWorker
+      ? createWorker(stats.id)
+      : new Worker(workerUrl!, { type: type ?? 'module' });
+
+    const slot: WorkerSlot = { worker, stats, ready: false, task: null, startedAt: 0 };
+
+    worker.onmessage = (event: MessageEvent<PDQWorkerResponse>) => this.handleMessage(slot, event.data);
+    worker.onerror = (event: ErrorEvent) => {
+      event.preventDefault?.();
+      this.handleCrash(slot, event.message || 'Unknown worker error');
+    };
+    worker.onmessageerror = () => this.handleCrash(slot, 'Worker message could not be deserialized');
+
+    const init: PDQWorkerRequest = { type: 'init', wasmUrl, wasmJsUrl };
+    worker.postMessage(init);
+    return slot;
+  }
+
+  /**
+   * @internal
+   */
+  private handleMessage(slot: WorkerSlot, message: PDQWorkerResponse): void {
+    // Ignore late messages from a worker that has been replaced
+    if (this.terminated || this.slots[slot.stats.id] !== slot) return;
+
+    switch (message.type) {
+      case 'ready':
+        slot.ready = true;
+        slot.stats.status = 'idle';
+        this.settleReadyWaiters();
+        this.dispatch();
+        break;
+
+      case 'init-error':
+        this.markFailed(slot, message.error);
+        break;
+
+      case 'hash-result':
+      case 'hash-error': {
+        const task = slot.task;
+        if (!task || task.id !== message.id) return;
+
+        slot.task = null;
+        slot.stats.status = 'idle';
+        slot.stats.currentFile = null;
+
+        if (message.type === 'hash-result') {
+          slot.stats.processed++;
+          slot.stats.totalTime += Date.now() - slot.startedAt;
+          slot.stats.averageTime = slot.stats.totalTime / slot.stats.processed;
+          task.resolve(message.result);
+        } else {
+          slot.stats.errors++;
+          task.reject(new Error(`Failed to hash ${task.name}: ${message.error}`));
+        }
+
+        this.dispatch();
+        break;
+      }
+    }
+  }
+
+  /**
+   * Replace a crashed worker and retry its file
+   * A worker that crashes before becoming ready is marked failed instead,
+   * so a broken worker script is not restarted forever.
+   * @internal
+   */
+  private handleCrash(slot: WorkerSlot, message: string): void {
+    if (this.terminated || this.slots[slot.stats.id] !== slot) return;
+
+    slot.worker.terminate();
+    if (!slot.ready) {
+      this.markFailed(slot, message);
+      return;
+    }
+
+    const { stats, task } = slot;
+    stats.crashes++;
+    stats.status = 'initializing';
+    stats.currentFile = null;
+
+    if (task) {
+      task.attempts++;
+      if (task.attempts > this.maxRetries) {
+        stats.errors++;
+        task.reject(new Error(`Worker crashed while hashing ${task.name}: ${message}`));
+      } else {
+        this.enqueue(task);
+      }
+    }
+
+    this.slots[stats.id] = this.spawn(stats);
+  }
+
+  /**
+   * @internal
+   */
+  private markFailed(slot: WorkerSlot, error: string): void {
+    slot.worker.terminate();
+    slot.stats.status = 'failed';
+    this.lastInitError = error;
+
+    if (this.allFailed()) {
+      const failure = new Error(`No PDQ workers available: ${error}`);
+      for (const task of this.queue.splice(0)) {
+        task.reject(failure);
+      }
+    }
+    this.settleReadyWaiters();
+  }
+
+  /**
+   * @internal
+   */
+  private allFailed(): boolean {
+    return this.slots.every(slot => slot.stats.status === 'failed');
+  }
+
+  /**
+   * Resolve or reject ready() callers once no worker is initializing
+   * @internal
+   */
+  private settleReadyWaiters(): void {
+    if (this.readyWaiters.length === 0) return;
+    if (this.slots.some(slot => slot.stats.status === 'initializing')) return;
+
+    const waiters = this.readyWaiters.splice(0);
+    for (const waiter of waiters) {
+      if (this.allFailed()) {
+        waiter.reject(new Error(`No PDQ workers available: ${this.lastInitError}`));
+      } else {
+        waiter.resolve();
+      }
+    }
+  }
+
+  /**
+   * Insert a task after every task of higher or equal priority (stable by seq)
+   * @internal
+   */
+  private enqueue(task: PoolTask): void {
+    let lo = 0;
+    let hi = this.queue.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >>> 1;
+      const other = this.queue[mid];
+      if (other.priority > task.priority || (other.priority === task.priority && other.seq < task.seq)) {
+        lo = mid + 1;
+      } else {
+        hi = mid;
+      }
+    }
+    this.queue.splice(lo, 0, task);
+  }
+
+  /**
+   * Hand queued files to idle workers
+   * @internal
+   */
+  private dispatch(): void {
+    for (const slot of this.slots) {
+      if (this.queue.length === 0) return;
+      if (!slot.ready || slot.task || slot.stats.status !== 'idle') continue;
+
+      const task = this.queue.shift()!;
+      slot.task = task;
+      slot.startedAt = Date.now();
+      slot.stats.status = 'busy';
+      slot.stats.currentFile = task.name;
+
+      const request: PDQWorkerRequest = { type: 'hash', id: task.id, blob: task.blob };
+      slot.worker.postMessage(request);
+    }
+  }
+}